@@ -0,0 +1,73 @@
+'use strict';
+
+import {promises as fs} from "fs";
+import * as path from "path";
+import {NotebookCell} from "../polynote/data/data";
+import {Output} from "../polynote/data/result";
+
+/**
+ * The notebooks in a directory on disk. Notebooks are read from .ipynb files, but changes to them aren't saved.
+ */
+export class NotebookFiles {
+    constructor(readonly dir: string) {}
+
+    list(): Promise<string[]> {
+        const listDir = (dir: string): Promise<string[]> => fs.readdir(path.join(this.dir, dir), {withFileTypes: true}).then(
+            entries => Promise.all(entries.map(entry => {
+                const entryPath = dir ? `${dir}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    return listDir(entryPath);
+                } else if (entry.name.endsWith('.ipynb')) {
+                    return Promise.resolve([entryPath]);
+                } else {
+                    return Promise.resolve([]);
+                }
+            })).then(paths => paths.flat())
+        );
+        return listDir("");
+    }
+
+    load(nbPath: string): Promise<NotebookCell[]> {
+        return this.resolve(nbPath).then(file => fs.readFile(file, 'utf-8')).then(parseNotebook);
+    }
+
+    /**
+     * Create an empty notebook (or one with the given ipynb content), returning its actual path.
+     */
+    create(nbPath: string, content?: string): Promise<string> {
+        const actualPath = nbPath.endsWith('.ipynb') ? nbPath : `${nbPath}.ipynb`;
+        const json = content ?? JSON.stringify({metadata: {}, nbformat: 4, nbformat_minor: 0, cells: []}, null, 2);
+        return this.resolve(actualPath)
+            .then(file => fs.mkdir(path.dirname(file), {recursive: true}).then(() => fs.writeFile(file, json, {flag: 'wx'})))
+            .then(() => actualPath);
+    }
+
+    private resolve(nbPath: string): Promise<string> {
+        const dir = path.resolve(this.dir);
+        const file = path.resolve(dir, nbPath);
+        if (!file.startsWith(dir + path.sep)) {
+            return Promise.reject(new Error(`Invalid notebook path ${nbPath}`));
+        }
+        return Promise.resolve(file);
+    }
+}
+
+function parseNotebook(json: string): NotebookCell[] {
+    const nb = JSON.parse(json);
+    const cells: any[] = nb.cells ?? [];
+    return cells.map((cell, id) => {
+        const language = cell.metadata?.language ?? cell.language ?? (cell.cell_type === 'markdown' ? 'text' : 'scala');
+        const outputs = (cell.outputs ?? [])
+            .filter((output: any) => output.output_type === 'stream' || output.name === 'stdout' || output.name === 'stderr')
+            .map((output: any) => new Output(`text/plain; rel=${output.name ?? 'stdout'}`, lines(output.text)));
+        return new NotebookCell(id, language, lines(cell.source).join(''), outputs);
+    });
+}
+
+// ipynb text can be either a string or an array of lines.
+function lines(text: string | string[] | undefined): string[] {
+    if (text === undefined) {
+        return [];
+    }
+    return text instanceof Array ? text : [text];
+}
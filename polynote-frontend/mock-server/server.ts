@@ -0,0 +1,108 @@
+'use strict';
+
+// the data modules have circular imports, which only work if messages is loaded first (as it is in the UI).
+import "../polynote/data/messages";
+import {promises as fs} from "fs";
+import {createServer, IncomingMessage, ServerResponse} from "http";
+import {Socket} from "net";
+import * as path from "path";
+import {WebSocketConnection} from "./websocket";
+import {NotebookFiles} from "./notebooks";
+import {MockServer} from "./sessions";
+
+/**
+ * A stand-in for the polynote server, which serves the built UI and speaks the same binary message protocol over
+ * websockets, but doesn't run any code. It's meant for working on the UI without having to build and run the real
+ * server and its kernels.
+ *
+ * Usage: node server.js [--port 8192] [--notebooks <dir>] [--static <dir>]
+ */
+
+const wsKey = "mock";
+
+const contentTypes: Record<string, string> = {
+    ".html": "text/html; charset=utf-8",
+    ".js": "application/javascript",
+    ".css": "text/css",
+    ".map": "application/json",
+    ".json": "application/json",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+    ".ico": "image/x-icon",
+    ".ttf": "font/ttf",
+    ".woff": "font/woff",
+    ".woff2": "font/woff2"
+};
+
+function parseArgs(args: string[]): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (let i = 0; i < args.length; i += 2) {
+        if (!args[i].startsWith("--") || args[i + 1] === undefined) {
+            throw new Error(`Invalid argument ${args[i]}`);
+        }
+        result[args[i].substring(2)] = args[i + 1];
+    }
+    return result;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const frontendDir = path.resolve(__dirname, "..", "..", "..");
+const port = parseInt(args.port ?? "8192");
+const staticDir = path.resolve(args.static ?? path.join(frontendDir, "dist", "static"));
+const notebooksDir = path.resolve(args.notebooks ?? path.join(frontendDir, "..", "notebooks"));
+
+const mockServer = new MockServer(new NotebookFiles(notebooksDir));
+
+function serveFile(res: ServerResponse, file: string, transform?: (content: string) => string) {
+    const resolved = path.resolve(staticDir, file);
+    if (!resolved.startsWith(staticDir + path.sep)) {
+        res.writeHead(404).end();
+        return;
+    }
+
+    fs.readFile(resolved)
+        .then(content => {
+            res.writeHead(200, {"Content-Type": contentTypes[path.extname(resolved)] ?? "application/octet-stream"});
+            res.end(transform ? transform(content.toString('utf-8')) : content);
+        })
+        .catch(() => res.writeHead(404).end());
+}
+
+function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.pathname === "/" || url.pathname.startsWith("/notebook/")) {
+        serveFile(res, "index.html", html => html.replace("$WS_KEY", wsKey).replace("$BASE_URI", "/"));
+    } else if (url.pathname.startsWith("/static/")) {
+        serveFile(res, decodeURIComponent(url.pathname.substring("/static/".length)));
+    } else if (url.pathname === "/favicon.ico") {
+        serveFile(res, "favicon.ico");
+    } else {
+        res.writeHead(404).end();
+    }
+}
+
+function handleUpgrade(req: IncomingMessage, socket: Socket) {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.searchParams.get("key") !== wsKey) {
+        socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+        return;
+    }
+
+    if (url.pathname === "/ws") {
+        const conn = WebSocketConnection.accept(req, socket);
+        if (conn) mockServer.connectGlobal(conn);
+    } else if (url.pathname.startsWith("/ws/")) {
+        const nbPath = decodeURIComponent(url.pathname.substring("/ws/".length));
+        const conn = WebSocketConnection.accept(req, socket);
+        if (conn) mockServer.connectNotebook(nbPath, conn);
+    } else {
+        socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    }
+}
+
+const server = createServer(handleRequest);
+server.on('upgrade', handleUpgrade);
+server.listen(port, () => {
+    console.log(`Mock server listening at http://localhost:${port}/`);
+    console.log(`Serving the UI from ${staticDir}, and notebooks from ${notebooksDir}`);
+});
@@ -0,0 +1,501 @@
+'use strict';
+
+import {WebSocketConnection} from "./websocket";
+import {NotebookFiles} from "./notebooks";
+import * as messages from "../polynote/data/messages";
+import {
+    CellResult, CompletionsAt, CreateNotebook, Error, HandleData, KernelBusyState, KernelStatus, ListNotebooks,
+    LoadNotebook, Message, ModifyStream, NotebookCells, NotebookUpdate, NotebookUpdateRange, NotebookVersion,
+    ParametersAt, Presence, PresenceSelection, PresenceUpdate, ReleaseHandle, RunCell, RunningKernels,
+    ServerHandshake, TaskInfo, TaskStatus, UpdatedTasks
+} from "../polynote/data/messages";
+import {CellComment, CellMetadata, NotebookCell, NotebookConfig} from "../polynote/data/data";
+import {ClearResults, ExecutionInfo, Output, ResultValue, ServerErrorWithCause} from "../polynote/data/result";
+import {StreamingDataRepr, StringRepr} from "../polynote/data/value_repr";
+import {DoubleType, IntType, StringType, StructField, StructType} from "../polynote/data/data_type";
+import {ContentEdit, Delete, Insert} from "../polynote/data/content_edit";
+import {DataWriter, Pair} from "../polynote/data/codec";
+import {Either} from "../polynote/data/types";
+import match from "../polynote/util/match";
+
+// how long running a cell pretends to take
+const cellRunTime = 500;
+
+// cells which contain this produce a table result, which can be streamed by the UI.
+export const mockDataKeyword = "mockData";
+
+function send(conn: WebSocketConnection, msg: Message) {
+    conn.send(Message.encode(msg));
+}
+
+function decode(data: Buffer): Message {
+    return Message.decode(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+}
+
+/**
+ * Handle each message from the client. A message which can't be decoded (e.g. because the client speaks another
+ * revision of the protocol) closes its connection, rather than throwing out of the socket's event handler – which would
+ * end the whole server.
+ */
+function onMessage(conn: WebSocketConnection, handler: (msg: Message) => void) {
+    conn.on('message', (data: Buffer) => {
+        let msg: Message;
+        try {
+            msg = decode(data);
+        } catch (err) {
+            console.error("Closing a connection which sent an invalid message", err);
+            send(conn, new Error(0, serverError("DecodingException", `Invalid message: ${err.message ?? err}`)));
+            conn.close();
+            return;
+        }
+        handler(msg);
+    });
+}
+
+function serverError(className: string, message: string): ServerErrorWithCause {
+    return new ServerErrorWithCause(className, message, []);
+}
+
+// messages are frozen, so the versions are changed by changing the encoded message.
+function withVersions(update: NotebookUpdate, globalVersion: number, localVersion: number): NotebookUpdate {
+    const buf = Message.encode(update);
+    const view = new DataView(buf);
+    view.setUint32(1, globalVersion);
+    view.setUint32(5, localVersion);
+    return Message.decode(buf) as NotebookUpdate;
+}
+
+/**
+ * Handles the connections to the mock server, and keeps track of the state that they share.
+ */
+export class MockServer {
+    private globalClients: WebSocketConnection[] = [];
+    private notebooks: Record<string, Promise<MockNotebook>> = {};
+    private streams = new MockStreams();
+
+    constructor(readonly files: NotebookFiles) {}
+
+    /**
+     * The connection that isn't specific to any notebook, which handles things like listing notebooks.
+     */
+    connectGlobal(conn: WebSocketConnection) {
+        this.globalClients.push(conn);
+        send(conn, this.handshake());
+
+        conn.on('close', () => this.globalClients = this.globalClients.filter(c => c !== conn));
+        onMessage(conn, msg => {
+            match(msg)
+                .when(ListNotebooks, () => {
+                    this.files.list()
+                        .then(paths => send(conn, new ListNotebooks(paths)))
+                        .catch(err => this.sendError(conn, err));
+                })
+                .when(CreateNotebook, (path: string, content?: string) => {
+                    this.files.create(path, content)
+                        .then(actualPath => this.globalClients.forEach(c => send(c, new CreateNotebook(actualPath))))
+                        .catch(err => this.sendError(conn, err));
+                })
+                .when(RunningKernels, () => {
+                    Promise.all(Object.values(this.notebooks)).then(notebooks => send(conn, new RunningKernels(
+                        notebooks.map(nb => new Pair(nb.path, nb.busyState))
+                    )));
+                })
+                .when(messages.RenameNotebook, () => this.unsupported(conn, "Renaming notebooks"))
+                .when(messages.CopyNotebook, () => this.unsupported(conn, "Copying notebooks"))
+                .when(messages.DeleteNotebook, () => this.unsupported(conn, "Deleting notebooks"))
+                .otherwise((msg: Message) => {
+                    console.log(`Ignoring unsupported ${(msg.constructor as typeof Message).msgTypeName} message`);
+                });
+        });
+    }
+
+    connectNotebook(path: string, conn: WebSocketConnection) {
+        send(conn, this.handshake());
+
+        if (!this.notebooks[path]) {
+            this.notebooks[path] = this.files.load(path).then(cells => new MockNotebook(path, cells, this.streams));
+            this.notebooks[path].catch(() => delete this.notebooks[path]);
+        }
+
+        // the client can send messages before the notebook has loaded, so they're buffered until it has.
+        const buffered: Message[] = [];
+        let receive = (msg: Message) => { buffered.push(msg) };
+        let closed = false;
+        onMessage(conn, msg => receive(msg));
+        conn.on('close', () => closed = true);
+
+        this.notebooks[path]
+            .then(notebook => {
+                if (!closed) {
+                    receive = notebook.connect(conn);
+                    buffered.splice(0).forEach(receive);
+                }
+            })
+            .catch(err => {
+                this.sendError(conn, err);
+                conn.close();
+            });
+    }
+
+    private handshake(): ServerHandshake {
+        return new ServerHandshake(
+            messages.protocolFingerprint, {scala: "Scala", python: "Python"}, "mock", "mock", null, []);
+    }
+
+    private unsupported(conn: WebSocketConnection, what: string) {
+        send(conn, new Error(0, serverError("UnsupportedOperationException", `${what} isn't supported by the mock server`)));
+    }
+
+    private sendError(conn: WebSocketConnection, err: any) {
+        console.error(err);
+        send(conn, new Error(0, serverError(err.name ?? "Error", err.message ?? `${err}`)));
+    }
+}
+
+interface Client {
+    readonly id: number;
+    readonly conn: WebSocketConnection;
+    lastLocalVersion: number;
+}
+
+interface VersionedUpdate {
+    readonly version: number;
+    readonly clientId: number;
+    readonly update: NotebookUpdate;
+}
+
+/**
+ * A notebook which is open on the mock server, along with its clients and its pretend kernel.
+ */
+class MockNotebook {
+    private clients: Client[] = [];
+    private nextClientId = 0;
+    private config?: NotebookConfig;
+    private globalVersion = 0;
+    // versions start over when the mock server restarts, just as they do on the real one.
+    private readonly epoch = `${Date.now()}`;
+    private history: VersionedUpdate[] = [];
+    private queue: Promise<void> = Promise.resolve();
+    private busy = false;
+
+    constructor(readonly path: string, private cells: NotebookCell[], private readonly streams: MockStreams) {}
+
+    get busyState(): KernelBusyState {
+        return new KernelBusyState(this.busy, true);
+    }
+
+    /**
+     * Adds a client to the notebook, returning the function which handles its messages.
+     */
+    connect(conn: WebSocketConnection): (msg: Message) => void {
+        const client: Client = {id: this.nextClientId++, conn, lastLocalVersion: 0};
+        const presence = (c: Client) => new Presence(c.id, `Mock user ${c.id}`);
+
+        this.sendNotebook(client);
+        send(conn, new KernelStatus(this.busyState));
+        send(conn, new KernelStatus(new PresenceUpdate(this.clients.map(presence), [])));
+        this.broadcast(new KernelStatus(new PresenceUpdate([presence(client)], [])));
+        this.clients.push(client);
+
+        conn.on('close', () => {
+            this.clients = this.clients.filter(c => c !== client);
+            this.broadcast(new KernelStatus(new PresenceUpdate([], [client.id])));
+        });
+
+        return (msg: Message) => {
+            if (msg instanceof NotebookUpdate) {
+                this.update(client, msg);
+                return;
+            }
+
+            match(msg)
+                .when(LoadNotebook, () => this.sendNotebook(client))
+                .when(NotebookVersion, (reqId: number) => send(conn, new NotebookVersion(reqId, this.path, this.globalVersion, this.epoch)))
+                .when(NotebookUpdateRange, (reqId: number, path: string, epoch: string, fromVersion: number, toVersion: number) => {
+                    const updates = epoch === this.epoch ? this.history
+                        .filter(versioned => versioned.version > fromVersion && versioned.version <= toVersion)
+                        .map(versioned => versioned.update) : undefined;
+                    send(conn, new NotebookUpdateRange(reqId, path, epoch, fromVersion, toVersion, updates));
+                })
+                .when(RunCell, (ids: number[]) => ids.forEach(id => this.queueCell(id)))
+                .when(CompletionsAt, (reqId: number, id: number, pos: number) => send(conn, new CompletionsAt(reqId, id, pos, [])))
+                .when(ParametersAt, (reqId: number, id: number, pos: number) => send(conn, new ParametersAt(reqId, id, pos)))
+                .when(HandleData, (reqId: number, handleType: number, handle: number, count: number) =>
+                    send(conn, new HandleData(reqId, handleType, handle, count, this.streams.next(handle, count))))
+                .when(ModifyStream, (reqId: number, fromHandle: number, ops: messages.TableOp[]) =>
+                    send(conn, new ModifyStream(reqId, fromHandle, ops, this.streams.modify(fromHandle, ops))))
+                .when(ReleaseHandle, (handleType: number, handle: number) => this.streams.release(handle))
+                .when(KernelStatus, () => send(conn, new KernelStatus(this.busyState)))
+                .when(messages.StartKernel, () => send(conn, new KernelStatus(this.busyState)))
+                .when(messages.CurrentSelection, (cellId: number, range) =>
+                    this.broadcast(new KernelStatus(new PresenceSelection(client.id, cellId, range)), client))
+                .otherwise(() => console.log(`Ignoring unsupported ${(msg.constructor as typeof Message).msgTypeName} message`));
+        };
+    }
+
+    private sendNotebook(client: Client) {
+        send(client.conn, new NotebookCells(this.path, this.cells, this.config));
+        send(client.conn, new NotebookVersion(0, this.path, this.globalVersion, this.epoch));
+    }
+
+    private broadcast(msg: Message, except?: Client) {
+        this.clients.forEach(client => {
+            if (client !== except) {
+                send(client.conn, msg);
+            }
+        });
+    }
+
+    /**
+     * Apply an update from a client, and send it to the other clients. Like the real server, an update which was made
+     * against an older version is rebased against the other clients' updates since then.
+     */
+    private update(from: Client, update: NotebookUpdate) {
+        const missed = this.history
+            .filter(versioned => versioned.version > update.globalVersion && versioned.clientId !== from.id)
+            .map(versioned => versioned.update);
+        const rebased = NotebookUpdate.rebase(update, missed);
+
+        this.apply(rebased);
+        this.globalVersion++;
+        from.lastLocalVersion = update.localVersion;
+        this.history.push({version: this.globalVersion, clientId: from.id, update: withVersions(rebased, this.globalVersion, update.localVersion)});
+
+        this.clients.forEach(client => {
+            if (client !== from) {
+                send(client.conn, withVersions(rebased, this.globalVersion, client.lastLocalVersion));
+            }
+        });
+    }
+
+    private apply(update: NotebookUpdate) {
+        const updateCell = (id: number, fn: (cell: NotebookCell) => NotebookCell) => {
+            this.cells = this.cells.map(cell => cell.id === id ? fn(cell) : cell);
+        };
+
+        match(update)
+            .when(messages.UpdateCell, (g: number, l: number, id: number, edits: ContentEdit[], metadata?: CellMetadata) =>
+                updateCell(id, cell => new NotebookCell(
+                    cell.id, cell.language, applyEdits(cell.content, edits), cell.results, metadata ?? cell.metadata, cell.comments)))
+            .when(messages.InsertCell, (g: number, l: number, cell: NotebookCell, after: number) => {
+                const index = this.cells.findIndex(c => c.id === after) + 1;
+                this.cells = [...this.cells.slice(0, index), cell, ...this.cells.slice(index)];
+            })
+            .when(messages.DeleteCell, (g: number, l: number, id: number) => this.cells = this.cells.filter(cell => cell.id !== id))
+            .when(messages.UpdateConfig, (g: number, l: number, config: NotebookConfig) => this.config = config)
+            .when(messages.SetCellLanguage, (g: number, l: number, id: number, language: string) =>
+                updateCell(id, cell => new NotebookCell(cell.id, language, cell.content, cell.results, cell.metadata, cell.comments)))
+            .when(messages.SetCellOutput, (g: number, l: number, id: number, output?: Output) =>
+                updateCell(id, cell => new NotebookCell(cell.id, cell.language, cell.content, output ? [output] : [], cell.metadata, cell.comments)))
+            .when(messages.CreateComment, (g: number, l: number, id: number, comment: CellComment) =>
+                updateCell(id, cell => new NotebookCell(cell.id, cell.language, cell.content, cell.results, cell.metadata,
+                    {...cell.comments, [comment.uuid]: comment})))
+            .when(messages.UpdateComment, (g: number, l: number, id: number, commentId: string, range, content: string) =>
+                updateCell(id, cell => {
+                    const comment = cell.comments[commentId];
+                    if (!comment) return cell;
+                    const updated = new CellComment(comment.uuid, range, comment.author, comment.authorAvatarUrl, comment.createdAt, content);
+                    return new NotebookCell(cell.id, cell.language, cell.content, cell.results, cell.metadata,
+                        {...cell.comments, [commentId]: updated});
+                }))
+            .when(messages.DeleteComment, (g: number, l: number, id: number, commentId: string) =>
+                updateCell(id, cell => {
+                    const comments = {...cell.comments};
+                    delete comments[commentId];
+                    return new NotebookCell(cell.id, cell.language, cell.content, cell.results, cell.metadata, comments);
+                }));
+    }
+
+    // cells run one at a time, in the order they were queued.
+    private queueCell(id: number) {
+        const task = (status: number, progress: number) => new KernelStatus(new UpdatedTasks([
+            new TaskInfo(`Cell ${id}`, `Cell ${id}`, "", status, progress)
+        ]));
+
+        this.broadcast(task(TaskStatus.Queued, 0));
+        this.queue = this.queue.then(() => new Promise(resolve => {
+            const cell = this.cells.find(c => c.id === id);
+            if (!cell) {
+                this.broadcast(task(TaskStatus.Complete, 255));
+                resolve();
+                return;
+            }
+
+            const start = Date.now();
+            this.setBusy(true);
+            this.broadcast(task(TaskStatus.Running, 0));
+            this.broadcast(new CellResult(id, new ClearResults()));
+            this.broadcast(new CellResult(id, new ExecutionInfo(start)));
+
+            setTimeout(() => {
+                this.cannedResults(cell).forEach(result => this.broadcast(new CellResult(id, result)));
+                this.broadcast(new CellResult(id, new ExecutionInfo(start, Date.now())));
+                this.broadcast(task(TaskStatus.Complete, 255));
+                this.setBusy(false);
+                resolve();
+            }, cellRunTime);
+        }));
+    }
+
+    private cannedResults(cell: NotebookCell) {
+        const results = [
+            new Output("text/plain; rel=stdout", [`Ran ${cell.language} cell ${cell.id} on the mock server\n`])
+        ];
+
+        if (cell.content.includes(mockDataKeyword)) {
+            const repr = this.streams.create();
+            return [...results, new ResultValue(
+                "Out", "MockData", [new StringRepr(`MockData(${repr.knownSize} rows)`), repr], cell.id)];
+        }
+
+        const lastLine = cell.content.trim().split("\n").pop() ?? "";
+        return [...results, new ResultValue("Out", "String", [new StringRepr(lastLine)], cell.id)];
+    }
+
+    private setBusy(busy: boolean) {
+        this.busy = busy;
+        this.broadcast(new KernelStatus(this.busyState));
+    }
+}
+
+function applyEdits(content: string, edits: ContentEdit[]): string {
+    return edits.reduce((result, edit) => {
+        if (edit instanceof Insert) {
+            return result.substring(0, edit.pos) + edit.content + result.substring(edit.pos);
+        } else if (edit instanceof Delete) {
+            return result.substring(0, edit.pos) + result.substring(edit.pos + edit.length);
+        }
+        return result;
+    }, content);
+}
+
+const mockDataType = new StructType([
+    new StructField("index", IntType),
+    new StructField("value", DoubleType),
+    new StructField("label", StringType)
+]);
+
+const mockDataSize = 1000;
+
+interface MockRow {
+    index: number,
+    value: number,
+    label: string
+}
+
+function mockRow(index: number): MockRow {
+    return {index, value: Math.round(Math.sin(index / 20) * 10000) / 100, label: `row ${index}`};
+}
+
+function comparator(column: string): (a: MockRow, b: MockRow) => number {
+    if (!mockDataType.fields.find(field => field.name === column)) {
+        throw `No field ${column} in struct`;
+    }
+    const key = column as keyof MockRow;
+    return (a, b) => a[key] < b[key] ? -1 : a[key] > b[key] ? 1 : 0;
+}
+
+function test(predicate: messages.Predicate): (row: MockRow) => boolean {
+    return match(predicate)
+        .when(messages.Compare, (column: string, op: messages.CompareOp, value: string) => {
+            if (op === "contains") {
+                comparator(column);
+                return (row: MockRow) => `${row[column as keyof MockRow]}`.includes(value);
+            }
+
+            const compare = comparator(column);
+            const literal: MockRow = {index: +value, value: +value, label: value};
+            const matches: Record<string, (result: number) => boolean> = {
+                "==": r => r === 0, "!=": r => r !== 0, "<": r => r < 0, "<=": r => r <= 0, ">": r => r > 0, ">=": r => r >= 0
+            };
+            return (row: MockRow) => matches[op](compare(row, literal));
+        })
+        .when(messages.And, (predicates: messages.Predicate[]) => {
+            const tests = predicates.map(test);
+            return (row: MockRow) => tests.every(t => t(row));
+        })
+        .when(messages.Or, (predicates: messages.Predicate[]) => {
+            const tests = predicates.map(test);
+            return (row: MockRow) => tests.some(t => t(row));
+        })
+        .when(messages.Not, (p: messages.Predicate) => {
+            const t = test(p);
+            return (row: MockRow) => !t(row);
+        })
+        .otherwiseThrow;
+}
+
+/**
+ * The streams of canned data which are handed out as StreamingDataReprs. Each handle has its own rows and its own
+ * position in them. Filter, Sort and Limit are supported; streams which use other table operations (i.e. aggregations)
+ * fail.
+ */
+class MockStreams {
+    private nextHandle = 0;
+    private streams: Record<number, {rows: MockRow[], position: number}> = {};
+    private failed: Record<number, string> = {};
+
+    create(rows: MockRow[] = [...Array(mockDataSize).keys()].map(mockRow)): StreamingDataRepr {
+        const handle = this.nextHandle++;
+        this.streams[handle] = {rows, position: 0};
+        return new StreamingDataRepr(handle, mockDataType, rows.length);
+    }
+
+    modify(handle: number, ops: messages.TableOp[]): StreamingDataRepr {
+        let rows: MockRow[] = [];
+        let failure: string | undefined = undefined;
+        try {
+            if (!this.streams[handle]) {
+                throw `Unknown stream handle ${handle}`;
+            }
+            rows = this.streams[handle].rows;
+            ops.forEach(op => {
+                if (op instanceof messages.Filter) {
+                    rows = rows.filter(test(op.predicate));
+                } else if (op instanceof messages.Sort) {
+                    const comparators = op.columns.map(pair => {
+                        const compare = comparator(pair.first);
+                        return pair.second ? (a: MockRow, b: MockRow) => compare(b, a) : compare;
+                    });
+                    rows = [...rows].sort((a, b) => comparators.reduce((result, compare) => result || compare(a, b), 0));
+                } else if (op instanceof messages.Limit) {
+                    rows = rows.slice(0, op.count);
+                } else {
+                    throw `${(op.constructor as typeof Message).msgTypeName} isn't supported by the mock server`;
+                }
+            });
+        } catch (err) {
+            failure = `${err}`;
+        }
+
+        const repr = this.create(rows);
+        if (failure !== undefined) {
+            this.failed[repr.handle] = failure;
+        }
+        return repr;
+    }
+
+    next(handle: number, count: number) {
+        const stream = this.streams[handle];
+        const failure = this.failed[handle] ?? (stream === undefined ? `Unknown stream handle ${handle}` : undefined);
+        if (failure !== undefined) {
+            return Either.left(new Error(0, serverError("IllegalStateException", failure)));
+        }
+
+        const end = Math.min(stream.rows.length, stream.position + count);
+        const batch: ArrayBuffer[] = stream.rows.slice(stream.position, end).map(row => {
+            const writer = new DataWriter();
+            writer.writeInt32(row.index);
+            writer.writeFloat64(row.value);
+            writer.writeString(row.label);
+            return writer.finish();
+        });
+        stream.position = end;
+        return Either.right(batch);
+    }
+
+    release(handle: number) {
+        delete this.streams[handle];
+        delete this.failed[handle];
+    }
+}
@@ -0,0 +1,171 @@
+'use strict';
+
+import {createHash} from "crypto";
+import {EventEmitter} from "events";
+import {IncomingMessage} from "http";
+import {Socket} from "net";
+
+const handshakeGUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const Opcode = Object.freeze({
+    Continuation: 0x0,
+    Text: 0x1,
+    Binary: 0x2,
+    Close: 0x8,
+    Ping: 0x9,
+    Pong: 0xA
+});
+
+/**
+ * Just enough of a WebSocket server (RFC 6455) to talk to the UI, so that the mock server doesn't need any dependencies.
+ *
+ * Emits `message` (with a Buffer) for every complete binary message from the client, and `close` once the connection
+ * is closed.
+ */
+export class WebSocketConnection extends EventEmitter {
+    private buffered: Buffer = Buffer.alloc(0);
+    private fragments: Buffer[] = [];
+    private closed = false;
+
+    private constructor(private readonly socket: Socket) {
+        super();
+        socket.on('data', data => this.receive(data));
+        socket.on('close', () => this.onClose());
+        socket.on('error', err => {
+            console.error("WebSocket error", err);
+            this.onClose();
+        });
+    }
+
+    /**
+     * Complete the handshake for an HTTP upgrade request, or reject it if it isn't a valid WebSocket request.
+     */
+    static accept(req: IncomingMessage, socket: Socket): WebSocketConnection | undefined {
+        const key = req.headers['sec-websocket-key'];
+        if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+            socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+            return undefined;
+        }
+
+        const accept = createHash('sha1').update(key + handshakeGUID).digest('base64');
+        socket.write([
+            "HTTP/1.1 101 Switching Protocols",
+            "Upgrade: websocket",
+            "Connection: Upgrade",
+            `Sec-WebSocket-Accept: ${accept}`,
+            "", ""
+        ].join("\r\n"));
+
+        return new WebSocketConnection(socket);
+    }
+
+    send(data: ArrayBuffer | Buffer) {
+        this.sendFrame(Opcode.Binary, Buffer.from(data instanceof Buffer ? data : new Uint8Array(data)));
+    }
+
+    close() {
+        if (!this.closed) {
+            this.sendFrame(Opcode.Close, Buffer.alloc(0));
+            this.socket.end();
+            this.onClose();
+        }
+    }
+
+    private onClose() {
+        if (!this.closed) {
+            this.closed = true;
+            this.emit('close');
+        }
+    }
+
+    // server frames are never masked or fragmented.
+    private sendFrame(opcode: number, payload: Buffer) {
+        if (this.closed) {
+            return;
+        }
+
+        let header: Buffer;
+        if (payload.length < 126) {
+            header = Buffer.from([0x80 | opcode, payload.length]);
+        } else if (payload.length < 65536) {
+            header = Buffer.alloc(4);
+            header.writeUInt8(0x80 | opcode, 0);
+            header.writeUInt8(126, 1);
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header.writeUInt8(0x80 | opcode, 0);
+            header.writeUInt8(127, 1);
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+        }
+        this.socket.write(Buffer.concat([header, payload]));
+    }
+
+    private receive(data: Buffer) {
+        this.buffered = Buffer.concat([this.buffered, data]);
+
+        // handle as many complete frames as have been buffered.
+        while (this.buffered.length >= 2) {
+            const first = this.buffered[0];
+            const second = this.buffered[1];
+            const fin = (first & 0x80) !== 0;
+            const opcode = first & 0x0F;
+            const masked = (second & 0x80) !== 0;
+
+            let length = second & 0x7F;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffered.length < offset + 2) return;
+                length = this.buffered.readUInt16BE(offset);
+                offset += 2;
+            } else if (length === 127) {
+                if (this.buffered.length < offset + 8) return;
+                length = Number(this.buffered.readBigUInt64BE(offset));
+                offset += 8;
+            }
+
+            const maskOffset = offset;
+            if (masked) {
+                offset += 4;
+            }
+
+            if (this.buffered.length < offset + length) return;
+
+            const payload = Buffer.from(this.buffered.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < payload.length; i++) {
+                    payload[i] ^= this.buffered[maskOffset + (i % 4)];
+                }
+            }
+            this.buffered = this.buffered.subarray(offset + length);
+
+            this.handleFrame(fin, opcode, payload);
+        }
+    }
+
+    private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+        switch (opcode) {
+            case Opcode.Continuation:
+            case Opcode.Text:
+            case Opcode.Binary:
+                this.fragments.push(payload);
+                if (fin) {
+                    const message = Buffer.concat(this.fragments);
+                    this.fragments = [];
+                    this.emit('message', message);
+                }
+                break;
+            case Opcode.Close:
+                this.close();
+                break;
+            case Opcode.Ping:
+                this.sendFrame(Opcode.Pong, payload);
+                break;
+            case Opcode.Pong:
+                break;
+            default:
+                console.error(`Unknown WebSocket opcode ${opcode}; closing connection`);
+                this.close();
+        }
+    }
+}
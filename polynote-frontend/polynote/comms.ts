@@ -1,9 +1,10 @@
 'use strict';
 
-import {Message, NotebookUpdate} from './data/messages'
+import {Message, NotebookUpdate, RequestMessage} from './data/messages'
 import {EventTarget} from 'event-target-shim'
-import {remove} from "vega-lite/build/src/compositemark";
-import {Extractable} from "./util/match";
+import {del, get, set, Store} from 'idb-keyval';
+import {defaultTransport, Transport, TransportFactory} from "./transport";
+import {protocolLog} from "./protocol_log";
 
 export class PolynoteMessageEvent<T extends Message> extends CustomEvent<any> {
     constructor(readonly message: T) {
@@ -15,11 +16,112 @@ export class PolynoteMessageEvent<T extends Message> extends CustomEvent<any> {
 type ListenerCallback = (...args: any[]) => void
 export type MessageListener = [typeof Message, ListenerCallback, boolean?];
 
+/**
+ * A token which can signal that an outstanding request is no longer needed. This is structurally compatible with
+ * monaco's CancellationToken, so those can be passed through directly.
+ */
+export interface CancelToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => any): any;
+}
+
+export interface RequestOptions {
+    // reject the request if no response is received within this many milliseconds
+    timeout?: number;
+    cancelToken?: CancelToken;
+}
+
+export class RequestTimeout extends Error {
+    constructor(readonly request: Message, readonly timeout: number) {
+        super(`Request timed out after ${timeout}ms`);
+    }
+}
+
+export class RequestCancelled extends Error {
+    constructor(readonly request: Message) {
+        super("Request was cancelled");
+    }
+}
+
+export class SessionClosed extends Error {
+    constructor(readonly request: Message) {
+        super("Session was closed before the response arrived");
+    }
+}
+
+interface PendingRequest {
+    request: Message;
+    resolve: (response: any) => void;
+    reject: (reason: any) => void;
+    timeout?: number;
+}
+
 const mainEl = document.getElementById('Main');
 const socketKey = mainEl?.getAttribute('data-ws-key');
 
 const openSessions: Record<string, SocketSession> = {};
 
+let transportFactory: TransportFactory = defaultTransport;
+
+// reconnection delays grow exponentially from the base delay up to the max delay, with random jitter so that many
+// clients which lost their connection at the same time don't all come back at the same time.
+const reconnectBaseDelay = 1000;
+const reconnectMaxDelay = 30000;
+
+/**
+ * Outbound messages which haven't been sent yet are persisted to IndexedDB, so that they can survive a reload or crash
+ * of the tab. Only NotebookUpdates are persisted – other messages are requests which don't make sense to replay later.
+ *
+ * Messages are stored in their encoded form (in the order they were sent), because the structured clone algorithm
+ * used by IndexedDB doesn't preserve their classes. Each tab has its own queue, so that a tab only replays the messages
+ * which it sent – if two tabs have the same notebook open, they'd otherwise both replay (and overwrite) one queue.
+ */
+class OutboundQueueStore {
+    private static inst: Store;
+
+    // identifies this tab. It's kept in sessionStorage, which belongs to the tab and survives it being reloaded (or
+    // restored after a crash) – so its queue can still be found then.
+    private static tabId: string = (() => {
+        const key = 'polynote-tab-id';
+        const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2)}`;
+        try {
+            let id = sessionStorage.getItem(key);
+            if (!id) {
+                id = newId();
+                sessionStorage.setItem(key, id);
+            }
+            return id;
+        } catch (err) {
+            return newId();
+        }
+    })();
+
+    private static get store() {
+        if (!OutboundQueueStore.inst) {
+            OutboundQueueStore.inst = new Store('polynote-outbound', 'queue');
+        }
+        return OutboundQueueStore.inst;
+    }
+
+    private static key(url: URL): string {
+        return `${url.pathname}#${OutboundQueueStore.tabId}`;
+    }
+
+    static save(url: URL, messages: Message[]): Promise<void> {
+        const encoded = messages.filter(msg => msg instanceof NotebookUpdate).map(msg => Message.encode(msg));
+        if (encoded.length) {
+            return set(OutboundQueueStore.key(url), encoded, OutboundQueueStore.store);
+        } else {
+            return del(OutboundQueueStore.key(url), OutboundQueueStore.store);
+        }
+    }
+
+    static load(url: URL): Promise<Message[]> {
+        return get<ArrayBuffer[] | undefined>(OutboundQueueStore.key(url), OutboundQueueStore.store)
+            .then(encoded => (encoded || []).map(buf => Message.decode(buf)));
+    }
+}
+
 function wsUrl(url: URL) {
     url = new URL(url.href);
     if (!url.searchParams.get("key") && socketKey) {
@@ -30,7 +132,7 @@ function wsUrl(url: URL) {
 }
 
 function closeAll() {
-    for (const url in Object.keys(openSessions)) {
+    for (const url of Object.keys(openSessions)) {
         const sess = openSessions[url];
         sess.close();
         delete openSessions[url];
@@ -39,6 +141,16 @@ function closeAll() {
 
 window.addEventListener("beforeunload", closeAll);
 
+// if we're waiting to reconnect, there's no need to keep waiting once the network comes back or the user returns.
+function reconnectAll() {
+    for (const url of Object.keys(openSessions)) {
+        openSessions[url].reconnectNow();
+    }
+}
+
+window.addEventListener("online", reconnectAll);
+window.addEventListener("focus", reconnectAll);
+
 export class SocketSession extends EventTarget {
     private static inst: SocketSession;
 
@@ -49,6 +161,24 @@ export class SocketSession extends EventTarget {
         return SocketSession.inst
     }
 
+    static closeAll() {
+        closeAll();
+    }
+
+    /**
+     * Set the transport used by sessions which connect after this (e.g. to connect to a fake server). To switch
+     * existing sessions over, reconnect them with reconnectAll.
+     */
+    static useTransport(factory: TransportFactory) {
+        transportFactory = factory;
+    }
+
+    static reconnectAll() {
+        for (const url of Object.keys(openSessions)) {
+            openSessions[url].reconnect(false);
+        }
+    }
+
     static fromRelativeURL(relativeURL: string): SocketSession {
         const url = wsUrl(new URL(relativeURL, document.baseURI));
         if (openSessions[url.href]) {
@@ -57,21 +187,37 @@ export class SocketSession extends EventTarget {
         return new SocketSession(url)
     }
 
-    private socket?: WebSocket;
+    private socket?: Transport;
     listeners: any;
 
+    private autoReconnect: boolean = true;
+    private reconnectAttempts: number = 0;
+    private reconnectTimeout?: number;
+    private restoredQueue: Promise<Message[]>;
+
+    private nextReqId: number = 1; // 0 is reserved for messages which aren't responses to a request
+    private pendingRequests: Record<number, PendingRequest> = {};
+
     private constructor(readonly url: URL, public queue: Message[] = [], public messageListeners: MessageListener[] = []) {
         super();
+        openSessions[url.href] = this;
+
+        // anything left over from a previous session (i.e. the tab crashed or was closed while disconnected) gets sent
+        // before anything else, once we're connected.
+        this.restoredQueue = OutboundQueueStore.load(url).catch(err => {
+            console.error("Error restoring outbound message queue", err);
+            return [];
+        });
+
         this.mkSocket();
     }
 
     mkSocket() {
-        this.socket = new WebSocket(this.url.href);
-        this.socket.binaryType = 'arraybuffer';
+        this.socket = transportFactory(this.url);
         this.listeners = {
             message: this.receive.bind(this),
             open: this.opened.bind(this),
-            close: this.close.bind(this),
+            close: this.onClose.bind(this),
             error: (event: Event) => this.onError(event)
         };
 
@@ -83,17 +229,28 @@ export class SocketSession extends EventTarget {
 
     onError(event: Event) {
         if (this.socket) {
-            this.close();
+            this.closeSocket();
             this.dispatchEvent(new CustomEvent('error', {detail: {cause: event}}));
+            this.scheduleReconnect();
         }
     }
 
+    onClose(event: Event) {
+        this.closeSocket();
+        this.scheduleReconnect();
+    }
 
     opened(event: Event) {
-        while (this.queue.length) {
-            this.send(this.queue.pop()!);
-        }
-        this.dispatchEvent(new CustomEvent('open'));
+        this.reconnectAttempts = 0;
+        this.restoredQueue.then(restored => {
+            this.restoredQueue = Promise.resolve([]);
+            this.queue.push(...restored.reverse());
+            while (this.isOpen && this.queue.length) {
+                this.send(this.queue.pop()!);
+            }
+            this.persistQueue();
+            this.dispatchEvent(new CustomEvent('open', {detail: {restored: restored.length}}));
+        });
     }
 
     get isOpen(): boolean {
@@ -111,19 +268,38 @@ export class SocketSession extends EventTarget {
     send(msg: Message) {
         if (this.socket && this.isOpen) {
             const buf = Message.encode(msg);
+            protocolLog.record(this.url, 'sent', buf);
             this.socket.send(buf);
         } else {
             this.queue.unshift(msg);
+            if (msg instanceof NotebookUpdate) {
+                this.persistQueue();
+            }
         }
     }
 
+    private persistQueue() {
+        // the queue is kept newest-first, but it's persisted in the order the messages were sent.
+        OutboundQueueStore.save(this.url, [...this.queue].reverse())
+            .catch(err => console.error("Error persisting outbound message queue", err));
+    }
+
     receive(event: Event) {
         if (event instanceof MessageEvent) {
             if (event.data instanceof ArrayBuffer) {
-                const msg = Message.decode(event.data);
-                this.dispatchEvent(new PolynoteMessageEvent(msg)); // this is how `request` works.
+                protocolLog.record(this.url, 'received', event.data);
+                let msg: Message;
+                try {
+                    msg = Message.decode(event.data);
+                } catch (err) {
+                    console.error("Unable to decode message from server", err);
+                    this.dispatchEvent(new CustomEvent('decodeerror', {detail: {cause: err}}));
+                    return;
+                }
+                this.resolvePending(msg);
+                this.dispatchEvent(new PolynoteMessageEvent(msg));
 
-                for (const handler of this.messageListeners) {
+                for (const handler of [...this.messageListeners]) { // copy, because handlers might be removed while iterating
                     const msgType = handler[0];
                     const listenerCB = handler[1];
                     const removeWhenFalse = handler[2];
@@ -159,21 +335,97 @@ export class SocketSession extends EventTarget {
     }
 
     /**
-     * Send a request and listen for the response. The message must properly implement the isResponse method.
+     * Send a request and listen for the response. The request can be given as a function which receives a fresh request
+     * ID, for a RequestMessage which is correlated with its response using that ID. Otherwise, the message must
+     * properly implement the isResponse method.
+     *
+     * The returned promise is rejected with a RequestTimeout if the response doesn't arrive within the given timeout,
+     * with a RequestCancelled if the given cancel token is cancelled before it arrives, or with a SessionClosed if the
+     * session is closed first.
+     *
+     * Timing out or cancelling only stops waiting for the response. A request which is still queued (because the socket
+     * isn't open) is dropped, but the protocol has no way to tell the server to abandon one it has already received – it
+     * still responds, and the response is ignored.
      */
-    request<T extends Message>(msg: T) {
+    request<T extends Message>(msg: T | ((reqId: number) => T), options: RequestOptions = {}): Promise<T> {
+        const reqId = this.nextReqId++;
+        const request = msg instanceof Message ? msg : msg(reqId);
+        const key = request instanceof RequestMessage ? request.reqId : reqId;
+
         return new Promise<T>((resolve, reject) => {
-            this.addEventListener('message', (evt: PolynoteMessageEvent<T>) => {
-               if (msg.isResponse(evt.message)) {
-                   resolve(evt.message);
-                   return true; // so it gets removed.
-               } else return false;
-            }, /*removeWhenFalse*/ true);
-            this.send(msg);
+            if (options.cancelToken?.isCancellationRequested) {
+                reject(new RequestCancelled(request));
+                return;
+            }
+
+            const pending: PendingRequest = {request, resolve, reject};
+            this.pendingRequests[key] = pending;
+
+            if (options.timeout) {
+                const timeout = options.timeout;
+                pending.timeout = window.setTimeout(() => this.rejectPending(key, pending, new RequestTimeout(request, timeout)), timeout);
+            }
+
+            if (options.cancelToken) {
+                options.cancelToken.onCancellationRequested(() => this.rejectPending(key, pending, new RequestCancelled(request)));
+            }
+
+            this.send(request);
         });
     }
 
+    private resolvePending(msg: Message) {
+        const direct = msg instanceof RequestMessage ? this.pendingRequests[msg.reqId] : undefined;
+        if (direct && direct.request.isResponse(msg)) {
+            this.removePending((msg as RequestMessage).reqId, direct);
+            direct.resolve(msg);
+            return;
+        }
+
+        for (const key of Object.keys(this.pendingRequests)) {
+            const pending = this.pendingRequests[+key];
+            if (pending.request.isResponse(msg)) {
+                this.removePending(+key, pending);
+                pending.resolve(msg);
+                return;
+            }
+        }
+    }
+
+    private rejectPending(key: number, pending: PendingRequest, reason: any) {
+        // the request might have already been resolved (or its key reused), in which case there's nothing to do.
+        if (this.pendingRequests[key] === pending) {
+            this.removePending(key, pending);
+            const queued = this.queue.indexOf(pending.request);
+            if (queued >= 0) {
+                this.queue.splice(queued, 1);
+            }
+            pending.reject(reason);
+        }
+    }
+
+    private removePending(key: number, pending: PendingRequest) {
+        if (pending.timeout !== undefined) {
+            window.clearTimeout(pending.timeout);
+        }
+        delete this.pendingRequests[key];
+    }
+
+    /**
+     * Close the socket, and stop trying to reconnect it until `reconnect` is called. Any outstanding requests are
+     * rejected, since their responses won't arrive.
+     */
     close() {
+        this.autoReconnect = false;
+        this.cancelReconnect();
+        this.closeSocket();
+        for (const key of Object.keys(this.pendingRequests)) {
+            const pending = this.pendingRequests[+key];
+            this.rejectPending(+key, pending, new SessionClosed(pending.request));
+        }
+    }
+
+    private closeSocket() {
         if (this.socket) {
             if (this.socket.readyState < WebSocket.CLOSING) {
                 this.socket.close();
@@ -190,10 +442,49 @@ export class SocketSession extends EventTarget {
     }
 
     reconnect(onlyIfClosed: boolean) {
+        this.autoReconnect = true;
+        this.cancelReconnect();
         if (!this.socket || this.isClosed || (!onlyIfClosed && (this.socket.readyState > WebSocket.CONNECTING))) {
-            this.close();
+            this.closeSocket();
             this.mkSocket();
         }
     }
 
+    /**
+     * If a reconnection is scheduled, attempt it immediately rather than waiting for the rest of the delay.
+     */
+    reconnectNow() {
+        if (this.reconnectTimeout !== undefined) {
+            this.reconnect(true);
+        }
+    }
+
+    get isReconnecting(): boolean {
+        return this.reconnectTimeout !== undefined;
+    }
+
+    private scheduleReconnect() {
+        if (!this.autoReconnect || this.reconnectTimeout !== undefined) {
+            return;
+        }
+
+        const maxDelay = Math.min(reconnectMaxDelay, reconnectBaseDelay * Math.pow(2, this.reconnectAttempts));
+        const delay = Math.round(maxDelay / 2 + Math.random() * maxDelay / 2);
+        this.reconnectAttempts++;
+
+        this.reconnectTimeout = window.setTimeout(() => {
+            this.reconnectTimeout = undefined;
+            this.reconnect(true);
+        }, delay);
+
+        this.dispatchEvent(new CustomEvent('reconnecting', {detail: {delay, attempt: this.reconnectAttempts}}));
+    }
+
+    private cancelReconnect() {
+        if (this.reconnectTimeout !== undefined) {
+            window.clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = undefined;
+        }
+    }
+
 }
\ No newline at end of file
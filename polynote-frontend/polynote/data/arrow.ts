@@ -0,0 +1,532 @@
+'use strict';
+
+import {
+    ArrayType, BinaryType, BoolType, ByteType, DataType, DateType, DoubleType, FloatType, IntType, LongType, MapType,
+    OptionalType, ShortType, StringType, StructField, StructType, TimestampType, TypeType
+} from "./data_type";
+
+/**
+ * Writes rows to an Arrow IPC file (see https://arrow.apache.org/docs/format/Columnar.html), which e.g. pandas and Spark
+ * can read without any loss of type information.
+ *
+ * Only as much of the format is implemented as is needed to write the DataTypes – including the flatbuffers which the
+ * file's metadata is encoded with.
+ */
+
+// A little-endian byte buffer, which grows as it's written to.
+class Bytes {
+    private buf = new Uint8Array(256);
+    private view = new DataView(this.buf.buffer);
+    length = 0;
+
+    private reserve(size: number): number {
+        const offset = this.length;
+        if (offset + size > this.buf.length) {
+            let capacity = this.buf.length * 2;
+            while (capacity < offset + size) {
+                capacity *= 2;
+            }
+            const buf = new Uint8Array(capacity);
+            buf.set(this.buf);
+            this.buf = buf;
+            this.view = new DataView(buf.buffer);
+        }
+        this.length += size;
+        return offset;
+    }
+
+    // (the offset is reserved before the view is used, as reserving it can replace the view.)
+    uint8(value: number) { const offset = this.reserve(1); this.view.setUint8(offset, value); }
+    int8(value: number) { const offset = this.reserve(1); this.view.setInt8(offset, value); }
+    uint16(value: number) { const offset = this.reserve(2); this.view.setUint16(offset, value, true); }
+    int16(value: number) { const offset = this.reserve(2); this.view.setInt16(offset, value, true); }
+    int32(value: number) { const offset = this.reserve(4); this.view.setInt32(offset, value, true); }
+    int64(value: bigint) { const offset = this.reserve(8); this.view.setBigInt64(offset, value, true); }
+    float32(value: number) { const offset = this.reserve(4); this.view.setFloat32(offset, value, true); }
+    float64(value: number) { const offset = this.reserve(8); this.view.setFloat64(offset, value, true); }
+    bytes(value: Uint8Array) { const offset = this.reserve(value.length); this.buf.set(value, offset); }
+    zeros(size: number) { this.reserve(size); } // the buffer is zeroed when it's allocated
+
+    pad(alignment: number) {
+        this.zeros((alignment - this.length % alignment) % alignment);
+    }
+
+    setInt32(offset: number, value: number) { this.view.setInt32(offset, value, true); }
+
+    toArray(): Uint8Array {
+        return this.buf.slice(0, this.length);
+    }
+}
+
+// A validity (or boolean) bitmap, where the bits are ordered from least to most significant.
+class Bits {
+    private bytes: number[] = [];
+    private count = 0;
+
+    push(bit: boolean) {
+        if (this.count % 8 === 0) {
+            this.bytes.push(0);
+        }
+        if (bit) {
+            this.bytes[this.bytes.length - 1] |= 1 << (this.count % 8);
+        }
+        this.count++;
+    }
+
+    toArray(): Uint8Array {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+/*
+ * Flatbuffers. Objects are described first, and then written front-to-back – so that every offset points forwards, from
+ * a field to the object after it.
+ */
+
+interface FBField {
+    size: number                    // the field's size (and alignment) in its table
+    write?: (bytes: Bytes) => void  // writes a scalar field
+    ref?: FBObject                  // the object which an offset field refers to
+}
+
+type FBObject =
+    { kind: 'table', fields: (FBField | undefined)[] } |     // indexed by the field's id; undefined fields are absent.
+    { kind: 'string', value: string } |
+    { kind: 'tables', items: FBObject[] } |
+    { kind: 'structs', count: number, write: (bytes: Bytes) => void };
+
+const fb = {
+    bool: (value: boolean): FBField => ({size: 1, write: bytes => bytes.uint8(value ? 1 : 0)}),
+    uint8: (value: number): FBField => ({size: 1, write: bytes => bytes.uint8(value)}),
+    int16: (value: number): FBField => ({size: 2, write: bytes => bytes.int16(value)}),
+    int32: (value: number): FBField => ({size: 4, write: bytes => bytes.int32(value)}),
+    int64: (value: number): FBField => ({size: 8, write: bytes => bytes.int64(BigInt(value))}),
+    ref: (target: FBObject): FBField => ({size: 4, ref: target}),
+    table: (...fields: (FBField | undefined)[]): FBObject => ({kind: 'table', fields}),
+    string: (value: string): FBObject => ({kind: 'string', value}),
+    tables: (items: FBObject[]): FBObject => ({kind: 'tables', items}),
+    // a vector of structs, whose fields are all 8-byte aligned.
+    structs: <T>(items: T[], write: (bytes: Bytes, item: T) => void): FBObject =>
+        ({kind: 'structs', count: items.length, write: bytes => items.forEach(item => write(bytes, item))}),
+
+    finish(root: FBObject): Uint8Array {
+        const bytes = new Bytes();
+        bytes.int32(0);
+        bytes.setInt32(0, fb.write(bytes, root));
+        bytes.pad(8);
+        return bytes.toArray();
+    },
+
+    // writes the object, and returns its position.
+    write(bytes: Bytes, obj: FBObject): number {
+        switch (obj.kind) {
+            case 'table': {
+                // lay out the fields from largest to smallest, so that they're aligned without any padding.
+                const layout: [FBField, number][] = [];
+                const offsets: number[] = obj.fields.map(_ => 0);
+                let size = 4; // the table starts with the offset to its vtable
+                obj.fields
+                    .map((field, id) => [field, id] as [FBField | undefined, number])
+                    .filter(([field]) => field !== undefined)
+                    .sort(([a], [b]) => b!.size - a!.size)
+                    .forEach(([field, id]) => {
+                        size += (field!.size - size % field!.size) % field!.size;
+                        offsets[id] = size;
+                        layout.push([field!, size]);
+                        size += field!.size;
+                    });
+                const alignment = Math.max(4, ...layout.map(([field]) => field.size));
+
+                bytes.pad(2);
+                const vtable = bytes.length;
+                bytes.uint16(4 + 2 * offsets.length);
+                bytes.uint16(size);
+                offsets.forEach(offset => bytes.uint16(offset));
+
+                bytes.pad(alignment);
+                const table = bytes.length;
+                bytes.int32(table - vtable);
+                layout.forEach(([field, offset]) => {
+                    bytes.zeros(table + offset - bytes.length);
+                    field.write ? field.write(bytes) : bytes.int32(0);
+                });
+                bytes.zeros(table + size - bytes.length);
+
+                layout.forEach(([field, offset]) => {
+                    if (field.ref) {
+                        bytes.setInt32(table + offset, fb.write(bytes, field.ref) - (table + offset));
+                    }
+                });
+                return table;
+            }
+            case 'string': {
+                const encoded = new TextEncoder().encode(obj.value);
+                bytes.pad(4);
+                const pos = bytes.length;
+                bytes.int32(encoded.length);
+                bytes.bytes(encoded);
+                bytes.uint8(0);
+                return pos;
+            }
+            case 'tables': {
+                bytes.pad(4);
+                const pos = bytes.length;
+                bytes.int32(obj.items.length);
+                bytes.zeros(4 * obj.items.length);
+                obj.items.forEach((item, index) => {
+                    const slot = pos + 4 + 4 * index;
+                    bytes.setInt32(slot, fb.write(bytes, item) - slot);
+                });
+                return pos;
+            }
+            case 'structs': {
+                // the structs (rather than the vector's length) are aligned.
+                bytes.pad(8);
+                bytes.zeros(4);
+                const pos = bytes.length;
+                bytes.int32(obj.count);
+                obj.write(bytes);
+                return pos;
+            }
+        }
+    }
+};
+
+/*
+ * The Arrow metadata, from Schema.fbs, Message.fbs and File.fbs.
+ */
+
+const MetadataV5 = 4;
+
+enum MessageHeader { Schema = 1, RecordBatch = 3 }
+
+enum ArrowType { Int = 2, FloatingPoint = 3, Binary = 4, Utf8 = 5, Bool = 6, Date = 8, Timestamp = 10, List = 12, Struct = 13, Map = 17 }
+
+interface Block {
+    offset: number
+    metaDataLength: number
+    bodyLength: number
+}
+
+function message(headerType: MessageHeader, header: FBObject, bodyLength: number): FBObject {
+    return fb.table(fb.int16(MetadataV5), fb.uint8(headerType), fb.ref(header), fb.int64(bodyLength));
+}
+
+function schema(fields: [string, Column][]): FBObject {
+    return fb.table(fb.int16(0), fb.ref(fb.tables(fields.map(([name, column]) => field(name, column))))); // little-endian
+}
+
+function field(name: string, column: Column): FBObject {
+    return fb.table(
+        fb.ref(fb.string(name)),
+        fb.bool(column.nullable),
+        fb.uint8(column.type[0]),
+        fb.ref(column.type[1]),
+        undefined, // not dictionary-encoded
+        fb.ref(fb.tables(column.children.map(([name, child]) => field(name, child))))
+    );
+}
+
+function recordBatch(length: number, nodes: [number, number][], buffers: [number, number][]): FBObject {
+    const writePair = (bytes: Bytes, [a, b]: [number, number]) => {
+        bytes.int64(BigInt(a));
+        bytes.int64(BigInt(b));
+    };
+    return fb.table(fb.int64(length), fb.ref(fb.structs(nodes, writePair)), fb.ref(fb.structs(buffers, writePair)));
+}
+
+function footer(schemaTable: FBObject, blocks: Block[]): FBObject {
+    const writeBlock = (bytes: Bytes, block: Block) => {
+        bytes.int64(BigInt(block.offset));
+        bytes.int32(block.metaDataLength);
+        bytes.zeros(4);
+        bytes.int64(BigInt(block.bodyLength));
+    };
+    return fb.table(fb.int16(MetadataV5), fb.ref(schemaTable), fb.ref(fb.structs([], writeBlock)), fb.ref(fb.structs(blocks, writeBlock)));
+}
+
+// an encapsulated message: a continuation marker, the length of the metadata, and the metadata.
+function encapsulate(metadata: Uint8Array): Uint8Array {
+    const bytes = new Bytes();
+    bytes.int32(-1);
+    bytes.int32(metadata.length); // the metadata is already padded to 8 bytes.
+    bytes.bytes(metadata);
+    return bytes.toArray();
+}
+
+/*
+ * Columns, which collect the values of a field into Arrow's buffers.
+ */
+
+abstract class Column {
+    private validity = new Bits();
+    private length = 0;
+    private nullCount = 0;
+
+    constructor(readonly nullable: boolean, readonly type: [ArrowType, FBObject]) {}
+
+    get children(): [string, Column][] {
+        return [];
+    }
+
+    append(value: any) {
+        const valid = value !== null && value !== undefined;
+        this.validity.push(valid);
+        this.length++;
+        if (!valid) {
+            this.nullCount++;
+        }
+        this.appendValue(valid ? value : null);
+    }
+
+    // appends the node and buffers of this column (and of its children) in the order of a RecordBatch.
+    flush(nodes: [number, number][], buffers: Uint8Array[]) {
+        nodes.push([this.length, this.nullCount]);
+        buffers.push(this.validity.toArray(), ...this.buffers());
+        this.children.forEach(([_, child]) => child.flush(nodes, buffers));
+    }
+
+    // appends a value, or a placeholder for a null value.
+    protected abstract appendValue(value: any | null): void
+
+    protected abstract buffers(): Uint8Array[]
+}
+
+class FixedColumn extends Column {
+    private values = new Bytes();
+
+    constructor(nullable: boolean, type: [ArrowType, FBObject], private readonly width: number, private readonly write: (bytes: Bytes, value: any) => void) {
+        super(nullable, type);
+    }
+
+    protected appendValue(value: any | null) {
+        value === null ? this.values.zeros(this.width) : this.write(this.values, value);
+    }
+
+    protected buffers() {
+        return [this.values.toArray()];
+    }
+}
+
+class BoolColumn extends Column {
+    private values = new Bits();
+
+    constructor(nullable: boolean) {
+        super(nullable, [ArrowType.Bool, fb.table()]);
+    }
+
+    protected appendValue(value: boolean | null) {
+        this.values.push(!!value);
+    }
+
+    protected buffers() {
+        return [this.values.toArray()];
+    }
+}
+
+// a column whose values have a variable length (i.e. Utf8 and Binary), or a list of values in a child column.
+abstract class OffsetsColumn extends Column {
+    private offsets = new Bytes();
+    protected end = 0;
+
+    constructor(nullable: boolean, type: [ArrowType, FBObject]) {
+        super(nullable, type);
+        this.offsets.int32(0);
+    }
+
+    protected appendValue(value: any | null) {
+        if (value !== null) {
+            this.end += this.appendItems(value);
+        }
+        this.offsets.int32(this.end);
+    }
+
+    // appends the contents of a value, and returns their length.
+    protected abstract appendItems(value: any): number
+
+    protected buffers() {
+        return [this.offsets.toArray()];
+    }
+}
+
+class BinaryColumn extends OffsetsColumn {
+    private data = new Bytes();
+
+    constructor(nullable: boolean, private readonly utf8: boolean) {
+        super(nullable, [utf8 ? ArrowType.Utf8 : ArrowType.Binary, fb.table()]);
+    }
+
+    protected appendItems(value: string | ArrayBuffer) {
+        const encoded = typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value);
+        this.data.bytes(encoded);
+        return encoded.length;
+    }
+
+    protected buffers() {
+        return [...super.buffers(), this.data.toArray()];
+    }
+}
+
+class ListColumn extends OffsetsColumn {
+    constructor(nullable: boolean, private readonly element: Column) {
+        super(nullable, [ArrowType.List, fb.table()]);
+    }
+
+    get children(): [string, Column][] {
+        return [["item", this.element]];
+    }
+
+    protected appendItems(value: any[]) {
+        value.forEach(item => this.element.append(item));
+        return value.length;
+    }
+}
+
+class MapColumn extends OffsetsColumn {
+    private entries: StructColumn;
+
+    constructor(nullable: boolean, key: Column, value: Column) {
+        super(nullable, [ArrowType.Map, fb.table(fb.bool(false))]); // the keys aren't sorted
+        this.entries = new StructColumn(false, [["key", key], ["value", value]]);
+    }
+
+    get children(): [string, Column][] {
+        return [["entries", this.entries]];
+    }
+
+    protected appendItems(value: Map<any, any>) {
+        value.forEach((value, key) => this.entries.append({key, value}));
+        return value.size;
+    }
+}
+
+class StructColumn extends Column {
+    constructor(nullable: boolean, private readonly fields: [string, Column][]) {
+        super(nullable, [ArrowType.Struct, fb.table()]);
+    }
+
+    get children(): [string, Column][] {
+        return this.fields;
+    }
+
+    protected appendValue(value: Record<string, any> | null) {
+        this.fields.forEach(([name, column]) => column.append(value === null ? null : value[name]));
+    }
+
+    protected buffers() {
+        return [];
+    }
+}
+
+// the number of days since the epoch of a DateValue, which is midnight of its day in the local timezone.
+function epochDay(date: Date): number {
+    const utc = new Date(0);
+    utc.setUTCFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+    return Math.round(utc.getTime() / 86400000);
+}
+
+function intType(bitWidth: number): [ArrowType, FBObject] {
+    return [ArrowType.Int, fb.table(fb.int32(bitWidth), fb.bool(true))];
+}
+
+function columnFor(dataType: DataType, nullable: boolean = false): Column {
+    if (dataType instanceof OptionalType) {
+        return columnFor(dataType.element, true);
+    } else if (dataType instanceof ArrayType) {
+        return new ListColumn(nullable, columnFor(dataType.element));
+    } else if (dataType instanceof MapType) {
+        return new MapColumn(nullable, columnFor(dataType.keyType), columnFor(dataType.valueType));
+    } else if (dataType instanceof StructType) {
+        return new StructColumn(nullable, dataType.fields.map(field => [field.name, columnFor(field.dataType)] as [string, Column]));
+    }
+
+    switch (dataType) {
+        case ByteType: return new FixedColumn(nullable, intType(8), 1, (bytes, value) => bytes.int8(value));
+        case ShortType: return new FixedColumn(nullable, intType(16), 2, (bytes, value) => bytes.int16(value));
+        case IntType: return new FixedColumn(nullable, intType(32), 4, (bytes, value) => bytes.int32(value));
+        case LongType: return new FixedColumn(nullable, intType(64), 8, (bytes, value) => bytes.int64(BigInt(value)));
+        case FloatType: return new FixedColumn(nullable, [ArrowType.FloatingPoint, fb.table(fb.int16(1))], 4, (bytes, value) => bytes.float32(value));
+        case DoubleType: return new FixedColumn(nullable, [ArrowType.FloatingPoint, fb.table(fb.int16(2))], 8, (bytes, value) => bytes.float64(value));
+        case DateType: return new FixedColumn(nullable, [ArrowType.Date, fb.table(fb.int16(0))], 4, (bytes, value) => bytes.int32(epochDay(value))); // in days
+        case TimestampType:
+            // in microseconds, since the epoch in UTC.
+            return new FixedColumn(nullable, [ArrowType.Timestamp, fb.table(fb.int16(2), fb.ref(fb.string("UTC")))], 8,
+                (bytes, value: Date) => bytes.int64(BigInt(value.getTime()) * BigInt(1000)));
+        case BoolType: return new BoolColumn(nullable);
+        case StringType:
+        case TypeType: return new BinaryColumn(nullable, true);
+        case BinaryType: return new BinaryColumn(nullable, false);
+    }
+
+    throw new Error(`Can't write ${dataType.typeName()} to an Arrow file`);
+}
+
+const magic = new TextEncoder().encode("ARROW1");
+
+export class ArrowFileWriter {
+    private parts: Uint8Array[] = [];
+    private position = 0;
+    private blocks: Block[] = [];
+    private readonly schema: FBObject;
+
+    constructor(private readonly fields: StructField[]) {
+        this.schema = schema(this.columns());
+        this.append(magic);
+        this.append(new Uint8Array(2));
+        this.append(encapsulate(fb.finish(message(MessageHeader.Schema, this.schema, 0))));
+    }
+
+    private columns(): [string, Column][] {
+        return this.fields.map(field => [field.name, columnFor(field.dataType)] as [string, Column]);
+    }
+
+    private append(part: Uint8Array) {
+        this.parts.push(part);
+        this.position += part.length;
+    }
+
+    // writes the rows as a record batch.
+    write(rows: Record<string, any>[]) {
+        if (!rows.length) {
+            return;
+        }
+
+        const columns = this.columns();
+        rows.forEach(row => columns.forEach(([name, column]) => column.append(row[name])));
+
+        const nodes: [number, number][] = [];
+        const buffers: Uint8Array[] = [];
+        columns.forEach(([_, column]) => column.flush(nodes, buffers));
+
+        // each buffer is padded to 8 bytes in the body.
+        const padding = (length: number) => (8 - length % 8) % 8;
+        let bodyLength = 0;
+        const bufferPositions = buffers.map(buffer => {
+            const position: [number, number] = [bodyLength, buffer.length];
+            bodyLength += buffer.length + padding(buffer.length);
+            return position;
+        });
+
+        const metadata = encapsulate(fb.finish(message(MessageHeader.RecordBatch, recordBatch(rows.length, nodes, bufferPositions), bodyLength)));
+        this.blocks.push({offset: this.position, metaDataLength: metadata.length, bodyLength});
+        this.append(metadata);
+        buffers.forEach(buffer => {
+            this.append(buffer);
+            this.append(new Uint8Array(padding(buffer.length)));
+        });
+    }
+
+    finish(): Blob {
+        const end = new Bytes();
+        end.int32(-1);
+        end.int32(0); // the end of the stream
+
+        const footerBytes = fb.finish(footer(this.schema, this.blocks));
+        end.bytes(footerBytes);
+        end.int32(footerBytes.length);
+        end.bytes(magic);
+        this.append(end.toArray());
+
+        return new Blob(this.parts, {type: 'application/vnd.apache.arrow.file'});
+    }
+}
@@ -182,7 +182,7 @@ export class DataWriter {
 
     writeFloat64(value: number) {
         this.ensureBufSize(this.buffer.byteLength + 8);
-        this.dataView.setFloat32(this.offset, value);
+        this.dataView.setFloat64(this.offset, value);
         this.offset += 8;
     }
 
@@ -223,9 +223,9 @@ export class DataWriter {
     writeBuffer(value: ArrayLike<number> & { readonly byteLength: number }) {
         const len = value.byteLength;
         this.ensureBufSize(this.buffer.byteLength + len + 4);
-        this.writeUint32(value.byteLength);
-        this.offset += 4;
+        this.writeUint32(len);
         new Uint8Array(this.buffer, this.offset, len).set(value);
+        this.offset += len;
     }
 
     finish() {
@@ -330,8 +330,7 @@ export const nullCodec: Codec<null> = Object.freeze({
 });
 
 export const bufferCodec: Codec<ArrayBuffer> = Object.freeze({
-    // TODO: hope `length` is correct here!
-    encode: (value, writer) => writer.writeBuffer({...value, length: value.byteLength}),
+    encode: (value, writer) => writer.writeBuffer(new Uint8Array(value)),
     decode: (reader) => reader.readBuffer()
 });
 
@@ -0,0 +1,115 @@
+'use strict';
+
+import {DataType, NumericTypes, OptionalType, StructField} from "./data_type";
+import {DataStream} from "./value_repr";
+import {isNested} from "./export";
+
+export interface Quartiles {
+    min: number
+    q1: number
+    median: number
+    mean: number
+    q3: number
+    max: number
+}
+
+export interface ColumnStats {
+    count?: number     // the number of values which aren't null
+    nulls?: number
+    distinct?: number  // approximate, for large data
+    quartiles?: Quartiles
+}
+
+export interface HistogramBin {
+    start: number
+    end: number
+    count: number
+}
+
+export function isNumeric(dataType: DataType): boolean {
+    if (dataType instanceof OptionalType) {
+        return isNumeric(dataType.element);
+    }
+    return NumericTypes.indexOf(dataType) >= 0;
+}
+
+// the aggregates are 64-bit (or may be null, i.e. the quartiles of a column which is all nulls)
+function toNumber(value: any): number | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    const n = Number(value);
+    return isNaN(n) ? undefined : n;
+}
+
+function toQuartiles(value: any): Quartiles | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const [min, q1, median, mean, q3, max] = ['min', 'q1', 'median', 'mean', 'q3', 'max'].map(key => toNumber(value[key]));
+    if (min === undefined || q1 === undefined || median === undefined || mean === undefined || q3 === undefined || max === undefined) {
+        return undefined;
+    }
+    return {min, q1, median, mean, q3, max};
+}
+
+function collect(stream: DataStream): Promise<any[]> {
+    const rows: any[] = [];
+    return stream.to((batch: any[]) => rows.push(...batch)).run().then(() => rows);
+}
+
+/**
+ * Summarizes each column of a stream, by aggregating the whole stream (on the server) into a single row of counts, null
+ * counts, distinct counts and (for numeric columns) quartiles.
+ */
+export function columnStats(stream: DataStream): Promise<Record<string, ColumnStats>> {
+    const fields = stream.dataType.fields;
+    const aggregations = fields.flatMap((field: StructField) => {
+        const aggs: string[] = ['non_null_count', 'null_count'];
+        if (!isNested(field.dataType)) {
+            aggs.push('approx_count_distinct');
+        }
+        if (isNumeric(field.dataType)) {
+            aggs.push('quartiles');
+        }
+        return aggs.map(agg => ({[field.name]: agg}));
+    });
+
+    return collect(stream.aggregate([], aggregations)).then(rows => {
+        const row = rows[0] || {};
+        const stats: Record<string, ColumnStats> = {};
+        fields.forEach((field: StructField) => {
+            stats[field.name] = {
+                count: toNumber(row[`non_null_count(${field.name})`]),
+                nulls: toNumber(row[`null_count(${field.name})`]),
+                distinct: toNumber(row[`approx_count_distinct(${field.name})`]),
+                quartiles: toQuartiles(row[`quartiles(${field.name})`])
+            };
+        });
+        return stats;
+    });
+}
+
+/**
+ * A histogram of a numeric column, using its (approximate) quantiles as the bins. Each bin ends where the next one
+ * starts, and the last one ends at `max` (if it's given).
+ */
+export function histogram(stream: DataStream, column: string, binCount: number, max?: number): Promise<HistogramBin[]> {
+    const binned = `${column}_quantized`;
+    return collect(stream.bin(column, binCount).aggregate([binned], {[column]: 'count'})).then(rows => {
+        const starts: {start: number, count: number}[] = [];
+        rows.forEach(row => {
+            const start = toNumber(row[binned]);
+            if (start !== undefined) {
+                starts.push({start, count: toNumber(row[`count(${column})`]) ?? 0});
+            }
+        });
+        starts.sort((a, b) => a.start - b.start);
+
+        return starts.map(({start, count}, i) => ({
+            start,
+            end: i + 1 < starts.length ? starts[i + 1].start : Math.max(start, max ?? start),
+            count
+        }));
+    });
+}
@@ -89,6 +89,51 @@ export abstract class ContentEdit extends CodecContainer {
         return result;
     }
 
+    /**
+     * Merge consecutive edits which touch adjacent text (i.e. from typing or backspacing) into single edits. The edits
+     * are applied in order, so the result is equivalent to applying all of the given edits.
+     */
+    static coalesce(edits: ContentEdit[]): ContentEdit[] {
+        const result: ContentEdit[] = [];
+        edits.forEach(edit => {
+            const prev = result[result.length - 1];
+            const merged = prev && ContentEdit.merge(prev, edit);
+            if (merged) {
+                result.pop();
+                if (!merged.isEmpty()) {
+                    result.push(merged);
+                }
+            } else if (!edit.isEmpty()) {
+                result.push(edit);
+            }
+        });
+        return result;
+    }
+
+    // combine edit b, which is applied after edit a, with a – if it's possible to do so with a single edit.
+    private static merge(a: ContentEdit, b: ContentEdit): ContentEdit | undefined {
+        if (a instanceof Insert) {
+            if (b instanceof Insert) {
+                const offset = b.pos - a.pos;
+                if (offset >= 0 && offset <= a.content.length) {
+                    return new Insert(a.pos, a.content.substring(0, offset) + b.content + a.content.substring(offset));
+                }
+            } else if (b instanceof Delete) {
+                const offset = b.pos - a.pos;
+                if (offset >= 0 && offset + b.length <= a.content.length) {
+                    return new Insert(a.pos, a.content.substring(0, offset) + a.content.substring(offset + b.length));
+                }
+            }
+        } else if (a instanceof Delete && b instanceof Delete) {
+            if (b.pos === a.pos) {
+                return new Delete(a.pos, a.length + b.length);       // forward delete
+            } else if (b.pos + b.length === a.pos) {
+                return new Delete(b.pos, a.length + b.length);       // backspace
+            }
+        }
+        return undefined;
+    }
+
     isEmpty() {
         return false;
     }
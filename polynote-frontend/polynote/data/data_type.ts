@@ -156,8 +156,23 @@ export class ArrayType extends DataType {
     }
 }
 
-export const DateType = SingletonDataType(12, buffer => {throw "TODO"}, 'date');
-export const TimestampType = SingletonDataType(13, buffer => {throw "TODO"}, 'timestamp');
+/**
+ * The value of a DateType. A date has no time or timezone, so it's represented as midnight of that day in the local
+ * timezone – that way it's the same day wherever it's displayed (or plotted).
+ */
+export class DateValue extends Date {
+    static fromEpochDay(epochDay: number): DateValue {
+        const utc = new Date(epochDay * 86400000);
+        const date = new DateValue(0);
+        date.setFullYear(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate()); // unlike the constructor, this doesn't treat years < 100 as 19xx
+        date.setHours(0, 0, 0, 0);
+        return date;
+    }
+}
+
+// dates are encoded as days since the epoch, and timestamps as microseconds since the epoch.
+export const DateType = SingletonDataType(12, reader => DateValue.fromEpochDay(reader.readInt32()), 'date');
+export const TimestampType = SingletonDataType(13, reader => new Date(Number(reader.readInt64() / BigInt(1000))), 'timestamp');
 export const TypeType = SingletonDataType(14, buffer => buffer.readString(), 'type');
 
 export class MapType extends DataType {
@@ -0,0 +1,195 @@
+'use strict';
+
+import {ArrayType, BinaryType, DataType, DateType, MapType, OptionalType, StringType, StructField, StructType, TimestampType} from "./data_type";
+import {DataStream} from "./value_repr";
+import {ArrowFileWriter} from "./arrow";
+
+export type ExportFormat = 'csv' | 'tsv' | 'ndjson' | 'arrow';
+
+export const exportFormats: Record<ExportFormat, {name: string, extension: string}> = {
+    csv: {name: 'CSV', extension: 'csv'},
+    tsv: {name: 'TSV', extension: 'tsv'},
+    ndjson: {name: 'JSON Lines', extension: 'ndjson'},
+    arrow: {name: 'Arrow', extension: 'arrow'}
+};
+
+interface RowWriter {
+    write(rows: Record<string, any>[]): void
+    finish(): Blob
+}
+
+export function isNested(dataType: DataType): boolean {
+    if (dataType instanceof OptionalType) {
+        return isNested(dataType.element);
+    }
+    return dataType instanceof ArrayType || dataType instanceof MapType || dataType instanceof StructType;
+}
+
+function pad(n: number, length: number) {
+    return n.toString().padStart(length, '0');
+}
+
+function base64(buf: ArrayBuffer): string {
+    const bytes = new Uint8Array(buf);
+    let str = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        str += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(str);
+}
+
+// the text of a value which isn't null or nested.
+function scalarText(dataType: DataType, value: any): string {
+    if (dataType instanceof OptionalType) {
+        return scalarText(dataType.element, value);
+    } else if (dataType === DateType) {
+        // a DateValue is midnight of its day in the local timezone, so it's formatted from the local date.
+        return `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1, 2)}-${pad(value.getDate(), 2)}`;
+    } else if (dataType === TimestampType) {
+        return (value as Date).toISOString();
+    } else if (dataType === BinaryType) {
+        return base64(value);
+    }
+    return value.toString();
+}
+
+/**
+ * The JSON of a value, according to its type. Unlike JSON.stringify, 64-bit integers are written exactly, dates are
+ * written as ISO 8601 dates (or timestamps), and maps with non-string keys are written as a list of key/value objects.
+ */
+export function jsonText(dataType: DataType, value: any): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    } else if (dataType instanceof OptionalType) {
+        return jsonText(dataType.element, value);
+    } else if (dataType instanceof ArrayType) {
+        return `[${(value as any[]).map(item => jsonText(dataType.element, item)).join(',')}]`;
+    } else if (dataType instanceof MapType) {
+        const entries = [...(value as Map<any, any>)];
+        if (dataType.keyType === StringType) {
+            return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${jsonText(dataType.valueType, v)}`).join(',')}}`;
+        }
+        return `[${entries.map(([k, v]) => `{"key":${jsonText(dataType.keyType, k)},"value":${jsonText(dataType.valueType, v)}}`).join(',')}]`;
+    } else if (dataType instanceof StructType) {
+        return `{${dataType.fields.map(field => `${JSON.stringify(field.name)}:${jsonText(field.dataType, value[field.name])}`).join(',')}}`;
+    }
+
+    switch (typeof value) {
+        case "bigint": return value.toString();
+        case "number": return isFinite(value) ? value.toString() : 'null'; // JSON has no NaN or Infinity
+        case "boolean": return value.toString();
+        default: return JSON.stringify(scalarText(dataType, value));
+    }
+}
+
+// Writes CSV (as in RFC 4180) or TSV, with a header of the field names. Nested values are written as JSON.
+class DelimitedWriter implements RowWriter {
+    private parts: string[] = [];
+
+    constructor(private readonly fields: StructField[], private readonly tabs: boolean) {
+        this.parts.push(this.line(fields.map(field => field.name)));
+    }
+
+    private escape(text: string): string {
+        if (this.tabs) {
+            return text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+        } else if (/[",\r\n]/.test(text)) {
+            return `"${text.replace(/"/g, '""')}"`;
+        }
+        return text;
+    }
+
+    private line(cells: string[]): string {
+        return cells.map(cell => this.escape(cell)).join(this.tabs ? '\t' : ',') + (this.tabs ? '\n' : '\r\n');
+    }
+
+    write(rows: Record<string, any>[]) {
+        this.parts.push(rows.map(row => this.line(this.fields.map(field => {
+            const value = row[field.name];
+            if (value === null || value === undefined) {
+                return '';
+            }
+            return isNested(field.dataType) ? jsonText(field.dataType, value) : scalarText(field.dataType, value);
+        }))).join(''));
+    }
+
+    finish(): Blob {
+        return new Blob(this.parts, {type: this.tabs ? 'text/tab-separated-values' : 'text/csv'});
+    }
+}
+
+// Writes one JSON object per row.
+class JsonLinesWriter implements RowWriter {
+    private parts: string[] = [];
+    private readonly dataType: StructType;
+
+    constructor(fields: StructField[]) {
+        this.dataType = new StructType(fields);
+    }
+
+    write(rows: Record<string, any>[]) {
+        this.parts.push(rows.map(row => jsonText(this.dataType, row) + '\n').join(''));
+    }
+
+    finish(): Blob {
+        return new Blob(this.parts, {type: 'application/x-ndjson'});
+    }
+}
+
+function writerFor(format: ExportFormat, fields: StructField[]): RowWriter {
+    switch (format) {
+        case 'csv': return new DelimitedWriter(fields, false);
+        case 'tsv': return new DelimitedWriter(fields, true);
+        case 'ndjson': return new JsonLinesWriter(fields);
+        case 'arrow': return new ArrowFileWriter(fields);
+    }
+}
+
+/**
+ * Exports all of the rows of a DataStream (with any modifications it has) to a file of the given format, by running the
+ * stream to completion.
+ */
+export class DataExport {
+    private _cancelled = false;
+    private _rowCount = 0;
+
+    constructor(private readonly stream: DataStream, readonly format: ExportFormat) {}
+
+    get rowCount(): number {
+        return this._rowCount;
+    }
+
+    get cancelled(): boolean {
+        return this._cancelled;
+    }
+
+    /**
+     * Runs the export, calling onProgress after each batch of rows with the number of rows written so far, and the
+     * number of rows in the stream if that's known.
+     */
+    run(onProgress: (rowCount: number, knownSize?: number) => void = () => {}): Promise<Blob> {
+        const stream = this.stream;
+
+        // if the data isn't a StructType, each item is written in a single field.
+        const isStruct = stream.dataType instanceof StructType;
+        const fields = isStruct ? stream.dataType.fields : [new StructField("value", stream.dataType)];
+
+        return Promise.resolve().then(() => writerFor(this.format, fields)).then(writer =>
+            stream.batch(500).to((batch: any[]) => {
+                writer.write(isStruct ? batch : batch.map(value => ({value})));
+                this._rowCount += batch.length;
+                onProgress(this._rowCount, stream.knownSize);
+            }).run().then(() => {
+                if (this._cancelled) {
+                    throw new Error("The export was cancelled");
+                }
+                return writer.finish();
+            })
+        );
+    }
+
+    cancel() {
+        this._cancelled = true;
+        this.stream.kill();
+    }
+}
@@ -0,0 +1,54 @@
+'use strict';
+
+/**
+ * 64-bit integers (e.g. LongType values) are decoded as bigints, because a number can't represent all of them exactly.
+ *
+ * The exact bigint is kept wherever a value is displayed or copied. Where a number is needed instead (i.e. for plotting
+ * or aggregating), values are converted with a NumberConverter, which keeps track of how many of them weren't exact.
+ */
+
+const minSafe = BigInt(Number.MIN_SAFE_INTEGER);
+const maxSafe = BigInt(Number.MAX_SAFE_INTEGER);
+
+export function isSafeInt64(value: bigint): boolean {
+    return value >= minSafe && value <= maxSafe;
+}
+
+/**
+ * A replacer for JSON.stringify which writes bigints as strings (JSON.stringify throws on them otherwise).
+ */
+export function int64Replacer(key: string, value: any): any {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Converts the bigints in decoded values to numbers, counting the ones which couldn't be converted exactly.
+ */
+export class NumberConverter {
+    private _inexact = 0;
+
+    // the number of values which were converted to a number that isn't exactly equal to them.
+    get inexact(): number {
+        return this._inexact;
+    }
+
+    convert(value: any): any {
+        if (typeof value === 'bigint') {
+            if (!isSafeInt64(value)) {
+                this._inexact++;
+            }
+            return Number(value);
+        } else if (value instanceof Array) {
+            return value.map(v => this.convert(v));
+        } else if (value instanceof Map) {
+            return new Map([...value].map(([k, v]) => [k, this.convert(v)]));
+        } else if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+            const result: Record<string, any> = {};
+            for (const key of Object.keys(value)) {
+                result[key] = this.convert(value[key]);
+            }
+            return result;
+        }
+        return value;
+    }
+}
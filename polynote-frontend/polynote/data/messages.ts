@@ -1,13 +1,12 @@
 'use strict';
 
 import {
-    arrayCodec, bool, bufferCodec, Codec, CodecContainer, combined, discriminated, either, float64, int16, int32, int64,
-    mapCodec, optional, Pair, shortStr, str, tinyStr, uint16, uint32, uint8
+    arrayCodec, bool, bufferCodec, Codec, CodecContainer, combined, DataReader, DataWriter, discriminated, either, float64,
+    int16, int32, int64, mapCodec, optional, Pair, shortStr, str, tinyStr, uint16, uint32, uint8
 } from './codec'
 
 import {ServerErrorWithCause, Output, PosRange, Result} from './result'
 import {StreamingDataRepr} from "./value_repr";
-import {isEqual} from "../util/functions";
 import {CellComment, CellMetadata, NotebookCell, NotebookConfig, SparkPropertySet} from "./data";
 import {ContentEdit} from "./content_edit";
 import {Left, Right} from "./types";
@@ -17,6 +16,10 @@ export abstract class Message extends CodecContainer {
     static codecs: typeof Message[];
     static msgTypeId: number;
 
+    // the name of the message on the server, which is part of the protocolFingerprint. It has to be given explicitly
+    // (rather than using the class's name), because class names don't survive minification.
+    static msgTypeName: string;
+
     static decode(data: ArrayBuffer | DataView) {
         return Codec.decode(Message.codec, data);
     }
@@ -32,9 +35,22 @@ export abstract class Message extends CodecContainer {
     }
 }
 
+/**
+ * A message which is sent as a request, and which the server echoes back (with the result filled in) as its response.
+ * The reqId is assigned by the client (see SocketSession.request) and is used to correlate the response with the request.
+ */
+export abstract class RequestMessage extends Message {
+    readonly reqId: number;
+
+    isResponse(other: Message): boolean {
+        return other instanceof RequestMessage && other.constructor === this.constructor && other.reqId === this.reqId;
+    }
+}
+
 export class Error extends Message {
     static codec = combined(uint16, ServerErrorWithCause.codec).to(Error);
     static get msgTypeId() { return 0; }
+    static get msgTypeName() { return "Error"; }
 
     static unapply(inst: Error): ConstructorParameters<typeof Error> {
         return [inst.code, inst.error];
@@ -50,6 +66,7 @@ export class Error extends Message {
 export class LoadNotebook extends Message {
     static codec = combined(shortStr).to(LoadNotebook);
     static get msgTypeId() { return 1; }
+    static get msgTypeName() { return "LoadNotebook"; }
 
     static unapply(inst: LoadNotebook): ConstructorParameters<typeof LoadNotebook> {
         return [inst.path];
@@ -66,6 +83,7 @@ export class NotebookCells extends Message {
     static codec =
         combined(shortStr, arrayCodec(uint16, NotebookCell.codec), optional(NotebookConfig.codec)).to(NotebookCells);
     static get msgTypeId() { return 2; }
+    static get msgTypeName() { return "Notebook"; }
 
     static unapply(inst: NotebookCells): ConstructorParameters<typeof NotebookCells> {
         return [inst.path, inst.cells, inst.config];
@@ -81,6 +99,7 @@ export class NotebookCells extends Message {
 export class RunCell extends Message {
     static codec = combined(arrayCodec(uint16, uint16)).to(RunCell);
     static get msgTypeId() { return 3; }
+    static get msgTypeName() { return "RunCell"; }
 
     static unapply(inst: RunCell): ConstructorParameters<typeof RunCell> {
         return [inst.ids];
@@ -95,6 +114,7 @@ export class RunCell extends Message {
 export class CellResult extends Message {
     static codec = combined(int16, Result.codec).to(CellResult);
     static get msgTypeId() { return 4; }
+    static get msgTypeName() { return "CellResult"; }
 
     static unapply(inst: CellResult): ConstructorParameters<typeof CellResult> {
         return [inst.id, inst.result]
@@ -136,12 +156,33 @@ export class NotebookUpdate extends Message {
         }
     }
 
+    /**
+     * Whether a and b are the same update, apart from their global versions (which are assigned by the server). This
+     * compares the encoded updates, which begin with the message type and the global version.
+     */
+    static sameUpdate(a: NotebookUpdate, b: NotebookUpdate): boolean {
+        if (a.constructor !== b.constructor || a.localVersion !== b.localVersion) {
+            return false;
+        }
+
+        const aBytes = new Uint8Array(Message.encode(a), 5);
+        const bBytes = new Uint8Array(Message.encode(b), 5);
+        return aBytes.length === bBytes.length && aBytes.every((byte, index) => byte === bBytes[index]);
+    }
 }
 
+// a NotebookUpdate is encoded the same way as the message it is.
+NotebookUpdate.codec = discriminated(
+    uint8,
+    (msgTypeId) => Message.codecs[msgTypeId].codec,
+    (msg) => (msg.constructor as typeof Message).msgTypeId
+);
+
 export class UpdateCell extends NotebookUpdate {
     static codec =
         combined(uint32, uint32, int16, arrayCodec(uint16, ContentEdit.codec), optional(CellMetadata.codec)).to(UpdateCell);
     static get msgTypeId() { return 5; }
+    static get msgTypeName() { return "UpdateCell"; }
 
     static unapply(inst: UpdateCell): ConstructorParameters<typeof UpdateCell> {
         return [inst.globalVersion, inst.localVersion, inst.id, inst.edits, inst.metadata];
@@ -157,6 +198,7 @@ export class UpdateCell extends NotebookUpdate {
 export class InsertCell extends NotebookUpdate {
     static codec = combined(uint32, uint32, NotebookCell.codec, int16).to(InsertCell);
     static get msgTypeId() { return 6; }
+    static get msgTypeName() { return "InsertCell"; }
 
     static unapply(inst: InsertCell): ConstructorParameters<typeof InsertCell> {
         return [inst.globalVersion, inst.localVersion, inst.cell, inst.after];
@@ -172,6 +214,7 @@ export class InsertCell extends NotebookUpdate {
 export class CreateComment extends NotebookUpdate {
     static codec = combined(uint32, uint32, int16, CellComment.codec).to(CreateComment);
     static get msgTypeId() { return 29; }
+    static get msgTypeName() { return "CreateComment"; }
 
     static unapply(inst: CreateComment): ConstructorParameters<typeof CreateComment> {
         return [inst.globalVersion, inst.localVersion, inst.cellId, inst.comment];
@@ -187,6 +230,7 @@ export class CreateComment extends NotebookUpdate {
 export class UpdateComment extends NotebookUpdate {
     static codec = combined(uint32, uint32, int16, tinyStr, PosRange.codec, shortStr).to(UpdateComment);
     static get msgTypeId() { return 30; }
+    static get msgTypeName() { return "UpdateComment"; }
 
     static unapply(inst: UpdateComment): ConstructorParameters<typeof UpdateComment> {
         return [inst.globalVersion, inst.localVersion, inst.cellId, inst.commentId, inst.range, inst.content];
@@ -202,6 +246,7 @@ export class UpdateComment extends NotebookUpdate {
 export class DeleteComment extends NotebookUpdate {
     static codec = combined(uint32, uint32, int16, tinyStr).to(DeleteComment);
     static get msgTypeId() { return 31; }
+    static get msgTypeName() { return "DeleteComment"; }
 
     static unapply(inst: DeleteComment): ConstructorParameters<typeof DeleteComment> {
         return [inst.globalVersion, inst.localVersion, inst.cellId, inst.commentId];
@@ -238,16 +283,17 @@ export class CompletionCandidate {
 }
 
 
-export class CompletionsAt extends Message {
-    static codec = combined(int16, int32, arrayCodec(uint16, CompletionCandidate.codec)).to(CompletionsAt);
+export class CompletionsAt extends RequestMessage {
+    static codec = combined(int32, int16, int32, arrayCodec(uint16, CompletionCandidate.codec)).to(CompletionsAt);
 
     static get msgTypeId() { return 7; }
+    static get msgTypeName() { return "CompletionsAt"; }
 
     static unapply(inst: CompletionsAt): ConstructorParameters<typeof CompletionsAt> {
-        return [inst.id, inst.pos, inst.completions];
+        return [inst.reqId, inst.id, inst.pos, inst.completions];
     }
 
-    constructor(readonly id: number, readonly pos: number, readonly completions: CompletionCandidate[]) {
+    constructor(readonly reqId: number, readonly id: number, readonly pos: number, readonly completions: CompletionCandidate[]) {
         super();
         Object.freeze(this);
     }
@@ -286,15 +332,16 @@ export class Signatures {
     }
 }
 
-export class ParametersAt extends Message {
-    static codec = combined(int16, int32, optional(Signatures.codec)).to(ParametersAt);
+export class ParametersAt extends RequestMessage {
+    static codec = combined(int32, int16, int32, optional(Signatures.codec)).to(ParametersAt);
     static get msgTypeId() { return 8; }
+    static get msgTypeName() { return "ParametersAt"; }
 
     static unapply(inst: ParametersAt): ConstructorParameters<typeof ParametersAt> {
-        return [inst.id, inst.pos, inst.signatures];
+        return [inst.reqId, inst.id, inst.pos, inst.signatures];
     }
 
-    constructor(readonly id: number, readonly pos: number, readonly signatures?: Signatures) {
+    constructor(readonly reqId: number, readonly id: number, readonly pos: number, readonly signatures?: Signatures) {
         super();
         Object.freeze(this);
     }
@@ -464,6 +511,7 @@ KernelStatusUpdate.codec = discriminated(
 export class KernelStatus extends Message {
     static codec = combined(KernelStatusUpdate.codec).to(KernelStatus);
     static get msgTypeId() { return 9; }
+    static get msgTypeName() { return "KernelStatus"; }
     static unapply(inst: KernelStatus): ConstructorParameters<typeof KernelStatus> {
         return [inst.update];
     }
@@ -477,6 +525,7 @@ export class KernelStatus extends Message {
 export class UpdateConfig extends NotebookUpdate {
     static codec = combined(uint32, uint32, NotebookConfig.codec).to(UpdateConfig);
     static get msgTypeId() { return 10; }
+    static get msgTypeName() { return "UpdateConfig"; }
     static unapply(inst: UpdateConfig): ConstructorParameters<typeof UpdateConfig> {
         return [inst.globalVersion, inst.localVersion, inst.config];
     }
@@ -490,6 +539,7 @@ export class UpdateConfig extends NotebookUpdate {
 export class SetCellLanguage extends NotebookUpdate {
     static codec = combined(uint32, uint32, int16, tinyStr).to(SetCellLanguage);
     static get msgTypeId() { return 11; }
+    static get msgTypeName() { return "SetCellLanguage"; }
     static unapply(inst: SetCellLanguage): ConstructorParameters<typeof SetCellLanguage> {
         return [inst.globalVersion, inst.localVersion, inst.id, inst.language];
     }
@@ -504,6 +554,7 @@ export class SetCellLanguage extends NotebookUpdate {
 export class StartKernel extends Message {
     static codec = combined(uint8).to(StartKernel);
     static get msgTypeId() { return 12; }
+    static get msgTypeName() { return "StartKernel"; }
     static unapply(inst: StartKernel): ConstructorParameters<typeof StartKernel> {
         return [inst.level];
     }
@@ -522,6 +573,7 @@ export class StartKernel extends Message {
 export class ListNotebooks extends Message {
     static codec = combined(arrayCodec(int32, shortStr)).to(ListNotebooks);
     static get msgTypeId() { return 13; }
+    static get msgTypeName() { return "ListNotebooks"; }
     static unapply(inst: ListNotebooks): ConstructorParameters<typeof ListNotebooks> {
         return [inst.notebooks];
     }
@@ -535,6 +587,7 @@ export class ListNotebooks extends Message {
 export class CreateNotebook extends Message {
     static codec = combined(shortStr, optional(str)).to(CreateNotebook);
     static get msgTypeId() { return 14; }
+    static get msgTypeName() { return "CreateNotebook"; }
     static unapply(inst: CreateNotebook): ConstructorParameters<typeof CreateNotebook> {
         return [inst.path, inst.content];
     }
@@ -548,6 +601,7 @@ export class CreateNotebook extends Message {
 export class RenameNotebook extends Message {
     static codec = combined(shortStr, shortStr).to(RenameNotebook);
     static get msgTypeId() { return 25; }
+    static get msgTypeName() { return "RenameNotebook"; }
     static unapply(inst: RenameNotebook): ConstructorParameters<typeof RenameNotebook> {
         return [inst.path, inst.newPath];
     }
@@ -564,6 +618,7 @@ export class RenameNotebook extends Message {
 export class CopyNotebook extends Message {
     static codec = combined(shortStr, shortStr).to(CopyNotebook);
     static get msgTypeId() { return 27; }
+    static get msgTypeName() { return "CopyNotebook"; }
     static unapply(inst: CopyNotebook): ConstructorParameters<typeof RenameNotebook> {
         return [inst.path, inst.newPath];
     }
@@ -580,6 +635,7 @@ export class CopyNotebook extends Message {
 export class DeleteNotebook extends Message {
     static codec = combined(shortStr).to(DeleteNotebook);
     static get msgTypeId() { return 26; }
+    static get msgTypeName() { return "DeleteNotebook"; }
     static unapply(inst: DeleteNotebook): ConstructorParameters<typeof DeleteNotebook> {
         return [inst.path];
     }
@@ -592,6 +648,7 @@ export class DeleteNotebook extends Message {
 export class DeleteCell extends NotebookUpdate {
     static codec = combined(uint32, uint32, int16).to(DeleteCell);
     static get msgTypeId() { return 15; }
+    static get msgTypeName() { return "DeleteCell"; }
     static unapply(inst: DeleteCell): ConstructorParameters<typeof DeleteCell> {
         return [inst.globalVersion, inst.localVersion, inst.id];
     }
@@ -613,28 +670,31 @@ export class Identity {
     }
 }
 
+// protocolFingerprint must remain the first field, so that it can be read even if the rest can't be.
 export class ServerHandshake extends Message {
-    static codec = combined(mapCodec(uint8, tinyStr, tinyStr), tinyStr, tinyStr, optional(Identity.codec), arrayCodec(int32, SparkPropertySet.codec)).to(ServerHandshake);
+    static codec = combined(tinyStr, mapCodec(uint8, tinyStr, tinyStr), tinyStr, tinyStr, optional(Identity.codec), arrayCodec(int32, SparkPropertySet.codec)).to(ServerHandshake);
     static get msgTypeId() { return 16; }
+    static get msgTypeName() { return "ServerHandshake"; }
     static unapply(inst: ServerHandshake): ConstructorParameters<typeof ServerHandshake> {
-        return [inst.interpreters, inst.serverVersion, inst.serverCommit, inst.identity, inst.sparkTemplates];
+        return [inst.protocolFingerprint, inst.interpreters, inst.serverVersion, inst.serverCommit, inst.identity, inst.sparkTemplates];
     }
 
-    constructor(readonly interpreters: Record<string, string>, readonly serverVersion: string, readonly serverCommit: string, readonly identity: Identity | null, readonly sparkTemplates: SparkPropertySet[]) {
+    constructor(readonly protocolFingerprint: string, readonly interpreters: Record<string, string>, readonly serverVersion: string, readonly serverCommit: string, readonly identity: Identity | null, readonly sparkTemplates: SparkPropertySet[]) {
         super();
         Object.freeze(this);
     }
 }
 
 
-export class HandleData extends Message {
-    static codec = combined(uint8, int32, int32, either(Error.codec, arrayCodec(int32, bufferCodec))).to(HandleData);
+export class HandleData extends RequestMessage {
+    static codec = combined(int32, uint8, int32, int32, either(Error.codec, arrayCodec(int32, bufferCodec))).to(HandleData);
     static get msgTypeId() { return 17; }
+    static get msgTypeName() { return "HandleData"; }
     static unapply(inst: HandleData): ConstructorParameters<typeof HandleData>{
-        return [inst.handleType, inst.handle, inst.count, inst.data];
+        return [inst.reqId, inst.handleType, inst.handle, inst.count, inst.data];
     }
 
-    constructor(readonly handleType: number, readonly handle: number, readonly count: number,
+    constructor(readonly reqId: number, readonly handleType: number, readonly handle: number, readonly count: number,
                 readonly data: Left<Error> | Right<ArrayBuffer[]>) {
         super();
         Object.freeze(this);
@@ -645,6 +705,7 @@ export class HandleData extends Message {
 export class CancelTasks extends Message {
     static codec = combined(shortStr).to(CancelTasks);
     static get msgTypeId() { return 18; }
+    static get msgTypeName() { return "CancelTasks"; }
     static unapply(inst: CancelTasks): ConstructorParameters<typeof CancelTasks> { return [inst.path]; }
 
     constructor(readonly path: string) {
@@ -659,6 +720,7 @@ export class TableOp extends Message {
 export class GroupAgg extends TableOp {
     static codec = combined(arrayCodec(int32, str), arrayCodec(int32, Pair.codec(str, str))).to(GroupAgg);
     static get msgTypeId() { return 0; }
+    static get msgTypeName() { return "GroupAgg"; }
     static unapply(inst: GroupAgg): ConstructorParameters<typeof GroupAgg> { return [inst.columns, inst.aggregations]; }
 
     constructor(readonly columns: string[], readonly aggregations: Pair<string, string>[]) {
@@ -672,6 +734,7 @@ export class GroupAgg extends TableOp {
 export class QuantileBin extends TableOp {
     static codec = combined(str, int32, float64).to(QuantileBin);
     static get msgTypeId() { return 1; }
+    static get msgTypeName() { return "QuantileBin"; }
     static unapply(inst: QuantileBin): ConstructorParameters<typeof QuantileBin> { return [inst.column, inst.binCount, inst.err]; }
     constructor(readonly column: string, readonly binCount: number, readonly err: number) {
         super();
@@ -682,6 +745,7 @@ export class QuantileBin extends TableOp {
 export class Select extends TableOp {
     static codec = combined(arrayCodec(int32, str)).to(Select);
     static get msgTypeId() { return 2; }
+    static get msgTypeName() { return "Select"; }
     static unapply(inst: Select): ConstructorParameters<typeof Select> { return [inst.columns]; }
     constructor(readonly columns: string[]) {
         super();
@@ -689,36 +753,135 @@ export class Select extends TableOp {
     }
 }
 
+/**
+ * A predicate over the fields of a struct, for filtering a table (see Filter). The value of a Compare is given as a
+ * string, and the server interprets it according to the type of the column it's compared with.
+ */
+export abstract class Predicate extends CodecContainer {
+    static codec: Codec<Predicate>;
+    static codecs: typeof Predicate[];
+    static delegatedCodec = {
+        // And, Or and Not contain predicates, so this defers evaluating Predicate.codec (like DataType.delegatedCodec)
+        encode: (value: Predicate, writer: DataWriter) => Predicate.codec.encode(value, writer),
+        decode: (reader: DataReader): Predicate => Predicate.codec.decode(reader)
+    };
+    static msgTypeId: number;
+}
+
+export type CompareOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "contains";
+
+export class Compare extends Predicate {
+    static codec = combined(str, str, str).to(Compare);
+    static get msgTypeId() { return 0; }
+    static unapply(inst: Compare): ConstructorParameters<typeof Compare> { return [inst.column, inst.op, inst.value]; }
+    static ops: CompareOp[] = ["==", "!=", "<", "<=", ">", ">=", "contains"];
+    constructor(readonly column: string, readonly op: CompareOp, readonly value: string) {
+        super();
+        Object.freeze(this);
+    }
+}
+
+export class And extends Predicate {
+    static codec = combined(arrayCodec(int32, Predicate.delegatedCodec)).to(And);
+    static get msgTypeId() { return 1; }
+    static unapply(inst: And): ConstructorParameters<typeof And> { return [inst.predicates]; }
+    constructor(readonly predicates: Predicate[]) {
+        super();
+        Object.freeze(this);
+    }
+}
+
+export class Or extends Predicate {
+    static codec = combined(arrayCodec(int32, Predicate.delegatedCodec)).to(Or);
+    static get msgTypeId() { return 2; }
+    static unapply(inst: Or): ConstructorParameters<typeof Or> { return [inst.predicates]; }
+    constructor(readonly predicates: Predicate[]) {
+        super();
+        Object.freeze(this);
+    }
+}
+
+export class Not extends Predicate {
+    static codec = combined(Predicate.delegatedCodec).to(Not);
+    static get msgTypeId() { return 3; }
+    static unapply(inst: Not): ConstructorParameters<typeof Not> { return [inst.predicate]; }
+    constructor(readonly predicate: Predicate) {
+        super();
+        Object.freeze(this);
+    }
+}
+
+Predicate.codecs = [
+    Compare, // 0
+    And,     // 1
+    Or,      // 2
+    Not,     // 3
+];
+
+Predicate.codec = discriminated(uint8, msgTypeId => Predicate.codecs[msgTypeId].codec, p => (p.constructor as typeof Predicate).msgTypeId);
+
+export class Filter extends TableOp {
+    static codec = combined(Predicate.codec).to(Filter);
+    static get msgTypeId() { return 3; }
+    static get msgTypeName() { return "Filter"; }
+    static unapply(inst: Filter): ConstructorParameters<typeof Filter> { return [inst.predicate]; }
+    constructor(readonly predicate: Predicate) {
+        super();
+        Object.freeze(this);
+    }
+}
+
+// each column is paired with whether it's sorted in descending order
+export class Sort extends TableOp {
+    static codec = combined(arrayCodec(int32, Pair.codec(str, bool))).to(Sort);
+    static get msgTypeId() { return 4; }
+    static get msgTypeName() { return "Sort"; }
+    static unapply(inst: Sort): ConstructorParameters<typeof Sort> { return [inst.columns]; }
+    constructor(readonly columns: Pair<string, boolean>[]) {
+        super();
+        Object.freeze(this);
+    }
+}
+
+export class Limit extends TableOp {
+    static codec = combined(int32).to(Limit);
+    static get msgTypeId() { return 5; }
+    static get msgTypeName() { return "Limit"; }
+    static unapply(inst: Limit): ConstructorParameters<typeof Limit> { return [inst.count]; }
+    constructor(readonly count: number) {
+        super();
+        Object.freeze(this);
+    }
+}
+
 TableOp.codecs = [
     GroupAgg,
     QuantileBin,
-    Select
+    Select,
+    Filter,
+    Sort,
+    Limit
 ];
 
 TableOp.codec = discriminated(uint8, msgTypeId => TableOp.codecs[msgTypeId].codec, msg => (msg.constructor as typeof Message).msgTypeId);
 
-export class ModifyStream extends Message {
-    static codec = combined(int32, arrayCodec(uint8, TableOp.codec), optional(StreamingDataRepr.codec)).to(ModifyStream);
+export class ModifyStream extends RequestMessage {
+    static codec = combined(int32, int32, arrayCodec(uint8, TableOp.codec), optional(StreamingDataRepr.codec)).to(ModifyStream);
     static get msgTypeId() { return 19; }
+    static get msgTypeName() { return "ModifyStream"; }
     static unapply(inst: ModifyStream): ConstructorParameters<typeof ModifyStream> {
-        return [inst.fromHandle, inst.ops, inst.newRepr];
+        return [inst.reqId, inst.fromHandle, inst.ops, inst.newRepr];
     }
-    constructor(readonly fromHandle: number, readonly ops: TableOp[], readonly newRepr?: StreamingDataRepr) {
+    constructor(readonly reqId: number, readonly fromHandle: number, readonly ops: TableOp[], readonly newRepr?: StreamingDataRepr) {
         super();
         Object.freeze(this);
     }
-
-    isResponse(other: Message): boolean {
-        if (!(other instanceof ModifyStream) || other.fromHandle !== this.fromHandle)
-            return false;
-
-        return isEqual(this.ops, other.ops);
-    }
 }
 
 export class ReleaseHandle extends Message {
     static codec = combined(uint8, int32).to(ReleaseHandle);
     static get msgTypeId() { return 20; }
+    static get msgTypeName() { return "ReleaseHandle"; }
     static unapply(inst: ReleaseHandle): ConstructorParameters<typeof ReleaseHandle> {
         return [inst.handleType, inst.handleId];
     }
@@ -737,6 +900,7 @@ export class ReleaseHandle extends Message {
 export class ClearOutput extends Message {
     static codec = combined().to(ClearOutput);
     static get msgTypeId() { return 21; }
+    static get msgTypeName() { return "ClearOutput"; }
 
     static unapply(inst: ClearOutput): ConstructorParameters<typeof ClearOutput> {
         return [];
@@ -751,6 +915,7 @@ export class ClearOutput extends Message {
 export class SetCellOutput extends NotebookUpdate {
     static codec = combined(uint32, uint32, int16, optional(Output.codec)).to(SetCellOutput);
     static get msgTypeId() { return 22; }
+    static get msgTypeName() { return "SetCellOutput"; }
     static unapply(inst: SetCellOutput): ConstructorParameters<typeof SetCellOutput> {
         return [inst.globalVersion, inst.localVersion, inst.id, inst.output]
     }
@@ -761,15 +926,20 @@ export class SetCellOutput extends NotebookUpdate {
     }
 }
 
-export class NotebookVersion extends Message {
-    static codec = combined(shortStr, uint32).to(NotebookVersion);
+/**
+ * The global version of a notebook. Versions start over whenever the server opens the notebook again (e.g. after it's
+ * restarted), so they're only comparable within the same epoch, which identifies the notebook's version history.
+ */
+export class NotebookVersion extends RequestMessage {
+    static codec = combined(int32, shortStr, uint32, shortStr).to(NotebookVersion);
     static get msgTypeId() { return 23; }
+    static get msgTypeName() { return "NotebookVersion"; }
 
     static unapply(inst: NotebookVersion): ConstructorParameters<typeof NotebookVersion> {
-        return [inst.path, inst.globalVersion];
+        return [inst.reqId, inst.path, inst.globalVersion, inst.epoch];
     }
 
-    constructor(readonly path: string, readonly globalVersion: number) {
+    constructor(readonly reqId: number, readonly path: string, readonly globalVersion: number, readonly epoch: string) {
         super();
         Object.freeze(this);
     }
@@ -778,6 +948,7 @@ export class NotebookVersion extends Message {
 export class RunningKernels extends Message {
     static codec = combined(arrayCodec(uint8, Pair.codec(shortStr, KernelBusyState.codec))).to(RunningKernels);
     static get msgTypeId() { return 24; }
+    static get msgTypeName() { return "RunningKernels"; }
 
     static unapply(inst: RunningKernels): ConstructorParameters<typeof RunningKernels> {
         return [inst.kernelStatuses];
@@ -796,6 +967,7 @@ export class RunningKernels extends Message {
 export class CurrentSelection extends Message {
     static codec = combined(uint16, PosRange.codec).to(CurrentSelection);
     static get msgTypeId() { return 28; }
+    static get msgTypeName() { return "CurrentSelection"; }
     static unapply(inst: CurrentSelection): ConstructorParameters<typeof CurrentSelection> {
         return [inst.cellID, inst.range];
     }
@@ -806,6 +978,26 @@ export class CurrentSelection extends Message {
     }
 }
 
+/**
+ * Request the updates which were made to a notebook after fromVersion, up to and including toVersion. If the server
+ * can't provide all of those updates (e.g. because it has been restarted since then, so the epoch is different), the
+ * response has no `updates`.
+ */
+export class NotebookUpdateRange extends RequestMessage {
+    static codec = combined(int32, shortStr, shortStr, uint32, uint32, optional(arrayCodec(int32, NotebookUpdate.codec))).to(NotebookUpdateRange);
+    static get msgTypeId() { return 32; }
+    static get msgTypeName() { return "NotebookUpdateRange"; }
+
+    static unapply(inst: NotebookUpdateRange): ConstructorParameters<typeof NotebookUpdateRange> {
+        return [inst.reqId, inst.path, inst.epoch, inst.fromVersion, inst.toVersion, inst.updates];
+    }
+
+    constructor(readonly reqId: number, readonly path: string, readonly epoch: string, readonly fromVersion: number, readonly toVersion: number, readonly updates?: NotebookUpdate[]) {
+        super();
+        Object.freeze(this);
+    }
+}
+
 Message.codecs = [
     Error,            // 0
     LoadNotebook,     // 1
@@ -839,6 +1031,7 @@ Message.codecs = [
     CreateComment,    // 29
     UpdateComment,    // 30
     DeleteComment,    // 31
+    NotebookUpdateRange, // 32
 ];
 
 
@@ -848,4 +1041,26 @@ Message.codec = discriminated(
     (msg) => (msg.constructor as typeof Message).msgTypeId
 );
 
-
+/**
+ * Must be incremented whenever the fields of an existing message change, since that isn't reflected in the
+ * protocolFingerprint otherwise. Such a change shows up in the sample encodings which the tests on both sides check
+ * (see polynote-kernel/src/test/resources/protocol-samples.txt).
+ */
+export const protocolRevision = 3;
+
+/**
+ * Identifies the version of the protocol, so we can tell whether we're able to talk to the server (which sends its own
+ * fingerprint in the ServerHandshake). It's derived from the message table (the ID and name of every message) and the
+ * protocolRevision, and is computed the same way as polynote.messages.Message.protocolFingerprint on the server – so
+ * the two must be kept in sync.
+ */
+export const protocolFingerprint: string = (() => {
+    const description = `${protocolRevision};` + Message.codecs.map(msg => `${msg.msgTypeId}:${msg.msgTypeName}`).join(',');
+
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < description.length; i++) {
+        hash = Math.imul(hash ^ description.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+})();
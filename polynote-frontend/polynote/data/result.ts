@@ -5,15 +5,9 @@ import {
     str, shortStr, tinyStr, uint8, uint16, int32, ior, CodecContainer
 } from './codec'
 
-import {ValueRepr, StringRepr, MIMERepr, StreamingDataRepr, DataRepr, LazyDataRepr, DataStream} from './value_repr'
+import {ValueRepr, StringRepr} from './value_repr'
 import {int16, int64} from "./codec";
-import {Cell, CodeCell} from "../ui/component/cell";
-import {displayData, displaySchema} from "../ui/component/display_content";
-import {div, h4, iconButton, span} from "../ui/util/tags";
-import * as monaco from "monaco-editor";
-import {ValueInspector} from "../ui/component/value_inspector";
-import {StructType} from "./data_type";
-import {SocketSession} from "../comms";
+import {Cell} from "../ui/component/cell";
 
 export class Result extends CodecContainer {
     static codec: Codec<Result>;
@@ -242,88 +236,6 @@ export class ResultValue extends Result {
         if (index < 0) return "";
         return (this.reprs[index] as StringRepr).string;
     }
-
-    /**
-     * Get a default MIME type and string, for display purposes
-     */
-    displayRepr(cell: CodeCell, valueInspector: ValueInspector): Promise<[string, string | DocumentFragment]> {
-        // We're searching for the best MIME type and representation for this result by going in order of most to least
-        // useful (kind of arbitrarily defined...)
-        // TODO: make this smarter
-        // TODO: for lazy data repr, inform that it can't be displayed immediately
-
-        let index = -1;
-
-        // First, check to see if there's a special DataRepr or StreamingDataRepr
-        index = this.reprs.findIndex(repr => repr instanceof DataRepr);
-        if (index >= 0) {
-            return monaco.editor.colorize(this.typeName, "scala", {}).then(typeHTML => {
-                const dataRepr = this.reprs[index] as DataRepr;
-                const frag = document.createDocumentFragment();
-                const resultType = span(['result-type'], []).attr("data-lang" as any, "scala");
-                resultType.innerHTML = typeHTML;
-                frag.appendChild(div([], [
-                    h4(['result-name-and-type'], [span(['result-name'], [this.name]), ': ', resultType]),
-                    displayData(dataRepr.dataType.decodeBuffer(new DataReader(dataRepr.data)), undefined, 1)
-                ]));
-                return ["text/html", frag];
-            })
-        }
-
-        index = this.reprs.findIndex(repr => repr instanceof StreamingDataRepr);
-        if (index >= 0) {
-            const repr = this.reprs[index] as StreamingDataRepr;
-            // surprisingly using monaco.editor.colorizeElement breaks the theme of the whole app! WAT?
-            return monaco.editor.colorize(this.typeName, cell.language, {}).then(typeHTML => {
-                const streamingRepr = this.reprs[index] as StreamingDataRepr;
-                const frag = document.createDocumentFragment();
-                const resultType = span(['result-type'], []).attr("data-lang" as any, "scala");
-                resultType.innerHTML = typeHTML;
-                // Why do they put a <br> in there?
-                [...resultType.getElementsByTagName("br")].forEach(br => {
-                    br?.parentNode?.removeChild(br)
-                });
-
-                const el = div([], [
-                    h4(['result-name-and-type'], [
-                        span(['result-name'], [this.name]), ': ', resultType,
-                        iconButton(['view-data'], 'View data', 'table', '[View]')
-                            .click(_ => valueInspector.inspect(this, cell.notebook, 'View data')),
-                        repr.dataType instanceof StructType
-                            ? iconButton(['plot-data'], 'Plot data', 'chart-bar', '[Plot]')
-                                .click(_ => {
-                                    valueInspector.setParent(cell);
-                                    valueInspector.inspect(this, cell.notebook, 'Plot data');
-                                })
-                            : undefined
-                    ]),
-                    repr.dataType instanceof StructType ? displaySchema(streamingRepr.dataType) : undefined
-                ]);
-                frag.appendChild(el);
-                return ["text/html", frag];
-            })
-        }
-
-        // next, if it's a MIMERepr we want to follow this order
-        const mimeOrder = [
-            "image/",
-            "application/x-latex",
-            "text/html",
-            "text/",
-        ];
-
-        for (const partialMime of mimeOrder) {
-            index = this.reprs.findIndex(repr => repr instanceof MIMERepr && repr.mimeType.startsWith(partialMime));
-            if (index >= 0) return Promise.resolve(MIMERepr.unapply(this.reprs[index] as MIMERepr));
-        }
-
-        // ok, maybe there's some other mime type we didn't expect?
-        index = this.reprs.findIndex(repr => repr instanceof MIMERepr);
-        if (index >= 0) return Promise.resolve(MIMERepr.unapply(this.reprs[index] as MIMERepr));
-
-        // just give up and show some plaintext...
-        return Promise.resolve(["text/plain", this.valueText]);
-    }
 }
 
 
@@ -0,0 +1,145 @@
+'use strict';
+
+import {DataStream} from "./value_repr";
+
+/**
+ * A cached window over a DataStream, whose rows can be read at any position (i.e. to page through a table).
+ *
+ * The stream can only be read forwards, so reading rows past the ones which have been loaded fetches every batch up to
+ * them. Fetched batches are cached up to maxRows rows, after which the least recently read batches are evicted; reading
+ * rows which were evicted restarts the stream (with a new stream from mkStream) and reads it up to them again.
+ */
+export class StreamCache<T = any> {
+    private stream: DataStream;
+    private batches = new Map<number, T[]>(); // by the index of their first row, from least to most recently read.
+    private cachedRows = 0;
+    private position = 0;                      // the index of the next row which the current stream will return.
+    private streamEnded = false;
+    private _loadedCount = 0;
+    private _done = false;
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly mkStream: () => DataStream, readonly batchSize: number = 100, readonly maxRows: number = 10000) {
+        this.stream = mkStream().batch(batchSize);
+    }
+
+    // the number of rows which are known to exist, because they've been loaded.
+    get loadedCount(): number {
+        return this._loadedCount;
+    }
+
+    // whether the end of the stream has been reached, in which case loadedCount is the number of rows in it.
+    get done(): boolean {
+        return this._done;
+    }
+
+    // the size of the stream, as reported by the server (if it's known).
+    get knownSize(): number | undefined {
+        return this._done ? this._loadedCount : this.stream.knownSize;
+    }
+
+    /**
+     * Reads the rows from start (inclusive) to end (exclusive); there are fewer of them if the stream ends before end.
+     */
+    getRows(start: number, end: number): Promise<T[]> {
+        // reads are queued, because they share the stream.
+        const result = this.queue.then(() => this.fetch(start, end)).then(() => this.cached(start, end));
+        this.queue = result.then(() => {}, () => {});
+        return result;
+    }
+
+    dispose() {
+        this.stream.kill();
+        this.batches.clear();
+        this.cachedRows = 0;
+    }
+
+    private batchStarts(start: number, end: number): number[] {
+        const starts = [];
+        for (let batchStart = Math.floor(start / this.batchSize) * this.batchSize; batchStart < end; batchStart += this.batchSize) {
+            if (this._done && batchStart >= this._loadedCount) {
+                break;
+            }
+            starts.push(batchStart);
+        }
+        return starts;
+    }
+
+    private fetch(start: number, end: number): Promise<void> {
+        const starts = this.batchStarts(start, end);
+
+        // mark the batches which are already cached as recently read, so that fetching the rest doesn't evict them.
+        starts.forEach(batchStart => this.touch(batchStart));
+
+        const missing = starts.find(batchStart => !this.batches.has(batchStart));
+        if (missing === undefined) {
+            return Promise.resolve();
+        }
+
+        if (missing < this.position) {
+            this.restart();
+        }
+        return this.readUntil(end);
+    }
+
+    private readUntil(end: number): Promise<void> {
+        if (this.position >= end || this.streamEnded) {
+            return Promise.resolve();
+        }
+
+        return this.stream.requestNext().then((batch: T[]) => {
+            this.store(this.position, batch);
+            this.position += batch.length;
+            this._loadedCount = Math.max(this._loadedCount, this.position);
+            if (batch.length < this.batchSize || this.stream.terminated) {
+                this.streamEnded = true;
+                this._done = true;
+            }
+            return this.readUntil(end);
+        });
+    }
+
+    private restart() {
+        this.stream.kill();
+        this.stream = this.mkStream().batch(this.batchSize);
+        this.position = 0;
+        this.streamEnded = false;
+    }
+
+    private store(batchStart: number, batch: T[]) {
+        if (!batch.length || this.batches.has(batchStart)) {
+            return;
+        }
+
+        this.batches.set(batchStart, batch);
+        this.cachedRows += batch.length;
+
+        const iter = this.batches.entries();
+        while (this.cachedRows > this.maxRows && this.batches.size > 1) {
+            const [oldest, evicted] = iter.next().value;
+            this.batches.delete(oldest);
+            this.cachedRows -= evicted.length;
+        }
+    }
+
+    private touch(batchStart: number) {
+        const batch = this.batches.get(batchStart);
+        if (batch) {
+            this.batches.delete(batchStart);
+            this.batches.set(batchStart, batch);
+        }
+    }
+
+    private cached(start: number, end: number): T[] {
+        const rows: T[] = [];
+        for (let index = start; index < end; index++) {
+            const batchStart = Math.floor(index / this.batchSize) * this.batchSize;
+            const row = this.batches.get(batchStart)?.[index - batchStart];
+            if (row === undefined) {
+                break;
+            }
+            rows.push(row);
+        }
+        return rows;
+    }
+}
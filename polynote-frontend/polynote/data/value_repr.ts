@@ -7,9 +7,12 @@ import {
 import match from "../util/match"
 
 import * as messages from "./messages"
-import {CancelTasks, GroupAgg, HandleData, Message, ModifyStream, QuantileBin, Select, TableOp} from "./messages";
-import {MessageListener, SocketSession} from "../comms";
-import {DataType, DoubleType, LongType, NumericTypes, StructField, StructType} from "./data_type";
+import {
+    And, CancelTasks, Compare, CompareOp, Filter, GroupAgg, HandleData, Limit, Message, ModifyStream, Not, Or, Predicate, QuantileBin,
+    Select, Sort, TableOp
+} from "./messages";
+import {SocketSession} from "../comms";
+import {DataType, DoubleType, LongType, NumericTypes, OptionalType, StructField, StructType} from "./data_type";
 import {Either, Left, Right} from "./types";
 import {EventTarget} from "event-target-shim"
 
@@ -154,7 +157,6 @@ export class DataStream extends EventTarget {
     private stopAfter = Infinity;
     private listener?: EventListener;
     private runListener?: EventListener;
-    private socketListener?: MessageListener;
     private onComplete?: <T>(value?: T | PromiseLike<T>) => void;
     private _onError: (reason?: any) => void = _ => {};
     private nextPromise?: {resolve: <T>(value?: T | PromiseLike<T>) => void, reject: (reason?: any) => void}; // holds a Promise's `resolve` and `reject` inputs.
@@ -199,6 +201,9 @@ export class DataStream extends EventTarget {
         if (this.listener) {
             this.removeEventListener('DataBatch', this.listener);
         }
+        if (this.runListener) {
+            this.removeEventListener('DataBatch', this.runListener);
+        }
         if (this.onComplete) {
             this.onComplete();
         }
@@ -234,7 +239,8 @@ export class DataStream extends EventTarget {
             err = 1.0 / binCount;
         }
         const field = this.requireField(col);
-        if (NumericTypes.indexOf(field.dataType) < 0) {
+        const dataType = field.dataType instanceof OptionalType ? field.dataType.element : field.dataType;
+        if (NumericTypes.indexOf(dataType) < 0) {
             throw new Error(`Field ${col} must be a numeric type to use bin()`);
         }
         return new DataStream(this.socket, this.originalRepr, [...this.mods, new QuantileBin(col, binCount, err)]);
@@ -246,6 +252,42 @@ export class DataStream extends EventTarget {
         return new DataStream(this.socket, this.originalRepr, [...this.mods, mod]);
     }
 
+    filter(predicate: Predicate) {
+        this.predicateColumns(predicate).forEach(col => this.requireField(col));
+        return new DataStream(this.socket, this.originalRepr, [...this.mods, new Filter(predicate)]);
+    }
+
+    // filters by a single comparison; i.e. `stream.where("count", ">", 10)`
+    where(column: string, op: CompareOp, value: string | number | boolean) {
+        return this.filter(new Compare(column, op, value.toString()));
+    }
+
+    /**
+     * Sort by the given columns – either a column name (to sort it in ascending order), or a column name and whether to
+     * sort it in descending order.
+     */
+    sort(...cols: (string | [string, boolean])[]) {
+        const columns = cols.map(col => typeof col === 'string' ? new Pair(col, false) : new Pair(...col));
+        columns.forEach(pair => this.requireField(pair.first));
+        return new DataStream(this.socket, this.originalRepr, [...this.mods, new Sort(columns)]);
+    }
+
+    /**
+     * Limit the stream to its first n rows. Unlike limit(), this happens on the server – so the result of i.e. sorting the
+     * stream is truncated before it's sent, rather than while it's being received.
+     */
+    take(n: number) {
+        if (n < 0) {
+            throw new Error("Expected a count >= 0")
+        }
+        return new DataStream(this.socket, this.originalRepr, [...this.mods, new Limit(n)]);
+    }
+
+    // the number of rows in the stream, if the server knows it.
+    get knownSize(): number | undefined {
+        return this.repr.knownSize;
+    }
+
     onError(fn: (cause: any) => void) {
         const prevOnError = this._onError;
         this._onError = prevOnError ? (cause: any) => { prevOnError(cause); fn(cause); } : fn;
@@ -306,39 +348,52 @@ export class DataStream extends EventTarget {
     }
 
     private _requestNext() {
-        this.socket.send(new HandleData(StreamingDataRepr.handleTypeId, this.repr.handle, this.batchSize, Either.right([])))
+        const decodeValues = (data: ArrayBuffer[]) => data.map(buf => this.repr.dataType.decodeBuffer(new DataReader(buf)));
+
+        this.socket.request(reqId => new HandleData(reqId, StreamingDataRepr.handleTypeId, this.repr.handle, this.batchSize, Either.right([]))).then(
+            response => {
+                const succeed = (data: ArrayBuffer[]) => {
+                    // a batch which arrives after the stream was killed is dropped, rather than restarting the stream.
+                    if (this.terminated) {
+                        return;
+                    }
+
+                    const batch = decodeValues(data);
+                    if (this.nextPromise) {
+                        this.nextPromise.resolve(batch);
+                        this.nextPromise = undefined;
+                    }
+
+                    this.terminated = batch.length < response.count;
+                    this.dispatchEvent(new DataBatch(batch));
+                    if (this.terminated) {
+                        this.kill();
+                    }
+                };
+
+                Either.fold(response.data, (err: messages.Error) => this.fail(err), succeed);
+            },
+            err => this.fail(err));
     }
 
-    private setupStream() {
-        if (!this.socketListener) {
-            const decodeValues = (data: ArrayBuffer[]) => data.map(buf => this.repr.dataType.decodeBuffer(new DataReader(buf)));
-
-            this.socketListener = this.socket.addMessageListener(HandleData, (handleType, handleId, count, data: Left<messages.Error> | Right<ArrayBuffer[]>) => {
-                if (handleType === StreamingDataRepr.handleTypeId && handleId === this.repr.handle) {
-                    const succeed = (data: ArrayBuffer[]) => {
-                        const batch = decodeValues(data);
-                        if (this.nextPromise) {
-                            this.nextPromise.resolve(batch);
-                            this.nextPromise = undefined;
-                        }
-
-                        this.terminated = batch.length < count;
-                        this.dispatchEvent(new DataBatch(batch));
-                        if (this.terminated) {
-                            this.kill();
-                        }
-                    };
-
-                    const fail = (err: messages.Error) => this._onError(err);
-
-                    Either.fold(data, fail, succeed);
-                }
-            });
+    private fail(err: any) {
+        // reject a pending requestNext() first, so that it doesn't wait forever for a batch which isn't coming.
+        if (this.nextPromise) {
+            this.nextPromise.reject(err);
+            this.nextPromise = undefined;
         }
+        this._onError(err);
+    }
 
+    private setupStream() {
         if (!this.setupPromise) {
-            this.setupPromise = this.socket.request(new ModifyStream(this.repr.handle, this.mods)).then(mod => {
-                if (mod.newRepr) this.repr = mod.newRepr
+            this.setupPromise = this.socket.request(reqId => new ModifyStream(reqId, this.repr.handle, this.mods)).then(mod => {
+                if (mod.newRepr) {
+                    this.repr = mod.newRepr
+                } else if (this.mods.length) {
+                    // the server couldn't apply the mods; streaming the unmodified data instead would be misleading.
+                    throw new Error("The table operations aren't supported for this data");
+                }
             });
         }
 
@@ -359,15 +414,17 @@ export class DataStream extends EventTarget {
         for (let mod of this.mods) {
             match(mod)
                 .when(GroupAgg, (groupCols: string[], aggregations: Pair<string, string>[]) => {
-                    const groupFields = groupCols.map(name => this.requireField(name));
+                    const groupFields = groupCols.map(name => this.requireField(name, dataType));
                     const aggregateFields = aggregations.map(pair => {
                         const [name, agg] = Pair.unapply(pair);
-                        let aggregatedType = this.requireField(name).dataType;
+                        let aggregatedType = this.requireField(name, dataType).dataType;
                         if (!aggregatedType) {
                             throw new Error(`Field ${name} not present in data type`);
                         }
                         switch (agg) {
                             case "count":
+                            case "non_null_count":
+                            case "null_count":
                             case "approx_count_distinct":
                                 aggregatedType = LongType;
                                 break;
@@ -383,15 +440,26 @@ export class DataStream extends EventTarget {
                     dataType = new StructType([...dataType.fields, new StructField(`${column}_quantized`, DoubleType)]);
                 })
                 .when(Select, (columns: string[]) => {
-                    const fields = columns.map(name => this.requireField(name));
+                    const fields = columns.map(name => this.requireField(name, dataType));
                     dataType = new StructType(fields);
                 });
+            // Filter, Sort and Limit don't change the data type.
         }
         return dataType;
     }
 
-    private requireField(name: string) {
-        const field = this.dataType.fields.find((field: StructField) => field.name === name);
+    private predicateColumns(predicate: Predicate): string[] {
+        return match(predicate)
+            .when(Compare, (column: string) => [column])
+            .when(And, (predicates: Predicate[]) => predicates.flatMap(p => this.predicateColumns(p)))
+            .when(Or, (predicates: Predicate[]) => predicates.flatMap(p => this.predicateColumns(p)))
+            .when(Not, (p: Predicate) => this.predicateColumns(p))
+            .otherwise([]);
+    }
+
+    // looks up a field of the stream's data type – or, while that's being worked out, of the data type so far.
+    private requireField(name: string, dataType: StructType = this.dataType) {
+        const field = dataType.fields.find((field: StructField) => field.name === name);
         if (!field) {
             throw new Error(`Field ${name} not present in data type`);
         }
@@ -1,9 +1,11 @@
 import {ClientInterpreter} from "./client_interpreter";
 import {Result as VegaResult } from "vega-embed";
-import {Output} from "../data/result";
+import {ClientResult, Output} from "../data/result";
 
 export const VegaInterpreter: ClientInterpreter;
 
-export const VegaClientResult: {
-    plotToOutput(plot: VegaResult): Promise<Output>
-};
\ No newline at end of file
+export class VegaClientResult extends ClientResult {
+    constructor(spec: any);
+    readonly spec: any;
+    static plotToOutput(plot: VegaResult): Promise<Output>
+}
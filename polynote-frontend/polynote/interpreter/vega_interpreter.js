@@ -5,6 +5,8 @@ import {Position, KernelReport, CompileErrors, Output, ServerErrorWithCause, Run
 import {DataStream, MIMERepr} from "../data/value_repr";
 import embed from "vega-embed";
 import {ClientResult} from "../data/result";
+import {NumberConverter} from "../data/int64";
+import {div} from "../ui/util/tags";
 
 export const VegaInterpreter = {
 
@@ -75,18 +77,29 @@ export class VegaClientResult extends ClientResult {
 
         let dataStream;
 
-        if (spec.data.values instanceof DataStream) {
-            dataStream = spec.data.values;
-            delete spec.data.values;
+        // a Vega-Lite spec has one data set; a Vega spec has a list of them, any of which could be the stream.
+        const streamData = (spec.data instanceof Array ? spec.data : [spec.data]).find(data => data.values instanceof DataStream);
+        if (streamData) {
+            dataStream = streamData.values;
+            delete streamData.values;
         }
 
         if (dataStream) {
+            // vega needs numbers rather than bigints.
+            const converter = new NumberConverter();
             this.running = embed(targetEl, spec).then(plot =>
                 dataStream
                     .batch(500)
-                    .to(batch => plot.view.insert(spec.data.name, batch).runAsync())
+                    .to(batch => plot.view.insert(streamData.name, converter.convert(batch)).runAsync())
                     .run()
-                    .then(_ => plot.view.resize().runAsync())
+                    .then(_ => {
+                        if (converter.inexact && targetEl) {
+                            targetEl.appendChild(div(['plot-warning'], [
+                                `${converter.inexact} value(s) were too large to plot exactly, so they're approximated.`
+                            ]));
+                        }
+                        return plot.view.resize().runAsync();
+                    })
                     .then(_ => plot)
             )
         } else {
@@ -0,0 +1,187 @@
+'use strict';
+
+import {EventTarget} from 'event-target-shim'
+import {Message, protocolFingerprint} from "./data/messages";
+import {LoopbackPeer, LoopbackServer} from "./transport";
+import {preferences} from "./ui/util/storage";
+
+export type Direction = 'sent' | 'received';
+
+export interface ProtocolLogEntry {
+    readonly seq: number;
+    readonly ts: number;
+    readonly path: string;      // the path of the session's URL, which identifies the notebook (or the global session)
+    readonly direction: Direction;
+    readonly data: ArrayBuffer;
+}
+
+/**
+ * A captured session, as exported from the ProtocolLog. Messages are stored in their encoded form (base64), so that
+ * they can be replayed exactly – including messages which couldn't be decoded.
+ */
+interface ProtocolCapture {
+    protocolFingerprint: string;
+    entries: {ts: number, path: string, direction: Direction, data: string}[];
+}
+
+// the most entries (and the most bytes of messages) that are kept; older entries are dropped.
+const capacity = 5000;
+const byteCapacity = 16 * 1024 * 1024;
+
+export const recordProtocolPref = preferences.register("Record protocol messages", false,
+    "Whether to record the messages which are sent and received even while the Protocol Inspector isn't open, so " +
+    "that they can be inspected later");
+
+/**
+ * Records the messages which are sent or received by SocketSessions, for the protocol inspector. Messages are only
+ * recorded while an inspector is watching the log, or if the "Record protocol messages" preference is enabled.
+ *
+ * Dispatches a `record` event (with the entry as its detail) for every new entry, and a `clear` event when the log is
+ * cleared.
+ */
+export class ProtocolLog extends EventTarget {
+    private nextSeq = 0;
+    private _entries: ProtocolLogEntry[] = [];
+    private bytes = 0;
+    private watchers = 0;
+    paused = false;
+
+    get entries(): ProtocolLogEntry[] {
+        return this._entries;
+    }
+
+    get recording(): boolean {
+        return !this.paused && (this.watchers > 0 || !!preferences.get(recordProtocolPref).value);
+    }
+
+    /**
+     * Record messages until `unwatch` is called (as many times as `watch` was).
+     */
+    watch() {
+        this.watchers++;
+    }
+
+    unwatch() {
+        this.watchers = Math.max(0, this.watchers - 1);
+    }
+
+    record(url: URL, direction: Direction, data: ArrayBuffer) {
+        if (!this.recording) {
+            return;
+        }
+
+        const entry: ProtocolLogEntry = {seq: this.nextSeq++, ts: Date.now(), path: url.pathname, direction, data};
+        this._entries.push(entry);
+        this.bytes += data.byteLength;
+
+        // drop the oldest entries until there are few enough (but always keep the newest one, however big it is).
+        let dropped = 0;
+        const remaining = () => this._entries.length - dropped;
+        while (remaining() > 1 && (remaining() > capacity || this.bytes > byteCapacity)) {
+            this.bytes -= this._entries[dropped].data.byteLength;
+            dropped++;
+        }
+        this._entries.splice(0, dropped);
+        this.dispatchEvent(new CustomEvent('record', {detail: entry}));
+    }
+
+    clear() {
+        this._entries = [];
+        this.bytes = 0;
+        this.dispatchEvent(new CustomEvent('clear'));
+    }
+
+    /**
+     * The name of the entry's message type. This only depends on the first byte, so it's available even if the message
+     * can't be decoded.
+     */
+    static msgTypeName(entry: ProtocolLogEntry): string {
+        const typeId = new DataView(entry.data).getUint8(0);
+        return Message.codecs[typeId]?.msgTypeName ?? `Unknown(${typeId})`;
+    }
+
+    static decode(entry: ProtocolLogEntry): Message {
+        return Message.decode(entry.data);
+    }
+
+    export(): string {
+        const capture: ProtocolCapture = {
+            protocolFingerprint,
+            entries: this._entries.map(entry => ({
+                ts: entry.ts,
+                path: entry.path,
+                direction: entry.direction,
+                data: toBase64(entry.data)
+            }))
+        };
+        return JSON.stringify(capture);
+    }
+
+    static parse(json: string): {protocolFingerprint: string, entries: ProtocolLogEntry[]} {
+        const capture: ProtocolCapture = JSON.parse(json);
+        if (!capture || typeof capture.protocolFingerprint !== 'string' || !(capture.entries instanceof Array)) {
+            throw new Error("Not a captured protocol session");
+        }
+
+        return {
+            protocolFingerprint: capture.protocolFingerprint,
+            entries: capture.entries.map((entry, seq) => ({
+                seq,
+                ts: entry.ts,
+                path: entry.path,
+                direction: entry.direction,
+                data: fromBase64(entry.data)
+            }))
+        };
+    }
+}
+
+export const protocolLog = new ProtocolLog();
+
+function toBase64(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+function fromBase64(str: string): ArrayBuffer {
+    const binary = atob(str);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+// long pauses in a captured session aren't worth waiting for when it's replayed.
+const maxReplayDelay = 1000;
+
+/**
+ * A LoopbackServer which replays the messages that were received in a captured session. When a session connects,
+ * the messages which were received at the same path are sent to it, spaced out as they were originally (except for
+ * long pauses, which are shortened). Anything the client sends is ignored.
+ */
+export class ReplayServer implements LoopbackServer {
+    constructor(readonly entries: ProtocolLogEntry[]) {}
+
+    connect(url: URL, client: LoopbackPeer): LoopbackPeer {
+        const received = this.entries.filter(entry => entry.direction === 'received' && entry.path === url.pathname);
+        const timeouts: number[] = [];
+
+        let delay = 0;
+        received.forEach((entry, index) => {
+            if (index > 0) {
+                delay += Math.min(maxReplayDelay, Math.max(0, entry.ts - received[index - 1].ts));
+            }
+            timeouts.push(window.setTimeout(() => client.send(entry.data), delay));
+        });
+
+        return {
+            send: () => {},
+            close: () => timeouts.forEach(timeout => window.clearTimeout(timeout))
+        };
+    }
+}
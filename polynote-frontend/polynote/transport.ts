@@ -0,0 +1,341 @@
+'use strict';
+
+import {EventTarget} from 'event-target-shim'
+
+/**
+ * A connection to the server, over which encoded messages are sent and received. This is the subset of the WebSocket
+ * API which SocketSession relies on, so a WebSocket is a Transport; other transports implement the same API – they use
+ * the same values for `readyState`, and dispatch the same `open`, `message` (a MessageEvent containing an ArrayBuffer),
+ * `error` and `close` events.
+ */
+export interface Transport {
+    readonly readyState: number;
+    send(data: ArrayBuffer): void;
+    close(): void;
+    addEventListener(type: string, listener: (event: any) => void): void;
+    removeEventListener(type: string, listener: (event: any) => void): void;
+}
+
+/**
+ * Creates a Transport which connects to the given (websocket) URL.
+ */
+export type TransportFactory = (url: URL) => Transport;
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+export const webSocketTransport: TransportFactory = url => {
+    const socket = new WebSocket(url.href);
+    socket.binaryType = 'arraybuffer';
+    return socket;
+};
+
+/**
+ * Base class for transports which aren't WebSockets, which takes care of the state and events.
+ */
+abstract class TransportBase extends EventTarget implements Transport {
+    readyState: number = CONNECTING;
+
+    abstract send(data: ArrayBuffer): void;
+
+    close() {
+        if (this.readyState < CLOSING) {
+            this.closed();
+        }
+    }
+
+    protected opened() {
+        if (this.readyState === CONNECTING) {
+            this.readyState = OPEN;
+            this.dispatchEvent(new CustomEvent('open'));
+        }
+    }
+
+    protected received(data: ArrayBuffer) {
+        if (this.readyState === OPEN) {
+            this.dispatchEvent(new MessageEvent('message', {data}));
+        }
+    }
+
+    protected failed(cause: any) {
+        if (this.readyState < CLOSING) {
+            this.dispatchEvent(new CustomEvent('error', {detail: {cause}}));
+            this.closed();
+        }
+    }
+
+    protected closed() {
+        this.readyState = CLOSED;
+        this.dispatchEvent(new CustomEvent('close'));
+    }
+}
+
+/**
+ * One end of a loopback connection, which sends data to the other end.
+ */
+export interface LoopbackPeer {
+    send(data: ArrayBuffer): void;
+    close(): void;
+}
+
+/**
+ * A server which runs in the page, and which clients connect to using a LoopbackTransport. This is mainly useful for
+ * scripting the UI against a fake server.
+ */
+export interface LoopbackServer {
+    /**
+     * Accept a connection from a client at the given URL. The server sends data to the client using `client`, and
+     * returns the peer which receives the data sent by the client.
+     */
+    connect(url: URL, client: LoopbackPeer): LoopbackPeer;
+}
+
+/**
+ * A transport which connects to a LoopbackServer in the same page. Data is copied and delivered asynchronously (but in
+ * order) in both directions, just like it would be over a socket.
+ */
+export class LoopbackTransport extends TransportBase {
+    private server?: LoopbackPeer;
+
+    constructor(readonly url: URL, loopbackServer: LoopbackServer) {
+        super();
+        this.deliver(() => {
+            try {
+                this.server = loopbackServer.connect(url, {
+                    send: data => {
+                        const copy = data.slice(0);
+                        this.deliver(() => this.received(copy));
+                    },
+                    close: () => this.deliver(() => this.close())
+                });
+                this.opened();
+            } catch (err) {
+                this.failed(err);
+            }
+        });
+    }
+
+    send(data: ArrayBuffer) {
+        if (this.readyState !== OPEN) {
+            throw new Error("Transport is not open");
+        }
+        const copy = data.slice(0);
+        this.deliver(() => this.server?.send(copy));
+    }
+
+    protected closed() {
+        const server = this.server;
+        this.server = undefined;
+        super.closed();
+        if (server) {
+            this.deliver(() => server.close());
+        }
+    }
+
+    private deliver(fn: () => void) {
+        Promise.resolve().then(fn);
+    }
+}
+
+export function loopbackTransport(server: LoopbackServer): TransportFactory {
+    return url => new LoopbackTransport(url, server);
+}
+
+/**
+ * A transport which uses HTTP long-polling, for when WebSockets can't be used (e.g. because a proxy blocks them). The
+ * client opens a session with a POST, sends messages with further POSTs, and receives messages by polling with GETs
+ * (which the server holds open until it has something to send). Request and response bodies are sequences of
+ * messages, each prefixed by its length as an int32.
+ */
+export class LongPollTransport extends TransportBase {
+    private readonly pollUrl: URL;
+    private session?: string;
+    private outbound: ArrayBuffer[] = [];
+    private sending: boolean = false;
+    private abort = new AbortController();
+
+    constructor(url: URL) {
+        super();
+        this.pollUrl = LongPollTransport.pollUrl(url);
+        this.request('POST')
+            .then(response => response.text())
+            .then(session => {
+                this.session = session;
+                this.opened();
+                this.poll();
+            })
+            .catch(err => this.failed(err));
+    }
+
+    // the long-polling endpoint for the given websocket URL, e.g. ws://host/ws/notebook.ipynb => http://host/poll/notebook.ipynb
+    static pollUrl(url: URL): URL {
+        const base = new URL(document.baseURI).pathname;
+        const pollUrl = new URL(url.href);
+        pollUrl.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+        if (url.pathname.startsWith(base + 'ws')) {
+            pollUrl.pathname = base + 'poll' + url.pathname.substring(base.length + 'ws'.length);
+        }
+        return pollUrl;
+    }
+
+    send(data: ArrayBuffer) {
+        if (this.readyState !== OPEN) {
+            throw new Error("Transport is not open");
+        }
+        this.outbound.push(data);
+        this.flush();
+    }
+
+    // only one POST is in flight at a time, so that messages arrive in order.
+    private flush() {
+        if (this.sending || this.outbound.length === 0 || this.readyState !== OPEN) {
+            return;
+        }
+
+        const body = LongPollTransport.encodeFrames(this.outbound);
+        this.outbound = [];
+        this.sending = true;
+        this.request('POST', body)
+            .then(() => {
+                this.sending = false;
+                this.flush();
+            })
+            .catch(err => this.failed(err));
+    }
+
+    private poll() {
+        if (this.readyState !== OPEN) {
+            return;
+        }
+
+        this.request('GET')
+            .then(response => response.arrayBuffer())
+            .then(body => {
+                LongPollTransport.decodeFrames(body).forEach(data => this.received(data));
+                this.poll();
+            })
+            .catch(err => this.failed(err));
+    }
+
+    protected closed() {
+        const wasOpen = this.readyState === OPEN;
+        super.closed();
+        this.abort.abort();
+        if (wasOpen) {
+            // let the server know it can clean up the session; there's nothing to do if this fails.
+            this.request('DELETE').catch(() => {});
+        }
+    }
+
+    private request(method: string, body?: ArrayBuffer): Promise<Response> {
+        const url = new URL(this.pollUrl.href);
+        if (this.session) {
+            url.searchParams.set('session', this.session);
+        }
+        const signal = method === 'DELETE' ? undefined : this.abort.signal;
+        return fetch(url.href, {method, body, signal, credentials: 'same-origin', cache: 'no-store'}).then(response => {
+            if (!response.ok) {
+                throw new Error(`${method} ${this.pollUrl.pathname} failed: ${response.status} ${response.statusText}`);
+            }
+            return response;
+        });
+    }
+
+    private static encodeFrames(frames: ArrayBuffer[]): ArrayBuffer {
+        const length = frames.reduce((total, frame) => total + 4 + frame.byteLength, 0);
+        const result = new Uint8Array(length);
+        const view = new DataView(result.buffer);
+        let offset = 0;
+        frames.forEach(frame => {
+            view.setInt32(offset, frame.byteLength);
+            result.set(new Uint8Array(frame), offset + 4);
+            offset += 4 + frame.byteLength;
+        });
+        return result.buffer;
+    }
+
+    private static decodeFrames(body: ArrayBuffer): ArrayBuffer[] {
+        const view = new DataView(body);
+        const frames: ArrayBuffer[] = [];
+        let offset = 0;
+        while (offset + 4 <= body.byteLength) {
+            const length = view.getInt32(offset);
+            frames.push(body.slice(offset + 4, offset + 4 + length));
+            offset += 4 + length;
+        }
+        return frames;
+    }
+}
+
+// once a WebSocket has failed to connect when long-polling could, assume that WebSockets are being blocked – until
+// this long has passed, since the network (or the proxy which blocked them) may have changed by then.
+const webSocketsBlockedFor = 5 * 60 * 1000;
+let webSocketsBlockedUntil = 0;
+
+function webSocketsBlocked(): boolean {
+    return Date.now() < webSocketsBlockedUntil;
+}
+
+/**
+ * A transport which uses a WebSocket if possible, and otherwise falls back to long-polling. If the WebSocket fails
+ * before it ever opens, long-polling is tried instead; if that works, then WebSockets are assumed to be blocked and
+ * aren't tried again for a while – connections made after that try a WebSocket first again.
+ */
+export class AutoTransport extends TransportBase {
+    private transport: Transport;
+    private listeners = {
+        open: () => this.opened(),
+        message: (event: MessageEvent) => this.received(event.data),
+        error: () => {},
+        close: () => this.onClose()
+    };
+
+    constructor(readonly url: URL) {
+        super();
+        this.transport = this.connect(webSocketsBlocked() ? new LongPollTransport(url) : webSocketTransport(url));
+    }
+
+    get isLongPolling(): boolean {
+        return this.transport instanceof LongPollTransport;
+    }
+
+    send(data: ArrayBuffer) {
+        this.transport.send(data);
+    }
+
+    protected closed() {
+        this.disconnect();
+        if (this.transport.readyState < CLOSING) {
+            this.transport.close();
+        }
+        super.closed();
+    }
+
+    private onClose() {
+        if (this.readyState === CONNECTING && !this.isLongPolling) {
+            // the WebSocket never opened – maybe the server is down, or maybe WebSockets are blocked.
+            this.disconnect();
+            this.transport = this.connect(new LongPollTransport(this.url));
+            this.transport.addEventListener('open', () => webSocketsBlockedUntil = Date.now() + webSocketsBlockedFor);
+        } else {
+            this.close();
+        }
+    }
+
+    private connect(transport: Transport): Transport {
+        for (const [type, listener] of Object.entries(this.listeners)) {
+            transport.addEventListener(type, listener);
+        }
+        return transport;
+    }
+
+    private disconnect() {
+        for (const [type, listener] of Object.entries(this.listeners)) {
+            this.transport.removeEventListener(type, listener);
+        }
+    }
+}
+
+export const defaultTransport: TransportFactory = url => new AutoTransport(url);
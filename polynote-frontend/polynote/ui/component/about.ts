@@ -9,9 +9,12 @@ import * as monaco from "monaco-editor";
 import {KernelCommand, LoadNotebook, RunningKernels, ServerVersion, UIMessageRequest} from "../util/ui_event";
 import {KernelBusyState} from "../../data/messages";
 import {ClientBackup} from "./client_backup";
+import {int64Replacer} from "../../data/int64";
+import {ProtocolInspector} from "./protocol_inspector";
 
 export class About extends FullScreenModal {
     readonly storageUpdateListeners: string[];
+    private inspector?: ProtocolInspector;
     constructor() {
         super(
             div([], []),
@@ -279,7 +282,7 @@ export class About extends FullScreenModal {
                             backups.sort((b1, b2) => b2.ts - b1.ts).forEach(backup => {
                                 const valueEl = div(['json'], []);
 
-                                const backupsJson = JSON.stringify(backup, (k, v) => typeof v === 'bigint' ? v.toString : v);
+                                const backupsJson = JSON.stringify(backup, int64Replacer);
 
                                 monaco.editor.colorize(backupsJson, "json", {}).then(function(result) {
                                     valueEl.innerHTML = result;
@@ -300,6 +303,16 @@ export class About extends FullScreenModal {
         return el;
     }
 
+    protocolInspector() {
+        // the inspector is kept while the modal is open, so that it doesn't lose its state when switching tabs.
+        if (!this.inspector) {
+            this.inspector = new ProtocolInspector();
+        }
+        return div(["protocol-inspector-display"], [
+            h2([], ["Protocol Inspector"]),
+            this.inspector.el
+        ]);
+    }
 
     show(section?: string) {
         const tabs = {
@@ -308,6 +321,7 @@ export class About extends FullScreenModal {
             'Preferences': this.preferences.bind(this),
             'Running Kernels': this.runningKernels.bind(this),
             'Client-side Backups': this.clientBackups.bind(this),
+            'Protocol Inspector': this.protocolInspector.bind(this),
         };
         const tabnav = new TabNav(tabs);
         this.content.replaceChild(tabnav.el, this.content.firstChild!);
@@ -318,6 +332,8 @@ export class About extends FullScreenModal {
 
     hide() {
         this.storageUpdateListeners.forEach(x => storage.clearStorageListener(x));
+        this.inspector?.dispose();
+        this.inspector = undefined;
         super.hide()
     }
 }
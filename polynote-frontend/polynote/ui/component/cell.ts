@@ -46,20 +46,25 @@ import {KeyAction} from "../util/hotkeys";
 import {clientInterpreters} from "../../interpreter/client_interpreter";
 import {ValueInspector} from "./value_inspector";
 import {Interpreters} from "./ui";
-import {displayContent, parseContentType, prettyDuration} from "./display_content";
+import {displayContent, displayResultValue, parseContentType, prettyDuration} from "./display_content";
+import {isActiveContent} from "./mime_renderers";
 import {CellComment, CellMetadata} from "../../data/data";
 import {ContentEdit, Delete, Insert} from "../../data/content_edit";
 import {FoldingController, SuggestController} from "../monaco/extensions";
 import {CurrentNotebook} from "./current_notebook";
 import {NotebookUI} from "./notebook";
+import {CancelToken} from "../../comms";
 import CompletionList = languages.CompletionList;
-import SignatureHelp = languages.SignatureHelp;
 import IStandaloneCodeEditor = editor.IStandaloneCodeEditor;
 import IModelContentChangedEvent = editor.IModelContentChangedEvent;
 import IIdentifiedSingleEditOperation = editor.IIdentifiedSingleEditOperation;
 import SignatureHelpResult = languages.SignatureHelpResult;
 import TrackedRangeStickiness = editor.TrackedRangeStickiness;
 import {CommentID, CommentHandler} from "./comment";
+import {LiveValue} from "./live_value";
+import {StdoutOutput} from "./stdout_output";
+import {PlotDefinition, savedPlotDefinition} from "./plot_editor";
+import {UpdatingDataRepr} from "../../data/value_repr";
 import EditorOption = editor.EditorOption;
 
 export type CellContainer = TagElement<"div"> & {
@@ -333,13 +338,15 @@ export class CodeCell extends Cell {
     readonly editListener: IDisposable;
     readonly onWindowResize: (evt: Event) => void;
     private applyingServerEdits: boolean;
-    private stdOutEl: MIMEElement | null;
-    private stdOutLines: number;
-    private stdOutDetails: TagElement<"details"> | null;
+    private stdOut: StdoutOutput | null;
     private highlightDecorations: string[];
     private execDurationUpdater: number;
     public vim: any | null;
     private presenceMarkers: Record<number, string[]> = {};
+    private liveValues: LiveValue[] = []; // the live values of this cell's results, whose handles it releases
+    private stopLiveDisplay?: () => void; // stops updating the displayed result, if it's live
+    // the displayed outputs which could run scripts, along with what they display – they're redisplayed when the notebook's trust changes.
+    private activeOutputs: [MIMEElement, string, Record<string, string>, string][] = [];
     readonly commentHandler: CommentHandler;
 
     static keyMapOverrides = new Map([
@@ -671,13 +678,50 @@ export class CodeCell extends Cell {
     }
 
     buildOutput(mimeType: string, args: Record<string, string>, content: string | DocumentFragment) {
-        return displayContent(mimeType, content, args).then(
-            (result: TagElement<any>) => this.mimeEl(mimeType, args, result)
+        return displayContent(mimeType, content, args, this.notebook.trusted).then(
+            (result: TagElement<any>) => {
+                const el = this.mimeEl(mimeType, args, result);
+                if (typeof content === "string" && isActiveContent(mimeType)) {
+                    this.activeOutputs.push([el, mimeType, args, content]);
+                }
+                return el;
+            }
         ).catch(function(err: any) {
             return div(['output'], err);
         });
     }
 
+    // <script> tags won't be executed when they come in through `innerHTML`. So take them out, clone them, and
+    // insert them as DOM nodes instead
+    private runScripts(el: HTMLElement) {
+        const scripts = el.querySelectorAll('script');
+        scripts.forEach(script => {
+            const clone = document.createElement('script');
+            while (script.childNodes.length) {
+                clone.appendChild(script.removeChild(script.childNodes[0]));
+            }
+            [...script.attributes].forEach(attr => clone.setAttribute(attr.name, attr.value));
+            script.parentNode!.replaceChild(clone, script);
+        });
+    }
+
+    /**
+     * Redisplays the outputs which could run scripts – inline if the notebook is trusted, or sandboxed if it isn't.
+     */
+    redisplayActiveOutputs() {
+        const outputs = this.activeOutputs;
+        this.activeOutputs = [];
+        outputs.filter(([oldEl]) => oldEl.parentNode).forEach(([oldEl, mimeType, args, content]) => {
+            this.buildOutput(mimeType, args, content).then((el: MIMEElement) => {
+                oldEl.parentNode?.replaceChild(el, oldEl);
+                // as in addOutput, scripts are run in outputs (but not in results)
+                if (this.cellOutputDisplay.contains(el)) {
+                    this.runScripts(el);
+                }
+            });
+        });
+    }
+
     addOutput(contentType: string, content: string) {
         const [mimeType, args] = parseContentType(contentType);
         this.cellOutputDisplay.classList.add('output');
@@ -686,108 +730,16 @@ export class CodeCell extends Cell {
         }
 
         if (mimeType === 'text/plain' && args.rel === 'stdout') {
-            // first, strip ANSI control codes
-            // TODO: we probably want to parse & render the colors, but it would complicate things at the moment
-            //       given that the folding logic relies on text nodes and that would require using elements
-            content = content.replace(/\u001b\[\d+m/g, '');
-
-
-            // if there are too many lines, fold some
-            const lines = content.split(/\n/g);
-
-
-            if (! this.stdOutEl?.parentNode) {
-                this.stdOutEl = this.mimeEl(mimeType, args, "");
-                this.stdOutLines = lines.length;
-                this.cellOutputDisplay.appendChild(this.stdOutEl);
-            } else {
-                this.stdOutLines += lines.length - 1;
+            if (! this.stdOut?.el.parentNode) {
+                this.stdOut = new StdoutOutput(this.mimeEl(mimeType, args, ""), `cell-${this.id}-stdout`);
+                this.stdOut.setRunning(this.container.classList.contains('running'));
+                this.cellOutputDisplay.appendChild(this.stdOut.el);
             }
-
-            if (this.stdOutLines > 12) { // TODO: user-configurable number?
-
-                const splitAtLine = (textNode: Text, line: number) => {
-                    const lf = /\n/g;
-                    const text = textNode.nodeValue || "";
-                    let counted = 1;
-                    let splitPos = 0;
-                    while (counted < line) {
-                        counted++;
-                        const match = lf.exec(text);
-                        if (match === null) {
-                            return null; // TODO: What do we do if this happens?
-                        }
-                        splitPos = match.index + 1;
-                    }
-                    return textNode.splitText(splitPos);
-                };
-
-                // fold all but the first 5 and last 5 lines into an expandable thingy
-                const numHiddenLines = this.stdOutLines - 11;
-                if (! this.stdOutDetails?.parentNode) {
-                    this.stdOutDetails = tag('details', [], {}, [
-                        tag('summary', [], {}, [span([], '')])
-                    ]);
-
-                    // collapse into single node
-                    this.stdOutEl.normalize();
-                    // split the existing text node into first 5 lines and the rest
-                    let textNode = this.stdOutEl.childNodes[0] as Text;
-                    if (!textNode) {
-                        textNode = document.createTextNode(content);
-                        this.stdOutEl.appendChild(textNode);
-                    } else {
-                        // add the current content to the text node before folding
-                        textNode.nodeValue += content;
-                    }
-                    const hidden = splitAtLine(textNode, 6);
-                    if (hidden) {
-                        const after = splitAtLine(hidden, numHiddenLines);
-
-                        this.stdOutDetails.appendChild(hidden);
-                        this.stdOutEl.insertBefore(this.stdOutDetails, after);
-                    }
-                } else {
-                    const textNode = this.stdOutDetails.nextSibling! as Text;
-                    textNode.nodeValue += content;
-                    const after = splitAtLine(textNode, lines.length);
-                    if (after) {
-                        this.stdOutDetails.appendChild(textNode);
-                        this.stdOutEl.appendChild(after);
-                    }
-                }
-                // update summary
-                this.stdOutDetails.querySelector('summary span')!.setAttribute('line-count', numHiddenLines.toString());
-            } else {
-                // no folding (yet) - append to the existing stdout container
-                this.stdOutEl.appendChild(document.createTextNode(content));
-            }
-
-            // collapse the adjacent text nodes
-            this.stdOutEl.normalize();
-
-            // handle carriage returns in the last text node – they erase back to the start of the line
-            const lastTextNode = [...this.stdOutEl.childNodes].filter(node => node.nodeType === 3).pop();
-            if (lastTextNode) {
-                const eat = /^(?:.|\r)+\r(.*)$/gm; // remove everything before the last CR in each line
-                lastTextNode.nodeValue = lastTextNode.nodeValue!.replace(eat, '$1');
-            }
-
+            this.stdOut.append(content);
         } else {
             this.buildOutput(mimeType, args, content).then((el: MIMEElement) => {
                 this.cellOutputDisplay.appendChild(el);
-
-                // <script> tags won't be executed when they come in through `innerHTML`. So take them out, clone them, and
-                // insert them as DOM nodes instead
-                const scripts = el.querySelectorAll('script');
-                scripts.forEach(script => {
-                    const clone = document.createElement('script');
-                    while (script.childNodes.length) {
-                        clone.appendChild(script.removeChild(script.childNodes[0]));
-                    }
-                    [...script.attributes].forEach(attr => clone.setAttribute(attr.name, attr.value));
-                    script.parentNode!.replaceChild(clone, script);
-                });
+                this.runScripts(el);
             })
         }
     }
@@ -813,8 +765,14 @@ export class CodeCell extends Cell {
 
     displayResult(result: ResultValue | ClientResult) {
         if (result instanceof ResultValue) {
+            result.reprs.forEach(repr => {
+                if (repr instanceof UpdatingDataRepr) {
+                    this.liveValues.push(LiveValue.get(repr, this.notebook));
+                }
+            });
+
             // clear results
-            this.resultTabs.innerHTML = '';
+            this.clearResultDisplay();
 
             if (result.name !== "Out" && result.reprs.length > 1) {
                 // TODO: hover for result text?
@@ -835,8 +793,10 @@ export class CodeCell extends Cell {
                 this.cellResultMargin.innerHTML = '';
                 this.cellResultMargin.appendChild(outLabel);
 
-                result.displayRepr(this, ValueInspector.get().setParent(this)).then(display => {
-                    const [mime, content] = display;
+                displayResultValue(result, this, ValueInspector.get().setParent(this)).then(display => {
+                    const [mime, content, stopLiveDisplay] = display;
+                    this.stopLiveResult();
+                    this.stopLiveDisplay = stopLiveDisplay;
                     const [mimeType, args] = parseContentType(mime);
                     this.buildOutput(mime, args, content).then((el: MIMEElement) => {
                         this.resultTabs.appendChild(el);
@@ -846,11 +806,31 @@ export class CodeCell extends Cell {
             }
         } else {
             this.cellOutputTools.classList.add('output');
-            this.resultTabs.innerHTML = '';
+            this.clearResultDisplay();
+
+            // a saved plot can be reopened in the plot editor
+            this.cellResultMargin.innerHTML = '';
+            const definition = savedPlotDefinition(result);
+            if (definition) {
+                this.cellResultMargin.appendChild(div(['out-ident', 'with-reprs'], [
+                    iconButton(['inspect', 'edit-plot'], 'Edit plot', 'chart-bar', 'Edit plot').click(_ => this.editPlot(definition)),
+                    'Out:'
+                ]));
+            }
+
             result.display(this.resultTabs, this);
         }
     }
 
+    private editPlot(definition: PlotDefinition) {
+        const resultValue = this.notebook.getResultValue(definition.value, this.id);
+        if (resultValue) {
+            ValueInspector.get().setParent(this).inspect(resultValue, this.notebook, 'Plot data', {definition, cellId: this.id});
+        } else {
+            this.setRuntimeError(RuntimeError.fromJS(new Error(`Can't edit the plot, because ${definition.value} isn't defined – run the cell which defines it first.`)).error);
+        }
+    }
+
     setHighlight(pos?: {startPos: monaco.Position, endPos: monaco.Position} | PosRange | null, className?: string) {
         if (!className) {
             className = "currently-executing"
@@ -914,6 +894,7 @@ export class CodeCell extends Cell {
                 this.container.classList.add('running');
                 break;
         }
+        this.stdOut?.setRunning(status === "running");
     }
 
     isRunning() {
@@ -994,21 +975,33 @@ export class CodeCell extends Cell {
         this.cellOutputDisplay.innerHTML = '';
         this.cellOutputDisplay.classList.remove('errors');
         this.cellOutput.classList.remove('output');
-        this.stdOutDetails = null;
-        this.stdOutEl = null;
+        this.stdOut = null;
+        this.activeOutputs = [];
+        this.stopLiveResult();
+        this.releaseLiveValues();
+    }
+
+    private clearResultDisplay() {
+        this.stopLiveResult();
+        this.resultTabs.innerHTML = '';
+    }
+
+    private stopLiveResult() {
+        this.stopLiveDisplay?.();
+        this.stopLiveDisplay = undefined;
+    }
+
+    private releaseLiveValues() {
+        this.liveValues.forEach(live => live.release());
+        this.liveValues = [];
     }
 
-    requestCompletion(pos: number): Promise<CompletionList> {
-        return new Promise(
-            (resolve, reject) =>
-                CurrentNotebook.get.completionRequest(this.id, pos, resolve, reject)
-        ) //.catch();
+    requestCompletion(pos: number, cancelToken?: CancelToken): Promise<CompletionList> {
+        return CurrentNotebook.get.completionRequest(this.id, pos, cancelToken);
     }
 
-    requestSignatureHelp(pos: number): Promise<SignatureHelpResult> {
-        return new Promise<SignatureHelp>((resolve, reject) =>
-            CurrentNotebook.get.paramHintRequest(this.id, pos, resolve, reject)
-        ).then(sigHelp => ({
+    requestSignatureHelp(pos: number, cancelToken?: CancelToken): Promise<SignatureHelpResult> {
+        return CurrentNotebook.get.paramHintRequest(this.id, pos, cancelToken).then(sigHelp => ({
             value: sigHelp,
             dispose(): void {}
         } as SignatureHelpResult)) //.catch();
@@ -1042,6 +1035,8 @@ export class CodeCell extends Cell {
         window.removeEventListener('resize', this.onWindowResize);
         this.editor.dispose();
         this.deactivateVim();
+        this.stopLiveResult();
+        this.releaseLiveValues();
     }
 
     activateVim() {
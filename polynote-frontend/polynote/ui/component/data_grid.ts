@@ -0,0 +1,435 @@
+"use strict";
+
+import {Content, div, span, TagElement} from "../util/tags";
+import {ArrayType, DataType, MapType, OptionalType, StructField, StructType} from "../../data/data_type";
+import {displayData, formatDate} from "./display_content";
+
+// values of these types are summarized in their cell, and can be expanded below their row.
+function isNested(dataType: DataType): boolean {
+    if (dataType instanceof OptionalType) {
+        return isNested(dataType.element);
+    }
+    return dataType instanceof ArrayType || dataType instanceof StructType || dataType instanceof MapType;
+}
+
+function renderValue(data: any): HTMLElement {
+    if (data === null || data === undefined) {
+        return span(['null'], ["<null>"]);
+    } else if (data instanceof Array) {
+        return span(['summary'], [`Array(${data.length})`]);
+    } else if (data instanceof Map) {
+        return span(['summary'], [`Map(${data.size})`]);
+    } else if (data instanceof Date) {
+        return span(['date'], [formatDate(data)]).attr('title', formatDate(data));
+    } else if (typeof data === "object") {
+        return span(['summary'], ['{…}']);
+    } else if (typeof data === "number" || typeof data === "bigint") {
+        return span(['number'], [data.toString()]).attr('title', data.toString()); // a 64-bit integer is always shown exactly
+    }
+    return span([], [data.toString()]).attr('title', data.toString());
+}
+
+// orders nulls after everything else; values which aren't comparable (i.e. of nested types) aren't sorted.
+function compareValues(a: any, b: any): number {
+    if (a === b) {
+        return 0;
+    } else if (a === null || a === undefined) {
+        return 1;
+    } else if (b === null || b === undefined) {
+        return -1;
+    } else if (a instanceof Date && b instanceof Date) {
+        return a.getTime() - b.getTime();
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+interface Column {
+    field: StructField
+    width: number
+}
+
+/**
+ * A grid of rows of a StructType, which only renders the rows that are scrolled into view – so it can display many
+ * thousands of them.
+ *
+ * Columns can be resized (by dragging the right edge of their header) and reordered (by dragging their header onto
+ * another one). Clicking a header sorts the rows by that column, ascending and then descending; the sort only reorders
+ * the rows which the grid was given. The arrow keys (along with Home, End, Page Up and Page Down) move the focused cell,
+ * and Enter expands or collapses a nested value – which is displayed below its row.
+ */
+export class DataGrid {
+    static defaultColumnWidth = 160;
+    static minColumnWidth = 40;
+    static indexColumnWidth = 64;
+    static overscan = 10;     // the number of rows which are rendered above and below the visible ones.
+
+    readonly el: TagElement<"div">;
+    private header: TagElement<"div">;
+    private canvas: TagElement<"div">;
+    private message: TagElement<"div">;
+    private columns: Column[];
+
+    private rows: Record<string, any>[] = [];
+    private firstIndex = 0;
+    private order: number[] = [];              // the index of the row at each position, after sorting.
+    private sortBy?: { column: string, descending: boolean };
+
+    private expanded = new Map<string, HTMLElement>(); // the displays of the expanded cells, by `${row}:${column}`.
+    private extraHeights = new Map<number, number>(); // by row; how much taller than rowHeight an expanded row is.
+    private extras: [number, number][] = [];   // the positions of the expanded rows, with their extra height.
+    private rowHeight = 24;                   // measured once rows are rendered.
+
+    private focusRow = 0;
+    private focusColumn = 0;
+    private dragging?: Column;
+    private renderPending = false;
+
+    constructor(fields: StructField[]) {
+        this.columns = fields.map(field => ({field, width: DataGrid.defaultColumnWidth}));
+
+        this.el = div(['data-grid'], [
+            this.header = div(['data-grid-header'], []),
+            this.message = div(['data-grid-message'], []),
+            this.canvas = div(['data-grid-rows'], [])
+        ]);
+        this.el.tabIndex = 0;
+
+        this.el.addEventListener('scroll', () => this.scheduleRender());
+        this.el.addEventListener('keydown', (evt: KeyboardEvent) => this.onKey(evt));
+
+        this.renderHeader();
+    }
+
+    /**
+     * Display the given rows; firstIndex is the index of the first one in the whole table, which is shown in the index
+     * column.
+     */
+    setRows(rows: Record<string, any>[], firstIndex: number = 0) {
+        this.rows = rows;
+        this.firstIndex = firstIndex;
+        this.expanded.clear();
+        this.extraHeights.clear();
+        this.focusRow = 0;
+        this.message.innerHTML = '';
+        this.message.className = 'data-grid-message';
+        this.sortRows();
+        this.el.scrollTop = 0;
+        this.render();
+    }
+
+    // replace the rows with a message, i.e. to explain why there aren't any.
+    showMessage(classes: string[], content: Content) {
+        this.setRows([]);
+        this.message.classList.add(...classes);
+        this.message.appendChild(div([], content));
+    }
+
+    private get columnTemplate() {
+        return [DataGrid.indexColumnWidth, ...this.columns.map(col => col.width)].map(width => `${width}px`).join(' ');
+    }
+
+    private get totalWidth() {
+        return this.columns.reduce((total, col) => total + col.width, DataGrid.indexColumnWidth);
+    }
+
+    private renderHeader() {
+        this.header.innerHTML = '';
+        this.header.style.gridTemplateColumns = this.columnTemplate;
+        this.header.style.width = `${this.totalWidth}px`;
+
+        this.header.appendChild(
+            div(['data-grid-cell', 'index'], ['#']).attr('title', 'Original order').click(() => this.sort(undefined))
+        );
+
+        this.columns.forEach(column => {
+            const field = column.field;
+            const sorted = this.sortBy && this.sortBy.column === field.name ? (this.sortBy.descending ? ' ↓' : ' ↑') : '';
+            const resizer = span(['resizer'], []);
+            const cell = div(['data-grid-cell'], [
+                span(['name'], [field.name]),
+                span(['type'], [`: ${field.dataType.typeName()}`]),
+                span(['sort'], [sorted]),
+                resizer
+            ]).attr('title', `${field.name}: ${field.dataType.typeName()}`).attr('draggable', 'true');
+
+            if (!isNested(field.dataType)) {
+                cell.classList.add('sortable');
+                cell.click(() => {
+                    const descending = !!this.sortBy && this.sortBy.column === field.name && !this.sortBy.descending;
+                    this.sort({column: field.name, descending});
+                });
+            }
+
+            resizer.addEventListener('mousedown', (evt: MouseEvent) => this.resize(evt, column, cell));
+            resizer.addEventListener('click', evt => evt.stopPropagation());
+
+            cell.addEventListener('dragstart', (evt: DragEvent) => {
+                this.dragging = column;
+                evt.dataTransfer?.setData('text/plain', field.name);
+            });
+            cell.addEventListener('dragend', () => this.dragging = undefined);
+            cell.addEventListener('dragover', (evt: DragEvent) => {
+                if (this.dragging && this.dragging !== column) {
+                    evt.preventDefault();
+                }
+            });
+            cell.addEventListener('drop', (evt: DragEvent) => {
+                evt.preventDefault();
+                if (this.dragging && this.dragging !== column) {
+                    this.moveColumn(this.dragging, this.columns.indexOf(column));
+                }
+                this.dragging = undefined;
+            });
+
+            this.header.appendChild(cell);
+        });
+    }
+
+    private resize(evt: MouseEvent, column: Column, cell: HTMLElement) {
+        evt.preventDefault();
+        evt.stopPropagation();
+        cell.draggable = false;
+
+        const startX = evt.clientX;
+        const startWidth = column.width;
+        const onMove = (evt: MouseEvent) => {
+            column.width = Math.max(DataGrid.minColumnWidth, startWidth + evt.clientX - startX);
+            this.header.style.gridTemplateColumns = this.columnTemplate;
+            this.header.style.width = `${this.totalWidth}px`;
+            this.scheduleRender();
+        };
+        const onUp = () => {
+            document.removeEventListener('mousemove', onMove);
+            document.removeEventListener('mouseup', onUp);
+            this.renderHeader();
+        };
+
+        document.addEventListener('mousemove', onMove);
+        document.addEventListener('mouseup', onUp);
+    }
+
+    private moveColumn(column: Column, index: number) {
+        const focused = this.columns[this.focusColumn];
+        this.columns.splice(this.columns.indexOf(column), 1);
+        this.columns.splice(index, 0, column);
+        this.focusColumn = this.columns.indexOf(focused);
+        this.renderHeader();
+        this.render();
+    }
+
+    private sort(sortBy?: { column: string, descending: boolean }) {
+        this.sortBy = sortBy;
+        this.sortRows();
+        this.renderHeader();
+        this.render();
+    }
+
+    private sortRows() {
+        this.order = this.rows.map((_, index) => index);
+        const sortBy = this.sortBy;
+        if (sortBy) {
+            const sign = sortBy.descending ? -1 : 1;
+            this.order.sort((a, b) => sign * compareValues(this.rows[a][sortBy.column], this.rows[b][sortBy.column]));
+        }
+        this.updateExtras();
+    }
+
+    private updateExtras() {
+        const positions = new Map(this.order.map((row, position) => [row, position]));
+        this.extras = [...this.extraHeights]
+            .filter(([_, extra]) => extra > 0)
+            .map(([row, extra]) => [positions.get(row)!, extra] as [number, number])
+            .sort(([a], [b]) => a - b);
+    }
+
+    // the offset of the row at the given position from the top of the rows.
+    private offsetOf(position: number): number {
+        let offset = position * this.rowHeight;
+        for (const [index, extra] of this.extras) {
+            if (index >= position) {
+                break;
+            }
+            offset += extra;
+        }
+        return offset;
+    }
+
+    // the position of the row at the given offset from the top of the rows.
+    private positionAt(offset: number): number {
+        let extras = 0;
+        for (const [index, extra] of this.extras) {
+            const top = index * this.rowHeight + extras;
+            if (offset < top) {
+                break;
+            }
+            if (offset < top + this.rowHeight + extra) {
+                return index;
+            }
+            extras += extra;
+        }
+        return Math.floor((offset - extras) / this.rowHeight);
+    }
+
+    private get viewHeight(): number {
+        // a grid which isn't displayed yet has no height, so render a reasonable number of rows for when it is.
+        return (this.el.clientHeight - this.header.offsetHeight) || this.rowHeight * 2 * DataGrid.overscan;
+    }
+
+    private scheduleRender() {
+        if (!this.renderPending) {
+            this.renderPending = true;
+            window.requestAnimationFrame(() => {
+                this.renderPending = false;
+                this.render();
+            });
+        }
+    }
+
+    private render(remeasure: boolean = true) {
+        const count = this.order.length;
+        const top = this.el.scrollTop;
+        const first = Math.max(0, this.positionAt(top) - DataGrid.overscan);
+        const last = Math.min(count, this.positionAt(top + this.viewHeight) + DataGrid.overscan + 1);
+
+        this.canvas.innerHTML = '';
+        this.canvas.style.height = `${this.offsetOf(count)}px`;
+        this.canvas.style.width = `${this.totalWidth}px`;
+
+        const rendered: [number, HTMLElement][] = [];
+        for (let position = first; position < last; position++) {
+            const rowEl = this.renderRow(position);
+            rowEl.style.top = `${this.offsetOf(position)}px`;
+            this.canvas.appendChild(rowEl);
+            rendered.push([this.order[position], rowEl]);
+        }
+
+        // the heights of rows depend on the styles (and on what's expanded in them), so they're measured once they're rendered.
+        let changed = false;
+        rendered.forEach(([row, rowEl]) => {
+            const height = rowEl.offsetHeight;
+            if (!height) {
+                return;
+            }
+            if (!this.extraHeights.has(row)) {
+                if (height !== this.rowHeight) {
+                    this.rowHeight = height;
+                    changed = true;
+                }
+            } else if (this.extraHeights.get(row) !== height - this.rowHeight) {
+                this.extraHeights.set(row, height - this.rowHeight);
+                changed = true;
+            }
+        });
+
+        if (changed && remeasure) {
+            this.updateExtras();
+            this.render(false);
+        }
+    }
+
+    private renderRow(position: number): HTMLElement {
+        const rowIndex = this.order[position];
+        const row = this.rows[rowIndex];
+        const expansions: HTMLElement[] = [];
+
+        const cells = div(['data-grid-cells'], [
+            div(['data-grid-cell', 'index'], [(this.firstIndex + rowIndex + 1).toString()]),
+            ...this.columns.map((column, columnIndex) => {
+                const field = column.field;
+                const value = row[field.name];
+                const cell = div(['data-grid-cell'], [renderValue(value)]).click(() => this.focus(position, columnIndex));
+                if (position === this.focusRow && columnIndex === this.focusColumn) {
+                    cell.classList.add('focused');
+                }
+
+                if (isNested(field.dataType) && value !== null && value !== undefined) {
+                    const expansion = this.expanded.get(`${rowIndex}:${field.name}`);
+                    cell.classList.add('nested');
+                    cell.classList.toggle('expanded', !!expansion);
+                    cell.click(() => this.toggleExpanded(position, field.name));
+                    if (expansion) {
+                        expansions.push(expansion);
+                    }
+                }
+                return cell;
+            })
+        ]);
+        cells.style.gridTemplateColumns = this.columnTemplate;
+
+        return div(['data-grid-row'], [cells, ...expansions]);
+    }
+
+    private toggleExpanded(position: number, column: string) {
+        const rowIndex = this.order[position];
+        const key = `${rowIndex}:${column}`;
+        if (this.expanded.has(key)) {
+            this.expanded.delete(key);
+        } else {
+            // the display is kept while it's expanded, so that re-rendering the row doesn't collapse what's open in it.
+            const expansion = div(['data-grid-expanded'], [displayData(this.rows[rowIndex][column], column, 1)]);
+            expansion.addEventListener('toggle', () => this.scheduleRender(), true); // a nested value was opened or closed
+            this.expanded.set(key, expansion);
+        }
+
+        if ([...this.expanded.keys()].some(key => key.startsWith(`${rowIndex}:`))) {
+            this.extraHeights.set(rowIndex, this.extraHeights.get(rowIndex) || 0);
+        } else {
+            this.extraHeights.delete(rowIndex);
+        }
+        this.updateExtras();
+        this.render();
+    }
+
+    private focus(position: number, column: number) {
+        this.focusRow = Math.max(0, Math.min(this.order.length - 1, position));
+        this.focusColumn = Math.max(0, Math.min(this.columns.length - 1, column));
+        this.scrollToFocus();
+        this.render();
+    }
+
+    private scrollToFocus() {
+        const top = this.offsetOf(this.focusRow);
+        const bottom = this.offsetOf(this.focusRow + 1);
+        if (top < this.el.scrollTop) {
+            this.el.scrollTop = top;
+        } else if (bottom > this.el.scrollTop + this.viewHeight) {
+            this.el.scrollTop = bottom - this.viewHeight;
+        }
+
+        const left = this.columns.slice(0, this.focusColumn).reduce((total, col) => total + col.width, DataGrid.indexColumnWidth);
+        const right = left + (this.columns[this.focusColumn]?.width ?? 0);
+        if (left - DataGrid.indexColumnWidth < this.el.scrollLeft) {
+            this.el.scrollLeft = left - DataGrid.indexColumnWidth;
+        } else if (right > this.el.scrollLeft + this.el.clientWidth) {
+            this.el.scrollLeft = right - this.el.clientWidth;
+        }
+    }
+
+    private onKey(evt: KeyboardEvent) {
+        if (!this.order.length) {
+            return;
+        }
+
+        const pageRows = Math.max(1, Math.floor(this.viewHeight / this.rowHeight) - 1);
+        switch (evt.key) {
+            case 'ArrowUp':    this.focus(this.focusRow - 1, this.focusColumn); break;
+            case 'ArrowDown':  this.focus(this.focusRow + 1, this.focusColumn); break;
+            case 'ArrowLeft':  this.focus(this.focusRow, this.focusColumn - 1); break;
+            case 'ArrowRight': this.focus(this.focusRow, this.focusColumn + 1); break;
+            case 'PageUp':     this.focus(this.focusRow - pageRows, this.focusColumn); break;
+            case 'PageDown':   this.focus(this.focusRow + pageRows, this.focusColumn); break;
+            case 'Home':       evt.ctrlKey ? this.focus(0, this.focusColumn) : this.focus(this.focusRow, 0); break;
+            case 'End':        evt.ctrlKey ? this.focus(this.order.length - 1, this.focusColumn) : this.focus(this.focusRow, this.columns.length - 1); break;
+            case 'Enter': {
+                const field = this.columns[this.focusColumn]?.field;
+                if (field && isNested(field.dataType)) {
+                    this.toggleExpanded(this.focusRow, field.name);
+                }
+                break;
+            }
+            default:
+                return;
+        }
+        evt.preventDefault();
+    }
+}
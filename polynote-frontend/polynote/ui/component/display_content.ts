@@ -1,65 +1,46 @@
 "use strict";
 
 import * as monaco from "monaco-editor";
-import * as katex from "katex";
-import {Content, details, div, span, tag, TagElement} from "../util/tags";
-import {ArrayType, DataType, MapType, OptionalType, StructField, StructType} from "../../data/data_type";
-
-export function displayContent(contentType: string, content: string | DocumentFragment, contentTypeArgs?: Record<string, string>): Promise<TagElement<any>> {
+import {Content, details, div, h4, iconButton, span, tag, TagElement} from "../util/tags";
+import {ArrayType, DataType, DateValue, MapType, OptionalType, StructField, StructType} from "../../data/data_type";
+import {ResultValue} from "../../data/result";
+import {DataRepr, MIMERepr, StreamingDataRepr, UpdatingDataRepr} from "../../data/value_repr";
+import {DataReader} from "../../data/codec";
+import {CodeCell} from "./cell";
+import {ValueInspector} from "./value_inspector";
+import {displayLiveData, LiveValue} from "./live_value";
+import {byRendererPriority, mimeRendererFor} from "./mime_renderers";
+
+/**
+ * Displays some content of the given type, with its MIMERenderer. Unless the content is trusted, anything which could
+ * run scripts is displayed in a sandboxed frame; content which Polynote built itself (i.e. a DocumentFragment) is always
+ * trusted.
+ */
+export function displayContent(contentType: string, content: string | DocumentFragment, contentTypeArgs?: Record<string, string>, trusted: boolean = false): Promise<TagElement<any>> {
     const [mimeType, args] = contentTypeArgs ? [contentType, contentTypeArgs] : parseContentType(contentType);
 
-    let result;
-    if (mimeType === "text/html" || mimeType === "image/svg" || mimeType === "image/svg+xml" || content instanceof DocumentFragment) {
+    if (content instanceof DocumentFragment) {
         const node = div(['htmltext'], []);
-        if (content instanceof DocumentFragment) {
-            node.appendChild(content);
-        } else {
-            node.innerHTML = content;
-        }
-        result = Promise.resolve(node);
-    } else if (mimeType === "text/plain") {
-        if (args.lang) {
-            result = monaco.editor.colorize(content, args.lang, {}).then(html => {
-                const node = (span(['plaintext', 'colorized'], []) as TagElement<"span", HTMLSpanElement & {"data-lang": string}>).attr('data-lang', args.lang);
-                node.innerHTML = html;
-                return node
-            });
-        } else {
-            result = Promise.resolve(span(['plaintext'], [document.createTextNode(content)]));
-        }
+        node.appendChild(content);
+        return Promise.resolve(node);
+    }
 
-    } else if (mimeType === "application/x-latex" || mimeType === "application/latex") {
-        const node = div([], []);
-        katex.render(content, node, { displayMode: true, throwOnError: false });
-        result = Promise.resolve(node);
-    } else if (mimeType.startsWith("image/")) {
-        const img = document.createElement('img');
-        img.setAttribute('src', `data:${mimeType};base64,${content}`);
-        result = Promise.resolve(img);
-    } else {
-        // what could it be? As a last resort we can just shove it in a data URL in an iframe and maybe the browser will deal with it?
-        // we assume it's base64 encoded.
-        const iframe = document.createElement('iframe');
-        iframe.className = 'unknown-content';
-        iframe.setAttribute("src", `data:${mimeType};base64,${content}`);
-        result = Promise.resolve(iframe);
+    const renderer = mimeRendererFor(mimeType);
+    if (renderer) {
+        return renderer.render(content, mimeType, args, trusted);
     }
 
-    return result;
+    // what could it be? As a last resort we can just shove it in a data URL in an iframe and maybe the browser will deal with it?
+    // we assume it's base64 encoded.
+    const iframe = document.createElement('iframe');
+    iframe.className = 'unknown-content';
+    iframe.setAttribute("src", `data:${mimeType};base64,${content}`);
+    return Promise.resolve(iframe as TagElement<any>);
 }
 
 export function contentTypeName(contentType: string) {
     const [mime, args] = parseContentType(contentType);
-
-    switch (mime) {
-        case "text/plain": return "Text";
-        case "text/html": return "HTML";
-        case "image/svg": return "SVG";
-        case "image/svg+xml": return "SVG";
-        default:
-            if (mime.startsWith("image/")) return "Image";
-            return mime;
-    }
+    return mimeRendererFor(mime)?.name ?? mime;
 }
 
 export function parseContentType(contentType: string): [string, Record<string, string>] {
@@ -85,16 +66,25 @@ export function truncate(string: any, len?: number) {
     return string;
 }
 
+/**
+ * Format a date (or timestamp) value in the user's locale and timezone.
+ */
+export function formatDate(date: Date): string {
+    return date instanceof DateValue ? date.toLocaleDateString() : date.toLocaleString();
+}
+
 export function displayData(data: any, fieldName?: string, expandObjects: boolean | number = false) {
     const expandNext: boolean | number = typeof(expandObjects) === "number" ? (expandObjects > 0 ? expandObjects - 1 : false) : expandObjects;
 
     function shortDisplay(data: any) {
         if (data instanceof Array) {
             return span(['short-array'], ['Array(', data.length.toString(), ')']);
-        } else if (typeof data === "number") {
+        } else if (typeof data === "number" || typeof data === "bigint") {
             return span(['number'], [truncate(data.toString())]);
         } else if (typeof data === "boolean") {
             return span(['boolean'], [data.toString()]);
+        } else if (data instanceof Date) {
+            return span(['date'], [formatDate(data)]);
         } else if (typeof data === "object" && !(data instanceof String)) {
             return span(['short-object'], ['{…}']);
         } else {
@@ -135,6 +125,12 @@ export function displayData(data: any, fieldName?: string, expandObjects: boolea
             fields.appendChild(tag('li', [], {}, [displayData(val, key, expandNext)]));
         }
         return details;
+    } else if (data instanceof Date) {
+        const result = span(['date'], [formatDate(data)]);
+        if (fieldName) {
+            return span(['object-field'], [span(['field-name'], [fieldName]), result]);
+        }
+        return result;
     } else if (data && typeof data === "object" && !(data instanceof String)) {
         const keys = Object.keys(data);
         const summarySpan = span(['summary-content'], []);
@@ -162,6 +158,7 @@ export function displayData(data: any, fieldName?: string, expandObjects: boolea
         if (data !== null && data !== undefined) {
             switch (typeof data) {
                 case "number": result = span(['number'], [truncate(data.toString())]); break;
+                case "bigint": result = span(['number'], [data.toString()]); break; // a 64-bit integer is always shown exactly
                 case "boolean": result = span(['boolean'], [data.toString()]); break;
                 default: result = span(['string'], [data.toString()]);
             }
@@ -270,4 +267,92 @@ export function displaySchema(structType: StructType): HTMLElement {
             [span(['object-summary', 'schema-summary'], [span(['summary-content', 'object-field-summary'], [truncate(structType.fields.map(f => f.name).join(", "), 64)])])],
             [tag("ul", ['object-fields'], {}, structType.fields.map(displayField))]).attr('open', 'open')
     ]);
-}
\ No newline at end of file
+}
+
+/**
+ * Get a default MIME type and string for displaying a result value. If the display is live, there's also a function
+ * which stops it updating – which must be called once it's no longer displayed.
+ */
+export function displayResultValue(result: ResultValue, cell: CodeCell, valueInspector: ValueInspector): Promise<[string, string | DocumentFragment, (() => void)?]> {
+    // We're searching for the best MIME type and representation for this result by going in order of most to least
+    // useful (kind of arbitrarily defined...)
+    // TODO: for lazy data repr, inform that it can't be displayed immediately
+
+    let index = -1;
+
+    // First, check to see if there's an UpdatingDataRepr, which is displayed live (re-rendering as it changes)
+    index = result.reprs.findIndex(repr => repr instanceof UpdatingDataRepr);
+    if (index >= 0) {
+        return monaco.editor.colorize(result.typeName, "scala", {}).then(typeHTML => {
+            const live = LiveValue.get(result.reprs[index] as UpdatingDataRepr, cell.notebook);
+            const frag = document.createDocumentFragment();
+            const resultType = span(['result-type'], []).attr("data-lang" as any, "scala");
+            resultType.innerHTML = typeHTML;
+            const [liveEl, unsubscribe] = displayLiveData(live, result.valueText || 'Waiting for a value…');
+            frag.appendChild(div([], [
+                h4(['result-name-and-type'], [span(['result-name'], [result.name]), ': ', resultType]),
+                liveEl
+            ]));
+            return ["text/html", frag, unsubscribe];
+        })
+    }
+
+    // Next, check to see if there's a special DataRepr or StreamingDataRepr
+    index = result.reprs.findIndex(repr => repr instanceof DataRepr);
+    if (index >= 0) {
+        return monaco.editor.colorize(result.typeName, "scala", {}).then(typeHTML => {
+            const dataRepr = result.reprs[index] as DataRepr;
+            const frag = document.createDocumentFragment();
+            const resultType = span(['result-type'], []).attr("data-lang" as any, "scala");
+            resultType.innerHTML = typeHTML;
+            frag.appendChild(div([], [
+                h4(['result-name-and-type'], [span(['result-name'], [result.name]), ': ', resultType]),
+                displayData(dataRepr.dataType.decodeBuffer(new DataReader(dataRepr.data)), undefined, 1)
+            ]));
+            return ["text/html", frag];
+        })
+    }
+
+    index = result.reprs.findIndex(repr => repr instanceof StreamingDataRepr);
+    if (index >= 0) {
+        const repr = result.reprs[index] as StreamingDataRepr;
+        // surprisingly using monaco.editor.colorizeElement breaks the theme of the whole app! WAT?
+        return monaco.editor.colorize(result.typeName, cell.language, {}).then(typeHTML => {
+            const streamingRepr = result.reprs[index] as StreamingDataRepr;
+            const frag = document.createDocumentFragment();
+            const resultType = span(['result-type'], []).attr("data-lang" as any, "scala");
+            resultType.innerHTML = typeHTML;
+            // Why do they put a <br> in there?
+            [...resultType.getElementsByTagName("br")].forEach(br => {
+                br?.parentNode?.removeChild(br)
+            });
+
+            const el = div([], [
+                h4(['result-name-and-type'], [
+                    span(['result-name'], [result.name]), ': ', resultType,
+                    iconButton(['view-data'], 'View data', 'table', '[View]')
+                        .click(_ => valueInspector.inspect(result, cell.notebook, 'View data')),
+                    repr.dataType instanceof StructType
+                        ? iconButton(['plot-data'], 'Plot data', 'chart-bar', '[Plot]')
+                            .click(_ => {
+                                valueInspector.setParent(cell);
+                                valueInspector.inspect(result, cell.notebook, 'Plot data');
+                            })
+                        : undefined
+                ]),
+                repr.dataType instanceof StructType ? displaySchema(streamingRepr.dataType) : undefined
+            ]);
+            frag.appendChild(el);
+            return ["text/html", frag];
+        })
+    }
+
+    // next, if there are MIMEReprs, the one with the highest priority renderer
+    const mimeReprs = byRendererPriority(
+        result.reprs.filter(repr => repr instanceof MIMERepr) as MIMERepr[],
+        repr => parseContentType(repr.mimeType)[0]);
+    if (mimeReprs.length) return Promise.resolve(MIMERepr.unapply(mimeReprs[0]));
+
+    // just give up and show some plaintext...
+    return Promise.resolve(["text/plain", result.valueText]);
+}
@@ -0,0 +1,73 @@
+"use strict";
+
+import {button, div, dropdown, DropdownElement, span, tag, TagElement} from "../util/tags";
+import {DataStream} from "../../data/value_repr";
+import {DataExport, ExportFormat, exportFormats} from "../../data/export";
+import * as messages from "../../data/messages";
+import {MainUI} from "./ui";
+
+/**
+ * Exports the data of a stream to a file, which is downloaded once all of the data has been received. A new stream is
+ * made (with mkStream) for each export, so it has whichever modifications apply at the time.
+ */
+export class ExportControls {
+    readonly el: TagElement<"div">;
+    private formatInput: DropdownElement;
+    private exportButton: TagElement<"button">;
+    private cancelButton: TagElement<"button">;
+    private progress: TagElement<"progress">;
+    private status: TagElement<"span">;
+    private current?: DataExport;
+
+    constructor(private readonly mkStream: () => DataStream, private readonly fileName: string) {
+        const formats: Record<string, string> = {};
+        Object.entries(exportFormats).forEach(([format, {name}]) => formats[format] = name);
+
+        this.el = div(['export-controls'], [
+            this.formatInput = dropdown(['format'], formats),
+            this.exportButton = button(['export'], {title: 'Download all of the data'}, ['Export']).click(() => this.start()),
+            this.progress = tag('progress', [], {}, []),
+            this.cancelButton = button(['cancel'], {}, ['Cancel']).click(() => this.current?.cancel()),
+            this.status = span(['status'], [])
+        ]);
+    }
+
+    private start() {
+        if (this.current) {
+            return;
+        }
+
+        const format = this.formatInput.getSelectedValue() as ExportFormat;
+        const dataExport = this.current = new DataExport(this.mkStream(), format);
+        this.el.classList.add('running');
+        this.progress.removeAttribute('value'); // indeterminate until the first batch
+        this.status.innerText = 'Exporting…';
+
+        dataExport.run((rowCount, knownSize) => this.showProgress(rowCount, knownSize)).then(blob => {
+            const url = URL.createObjectURL(blob);
+            MainUI.browserDownload(url, `${this.fileName}.${exportFormats[format].extension}`);
+            window.setTimeout(() => URL.revokeObjectURL(url), 0);
+            this.status.innerText = `Exported ${dataExport.rowCount} rows`;
+        }).catch(err => {
+            if (dataExport.cancelled) {
+                this.status.innerText = 'Export cancelled';
+            } else {
+                const message = err instanceof messages.Error ? err.error.message : err instanceof Error ? err.message : `${err}`;
+                this.status.innerText = `Export failed: ${message}`;
+            }
+        }).then(() => {
+            this.current = undefined;
+            this.el.classList.remove('running');
+        });
+    }
+
+    private showProgress(rowCount: number, knownSize?: number) {
+        if (knownSize) {
+            this.progress.max = knownSize;
+            this.progress.value = Math.min(rowCount, knownSize);
+            this.status.innerText = `Exported ${rowCount} of ${knownSize} rows`;
+        } else {
+            this.status.innerText = `Exported ${rowCount} rows`;
+        }
+    }
+}
@@ -0,0 +1,319 @@
+"use strict";
+
+import {button, div, iconButton, span, tag, TagElement, textbox} from "../util/tags";
+import {truncate} from "./display_content";
+
+export type JsonPath = (string | number)[];
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Formats a path in the way it would be written in JavaScript, e.g. `a.b[3].c` or `a["some key"]`.
+ */
+export function formatPath(path: JsonPath): string {
+    return path.map((key, i) => {
+        if (typeof key === 'number') {
+            return `[${key}]`;
+        } else if (identifier.test(key)) {
+            return i ? `.${key}` : key;
+        }
+        return `[${JSON.stringify(key)}]`;
+    }).join('');
+}
+
+function pathKey(path: JsonPath): string {
+    return JSON.stringify(path);
+}
+
+function isContainer(value: any): boolean {
+    return value !== null && typeof value === 'object';
+}
+
+// a primitive value, with the same classes as displayData uses (so that it looks the same)
+function primitive(value: any): TagElement<"span"> {
+    if (value === null) {
+        return span(['null'], ['null']);
+    } else if (typeof value === 'number') {
+        return span(['number'], [value.toString()]);
+    } else if (typeof value === 'boolean') {
+        return span(['boolean'], [value.toString()]);
+    }
+    return span(['string'], [`${value}`]);
+}
+
+// a short display of a value, for the summary of the object which contains it
+function shortDisplay(value: any): TagElement<"span"> {
+    if (value instanceof Array) {
+        return span(['short-array'], [`Array(${value.length})`]);
+    } else if (isContainer(value)) {
+        return span(['short-object'], ['{…}']);
+    } else if (typeof value === 'string') {
+        return span(['string'], [truncate(value)]);
+    }
+    return primitive(value);
+}
+
+/**
+ * A collapsible tree of a JSON value, which looks like the display of a value's data (see `displayData`).
+ *
+ * Nodes are only rendered when they're expanded, and the elements of large arrays are grouped into chunks (which are
+ * also rendered when they're expanded) – so that a huge value doesn't have to be rendered all at once. The keys and
+ * values can be searched; each match is expanded when it's visited. Clicking a node selects it, so that its path can be
+ * copied. The tree can be switched to the raw JSON, too.
+ */
+export class JsonTree {
+    static chunkSize = 100;
+
+    readonly el: TagElement<"div">;
+    private nodesEl: TagElement<"div">;
+    private rawEl: TagElement<"div">;
+    private searchInput: TagElement<"input">;
+    private matchCount: TagElement<"span">;
+    private pathEl: TagElement<"span">;
+    private copyButton: TagElement<"button">;
+
+    private nodes = new Map<string, HTMLElement>();             // the rendered nodes, by the key of their path.
+    private chunks = new Map<string, [number, number, HTMLDetailsElement][]>(); // the rendered chunks of each array, by its path's key.
+    private unrendered = new Map<HTMLElement, () => void>();    // renders the children of a node, if they haven't been yet.
+    private selected?: [JsonPath, HTMLElement];
+
+    private matches: JsonPath[] = [];
+    private matchKeys = new Set<string>();
+    private currentMatch = -1;
+
+    constructor(readonly json: any, readonly text: string = JSON.stringify(json)) {
+        const prevButton = iconButton(['search-prev'], 'Previous match (Shift+Enter)', 'arrow-up', 'Previous');
+        const nextButton = iconButton(['search-next'], 'Next match (Enter)', 'arrow-down', 'Next');
+        const rawButton = button(['show-raw'], {title: 'Switch between the tree and the raw JSON'}, ['Raw']);
+
+        this.el = div(['json-tree'], [
+            div(['json-tree-toolbar'], [
+                div(['search'], [
+                    this.searchInput = textbox(['search-json'], 'Search keys and values'),
+                    this.matchCount = span(['match-count'], []),
+                    prevButton,
+                    nextButton
+                ]),
+                rawButton
+            ]),
+            this.nodesEl = div(['json-tree-nodes', 'object-display'], []),
+            this.rawEl = div(['json-tree-raw'], [text]),
+            div(['json-tree-path'], [
+                this.pathEl = span(['path'], []),
+                this.copyButton = button(['copy-path'], {title: 'Copy the path of the selected node'}, ['Copy path'])
+                    .click(() => this.copyPath())
+            ])
+        ]);
+        this.copyButton.disabled = true;
+
+        this.searchInput.addEventListener('input', () => this.search(this.searchInput.value));
+        this.searchInput.addEventListener('keydown', (evt: KeyboardEvent) => {
+            if (evt.key === 'Enter') {
+                evt.preventDefault();
+                this.nextMatch(evt.shiftKey ? -1 : 1);
+            }
+        });
+        this.searchInput.addEventListener('Cancel', () => this.search(this.searchInput.value = ''));
+        prevButton.click(() => this.nextMatch(-1));
+        nextButton.click(() => this.nextMatch(1));
+        rawButton.click(() => {
+            const raw = this.el.classList.toggle('raw');
+            rawButton.textContent = raw ? 'Tree' : 'Raw';
+        });
+
+        const root = this.renderNode(json, []);
+        this.nodesEl.appendChild(root);
+        if (root instanceof HTMLDetailsElement) {
+            this.expand(root);
+        }
+    }
+
+    private renderNode(value: any, path: JsonPath): HTMLElement {
+        const name = path.length ? path[path.length - 1] : undefined;
+        const fieldName = name !== undefined ? [span(['field-name'], [name.toString()])] : [];
+
+        let node: HTMLElement;
+        if (value instanceof Array) {
+            const summary = tag('summary', ['array-summary'], {}, [...fieldName, `Array(${value.length})`]);
+            node = this.lazyDetails(['array-display'], summary, children => this.renderElements(children, value, path, 0, value.length), path);
+        } else if (isContainer(value)) {
+            const summaryContent = span(['summary-content'], []);
+            for (const key of Object.keys(value)) {
+                if (summaryContent.textContent && summaryContent.textContent.length > 64) {
+                    summaryContent.classList.add('truncated');
+                    break;
+                }
+                summaryContent.appendChild(shortDisplay(value[key]));
+            }
+            const summary = tag('summary', ['object-summary'], {}, [...fieldName, summaryContent]);
+            node = this.lazyDetails(['object-display'], summary, children => {
+                Object.keys(value).forEach(key => children.appendChild(tag('li', [], {}, [this.renderNode(value[key], [...path, key])])));
+            }, path);
+        } else {
+            node = span(['object-field'], [...fieldName, primitive(value)]);
+            node.addEventListener('click', () => this.select(path, node));
+        }
+
+        node.classList.add('json-node');
+        if (this.matchKeys.has(pathKey(path))) {
+            node.classList.add('search-match');
+        }
+        this.nodes.set(pathKey(path), node);
+        return node;
+    }
+
+    // renders the elements [from, until) of an array – in chunks, if there are too many of them.
+    private renderElements(children: HTMLElement, array: any[], path: JsonPath, from: number, until: number) {
+        const chunkSize = JsonTree.chunkSize;
+        if (until - from <= chunkSize) {
+            for (let i = from; i < until; i++) {
+                children.appendChild(tag('li', [], {}, [this.renderNode(array[i], [...path, i])]));
+            }
+            return;
+        }
+
+        // large arrays are split into chunks of chunkSize, or of chunks (of chunks…) of chunkSize, so no level has too many.
+        let size = chunkSize;
+        while ((until - from) / size > chunkSize) {
+            size *= chunkSize;
+        }
+        for (let start = from; start < until; start += size) {
+            const end = Math.min(start + size, until);
+            const summary = tag('summary', ['array-summary', 'array-chunk'], {}, [`[${start} … ${end - 1}]`]);
+            const chunk = this.lazyDetails(['array-display'], summary, chunkChildren => this.renderElements(chunkChildren, array, path, start, end));
+            const key = pathKey(path);
+            this.chunks.set(key, [...(this.chunks.get(key) || []), [start, end, chunk]]);
+            children.appendChild(tag('li', [], {}, [chunk]));
+        }
+    }
+
+    // a <details> element, whose children are only rendered once it's expanded. If it's a node (rather than a chunk of an
+    // array), clicking it selects it.
+    private lazyDetails(classes: string[], summary: TagElement<"summary">, renderChildren: (children: HTMLElement) => void, path?: JsonPath): TagElement<"details"> {
+        const children = tag('ul', classes[0] === 'array-display' ? ['array-elements'] : ['object-fields'], {}, []);
+        const details = tag('details', classes, {}, [summary, children]);
+        this.unrendered.set(details, () => renderChildren(children));
+        details.addEventListener('toggle', () => {
+            if (details.open) {
+                this.expand(details);
+            }
+        });
+        if (path) {
+            summary.addEventListener('click', () => this.select(path, details));
+        }
+        return details;
+    }
+
+    private expand(details: HTMLDetailsElement) {
+        const render = this.unrendered.get(details);
+        if (render) {
+            this.unrendered.delete(details);
+            render();
+        }
+        details.open = true;
+    }
+
+    private select(path: JsonPath, node: HTMLElement) {
+        this.selected?.[1].classList.remove('selected');
+        this.selected = [path, node];
+        node.classList.add('selected');
+        this.pathEl.textContent = path.length ? formatPath(path) : '(root)';
+        this.copyButton.disabled = !path.length;
+    }
+
+    private copyPath() {
+        if (this.selected) {
+            navigator.clipboard.writeText(formatPath(this.selected[0])).catch(err => console.error("Unable to copy path", err));
+        }
+    }
+
+    // the paths of the nodes whose key or (primitive) value contains the query, in the order they're displayed
+    private findMatches(query: string): JsonPath[] {
+        const matches: JsonPath[] = [];
+        const contains = (value: any) => `${value}`.toLowerCase().indexOf(query) >= 0;
+        const visit = (value: any, path: JsonPath) => {
+            const key = path[path.length - 1];
+            if ((typeof key === 'string' && contains(key)) || (!isContainer(value) && contains(value))) {
+                matches.push(path);
+            }
+            if (value instanceof Array) {
+                value.forEach((elem, i) => visit(elem, [...path, i]));
+            } else if (isContainer(value)) {
+                Object.keys(value).forEach(key => visit(value[key], [...path, key]));
+            }
+        };
+        visit(this.json, []);
+        return matches;
+    }
+
+    private search(query: string) {
+        this.matchKeys.forEach(key => this.nodes.get(key)?.classList.remove('search-match', 'current'));
+        this.matches = query ? this.findMatches(query.toLowerCase()) : [];
+        this.matchKeys = new Set(this.matches.map(pathKey));
+        this.matchKeys.forEach(key => this.nodes.get(key)?.classList.add('search-match'));
+        this.currentMatch = -1;
+
+        if (this.matches.length) {
+            this.nextMatch(1);
+        } else {
+            this.matchCount.textContent = query ? 'No matches' : '';
+        }
+    }
+
+    // moves to the next (or previous) match, expanding the nodes which contain it and scrolling it into view.
+    private nextMatch(direction: 1 | -1) {
+        const count = this.matches.length;
+        if (!count) {
+            return;
+        }
+
+        const previous = this.matches[this.currentMatch];
+        if (previous) {
+            this.nodes.get(pathKey(previous))?.classList.remove('current');
+        }
+        this.currentMatch = this.currentMatch < 0 && direction < 0 ? count - 1 : (this.currentMatch + direction + count) % count;
+        this.matchCount.textContent = `${this.currentMatch + 1} of ${count}`;
+
+        const path = this.matches[this.currentMatch];
+        const node = this.reveal(path);
+        if (node) {
+            node.classList.add('current');
+            node.scrollIntoView({block: 'nearest'});
+            this.select(path, node);
+        }
+    }
+
+    // expands each of the nodes (and array chunks) which contain the given path, so that its node is rendered.
+    private reveal(path: JsonPath): HTMLElement | undefined {
+        let value = this.json;
+        for (let depth = 0; depth < path.length; depth++) {
+            const parentPath = path.slice(0, depth);
+            const parent = this.nodes.get(pathKey(parentPath));
+            if (!(parent instanceof HTMLDetailsElement)) {
+                return undefined;
+            }
+            this.expand(parent);
+
+            const key = path[depth];
+            if (value instanceof Array && typeof key === 'number') {
+                // expand the chunks which contain the element. Expanding a chunk renders the chunks inside it, so this is
+                // repeated until there are no more of them.
+                let expanded = 0;
+                let chunks = this.chunksContaining(parentPath, key);
+                while (chunks.length > expanded) {
+                    chunks.forEach(chunk => this.expand(chunk));
+                    expanded = chunks.length;
+                    chunks = this.chunksContaining(parentPath, key);
+                }
+            }
+            value = value[key];
+        }
+        return this.nodes.get(pathKey(path));
+    }
+
+    private chunksContaining(arrayPath: JsonPath, index: number): HTMLDetailsElement[] {
+        return (this.chunks.get(pathKey(arrayPath)) || [])
+            .filter(([start, end]) => start <= index && index < end)
+            .map(([start, end, chunk]) => chunk);
+    }
+}
@@ -11,6 +11,8 @@ import {NotebookUI} from "./notebook";
 import {ServerErrorWithCause, ResultValue} from "../../data/result";
 import * as cell from "./cell";
 
+export type KernelState = 'busy' | 'idle' | 'dead' | 'disconnected' | 'reconnecting';
+
 export class KernelUI extends UIMessageTarget {
     private info: KernelInfoUI;
     readonly tasks: KernelTasksUI;
@@ -18,6 +20,8 @@ export class KernelUI extends UIMessageTarget {
     readonly el: TagElement<"div">;
     private statusEl: TagElement<"h2">;
     private status: TagElement<"span">;
+    private reconnectStatus: TagElement<"span">;
+    private reconnectInterval?: number;
     private socket: SocketSession;
     private path: string;
 
@@ -38,6 +42,7 @@ export class KernelUI extends UIMessageTarget {
             this.statusEl = h2(['kernel-status'], [
                 this.status = span(['status'], ['●']),
                 'Kernel',
+                this.reconnectStatus = span(['reconnect-status'], []),
                 notebook && span(['buttons'], [
                     iconButton(['connect'], 'Connect to server', 'plug', 'Connect').click(evt => this.connect(evt)),
                     iconButton(['start'], 'Start kernel', 'power-off', 'Start').click(evt => this.startKernel(evt)),
@@ -52,6 +57,7 @@ export class KernelUI extends UIMessageTarget {
         ]);
 
         this.socket.addEventListener('close', () => this.setKernelState('disconnected'));
+        this.socket.addEventListener('reconnecting', (evt: CustomEvent<{delay: number}>) => this.setKernelState('reconnecting', Date.now() + evt.detail.delay));
 
         this.socket.addMessageListener(messages.Error, (code, err) => this.errorDisplay(code, err));
         SocketSession.global.addMessageListener(messages.Error, (code, err) => this.errorDisplay(code, err));
@@ -122,17 +128,45 @@ export class KernelUI extends UIMessageTarget {
         this.publish(new KernelCommand(this.path, 'kill'));
     }
 
-    setKernelState(state: 'busy' | 'idle' | 'dead' | 'disconnected') {
-        this.statusEl.classList.remove('busy', 'idle', 'dead', 'disconnected');
+    /**
+     * Set the displayed state of the kernel. When the state is 'reconnecting', `reconnectAt` is the time (in epoch
+     * millis) at which the next reconnection attempt will be made, and a countdown to that time is displayed.
+     */
+    setKernelState(state: KernelState, reconnectAt?: number) {
+        this.statusEl.classList.remove('busy', 'idle', 'dead', 'disconnected', 'reconnecting');
+        this.stopReconnectCountdown();
         if (state === 'busy' || state === 'idle' || state === 'dead' || state === 'disconnected') {
             this.statusEl.classList.add(state);
             this.status.title = state;
             if (state === 'dead') {
                 this.info.clearInfo();
             }
+        } else if (state === 'reconnecting') {
+            // 'reconnecting' is a flavor of 'disconnected', so the same buttons apply.
+            this.statusEl.classList.add('disconnected', 'reconnecting');
+            this.startReconnectCountdown(reconnectAt ?? Date.now());
         } else {
-            throw "State must be one of [busy, idle, dead, disconnected]";
+            throw "State must be one of [busy, idle, dead, disconnected, reconnecting]";
+        }
+    }
+
+    private startReconnectCountdown(reconnectAt: number) {
+        const update = () => {
+            const seconds = Math.max(0, Math.ceil((reconnectAt - Date.now()) / 1000));
+            const text = seconds > 0 ? `reconnecting in ${seconds}s` : 'reconnecting…';
+            this.reconnectStatus.textContent = text;
+            this.status.title = text;
+        };
+        update();
+        this.reconnectInterval = window.setInterval(update, 1000);
+    }
+
+    private stopReconnectCountdown() {
+        if (this.reconnectInterval !== undefined) {
+            window.clearInterval(this.reconnectInterval);
+            this.reconnectInterval = undefined;
         }
+        this.reconnectStatus.textContent = '';
     }
 
     collapse(force = false) {
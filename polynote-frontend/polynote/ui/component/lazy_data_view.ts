@@ -0,0 +1,97 @@
+"use strict";
+
+import {button, div, span, tag, TagElement} from "../util/tags";
+import {LazyDataRepr} from "../../data/value_repr";
+import {DataReader} from "../../data/codec";
+import {ReprDataRequest} from "../util/ui_event";
+import * as messages from "../../data/messages";
+import {jsonText} from "../../data/export";
+import {displayData} from "./display_content";
+import {NotebookUI} from "./notebook";
+import {MainUI} from "./ui";
+
+/**
+ * Views a LazyDataRepr – a value which was too large to send along with its result. The value is only requested from
+ * the server when it's viewed or downloaded, and its handle is released when the viewer is disposed (i.e. when the
+ * inspector is closed), after which the value can't be requested again.
+ */
+export class LazyDataView {
+    // the reprs whose handles have been released, so their values can no longer be requested. (Handle IDs are reused
+    // when the kernel restarts, so this is by repr rather than by ID.)
+    private static released = new WeakSet<LazyDataRepr>();
+
+    readonly el: TagElement<"div">;
+    private viewButton: TagElement<"button">;
+    private downloadButton: TagElement<"button">;
+    private status: TagElement<"span">;
+    private content: TagElement<"div">;
+    private value?: Promise<any>;
+
+    constructor(readonly repr: LazyDataRepr, readonly notebook: NotebookUI, readonly name: string) {
+        const size = repr.knownSize ? `${repr.knownSize} bytes` : 'unknown size';
+
+        this.el = div(['lazy-data-view'], [
+            div(['lazy-data-info'], [
+                `The data was too large to transmit (${size}), so it's only loaded when you ask for it.`
+            ]),
+            div(['lazy-data-controls'], [
+                this.viewButton = button(['view'], {}, ['View']).click(() => this.view()),
+                this.downloadButton = button(['download'], {title: 'Download the data as JSON'}, ['Download']).click(() => this.download()),
+                tag('progress', [], {}, []), // shown while the data is loading
+                this.status = span(['status'], [])
+            ]),
+            this.content = div(['lazy-data-content'], [])
+        ]);
+
+        if (LazyDataView.released.has(repr)) {
+            this.viewButton.disabled = this.downloadButton.disabled = true;
+            this.status.innerText = 'The data was released, and is no longer available. Re-run the cell to view it.';
+        }
+    }
+
+    // requests the value (if it hasn't already been requested) and decodes it.
+    private load(): Promise<any> {
+        if (!this.value) {
+            const started = Date.now();
+            this.el.classList.add('loading');
+            this.status.innerText = `Loading ${this.repr.knownSize ? `${this.repr.knownSize} bytes` : 'data'}…`;
+
+            this.value = new Promise<ArrayBuffer[]>((resolve, reject) =>
+                this.notebook.publish(new ReprDataRequest(LazyDataRepr.handleTypeId, this.repr.handle, 1, resolve, reject))
+            ).then(data => {
+                const bytes = data.reduce((total, buf) => total + buf.byteLength, 0);
+                this.status.innerText = `Loaded ${bytes} bytes in ${((Date.now() - started) / 1000).toFixed(1)}s`;
+                return this.repr.dataType.decodeBuffer(new DataReader(data[0]));
+            }).catch(err => {
+                this.value = undefined; // so that it can be retried
+                const message = err instanceof messages.Error ? err.error.message : `${err}`;
+                this.status.innerText = `Unable to load data: ${message}`;
+                throw err;
+            }).finally(() => this.el.classList.remove('loading'));
+        }
+        return this.value;
+    }
+
+    private view() {
+        this.load().then(value => {
+            this.content.innerHTML = '';
+            this.content.appendChild(displayData(value, undefined, 1));
+            this.viewButton.disabled = true;
+        }).catch(_ => {}); // the error is shown by load()
+    }
+
+    private download() {
+        this.load().then(value => {
+            const url = URL.createObjectURL(new Blob([jsonText(this.repr.dataType, value)], {type: 'application/json'}));
+            MainUI.browserDownload(url, `${this.name}.json`);
+            window.setTimeout(() => URL.revokeObjectURL(url), 0);
+        }).catch(_ => {});
+    }
+
+    dispose() {
+        if (!LazyDataView.released.has(this.repr)) {
+            LazyDataView.released.add(this.repr);
+            this.notebook.socket.send(new messages.ReleaseHandle(LazyDataRepr.handleTypeId, this.repr.handle));
+        }
+    }
+}
@@ -0,0 +1,232 @@
+"use strict";
+
+import {div, span, TagElement} from "../util/tags";
+import {UpdatingDataRepr} from "../../data/value_repr";
+import {DataReader} from "../../data/codec";
+import {ArrayType, DataType, MapType, OptionalType, StructType} from "../../data/data_type";
+import {ReprDataRequest} from "../util/ui_event";
+import * as messages from "../../data/messages";
+import {jsonText} from "../../data/export";
+import {NotebookUI} from "./notebook";
+import {displayData} from "./display_content";
+
+export type LiveValueListener = (live: LiveValue) => void;
+
+interface Subscription {
+    listener: LiveValueListener
+    owner?: HTMLElement
+    attached: boolean
+}
+
+/**
+ * The current value of an UpdatingDataRepr. The kernel keeps the latest value of the handle, so while anything is
+ * listening it's requested every `pollInterval` milliseconds, and the listeners are told whenever it changes (or when
+ * the value stops being live, because its handle was released or couldn't be read).
+ *
+ * There's one LiveValue for each repr, so that the cell output and the symbol table share a handle; the cell which the
+ * value came from releases it when its results are cleared, or when it's disposed.
+ */
+export class LiveValue {
+    static pollInterval = 1000;
+    private static values = new WeakMap<UpdatingDataRepr, LiveValue>();
+
+    static get(repr: UpdatingDataRepr, notebook: NotebookUI): LiveValue {
+        let live = LiveValue.values.get(repr);
+        if (!live) {
+            live = new LiveValue(repr, notebook);
+            LiveValue.values.set(repr, live);
+        }
+        return live;
+    }
+
+    private subscriptions: Subscription[] = [];
+    private data?: ArrayBuffer;
+    private _value: any = undefined;
+    private _released = false;
+    private _error?: string;
+    private timer?: number;
+    private requesting = false;
+
+    private constructor(readonly repr: UpdatingDataRepr, readonly notebook: NotebookUI) {}
+
+    get dataType(): DataType {
+        return this.repr.dataType;
+    }
+
+    get hasValue(): boolean {
+        return this.data !== undefined;
+    }
+
+    get value(): any {
+        return this._value;
+    }
+
+    // the reason the value stopped updating, if it wasn't released.
+    get error(): string | undefined {
+        return this._error;
+    }
+
+    get isLive(): boolean {
+        return !this._released && this._error === undefined;
+    }
+
+    /**
+     * Calls the listener now (if there's a value yet) and whenever the value changes or stops being live. Returns a
+     * function which removes the listener; once there are no listeners, the value is no longer requested.
+     *
+     * If an owner element is given, the listener is also removed once the owner has been added to the document and then
+     * removed from it, so that elements which are thrown away (like rows of the symbol table) don't keep it updating.
+     */
+    onUpdate(listener: LiveValueListener, owner?: HTMLElement): () => void {
+        const subscription: Subscription = {listener, owner, attached: false};
+        this.subscriptions.push(subscription);
+        if (this.hasValue || !this.isLive) {
+            listener(this);
+        }
+        this.schedule(0);
+        return () => this.unsubscribe(subscription);
+    }
+
+    private unsubscribe(subscription: Subscription) {
+        this.subscriptions = this.subscriptions.filter(sub => sub !== subscription);
+        if (!this.subscriptions.length && this.timer !== undefined) {
+            window.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    // removes the subscriptions whose owners have been removed from the document.
+    private prune() {
+        this.subscriptions = this.subscriptions.filter(sub => {
+            if (!sub.owner) {
+                return true;
+            } else if (sub.owner.isConnected) {
+                sub.attached = true;
+                return true;
+            }
+            return !sub.attached;
+        });
+    }
+
+    private schedule(delay: number) {
+        if (this.isLive && this.subscriptions.length && this.timer === undefined && !this.requesting) {
+            this.timer = window.setTimeout(() => {
+                this.timer = undefined;
+                this.prune();
+                if (this.subscriptions.length) {
+                    this.request();
+                }
+            }, delay);
+        }
+    }
+
+    private request() {
+        this.requesting = true;
+        new Promise<ArrayBuffer[]>((resolve, reject) =>
+            this.notebook.publish(new ReprDataRequest(UpdatingDataRepr.handleTypeId, this.repr.handle, 1, resolve, reject))
+        ).then(data => {
+            // there's no data until the kernel has a value for the handle.
+            if (this.isLive && data.length && !sameBytes(data[0], this.data)) {
+                this.data = data[0];
+                this._value = this.dataType.decodeBuffer(new DataReader(data[0]));
+                this.notify();
+            }
+        }).catch(err => {
+            if (this.isLive) {
+                this._error = err instanceof messages.Error ? err.error.message : err instanceof Error ? err.message : `${err}`;
+                this.notify();
+            }
+        }).then(() => {
+            this.requesting = false;
+            this.schedule(LiveValue.pollInterval);
+        });
+    }
+
+    private notify() {
+        this.subscriptions.forEach(sub => sub.listener(this));
+    }
+
+    /**
+     * Stops updating the value and releases its handle. The last value is kept, but it can't be updated again.
+     */
+    release() {
+        if (!this._released) {
+            this._released = true;
+            if (this.timer !== undefined) {
+                window.clearTimeout(this.timer);
+                this.timer = undefined;
+            }
+            this.notebook.socket.send(new messages.ReleaseHandle(UpdatingDataRepr.handleTypeId, this.repr.handle));
+            this.notify();
+            this.subscriptions = [];
+        }
+    }
+}
+
+function sameBytes(a: ArrayBuffer, b?: ArrayBuffer): boolean {
+    if (!b || a.byteLength !== b.byteLength) {
+        return false;
+    }
+    const aBytes = new Uint8Array(a);
+    const bBytes = new Uint8Array(b);
+    for (let i = 0; i < aBytes.length; i++) {
+        if (aBytes[i] !== bBytes[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * A one-line summary of a value, for places (like the symbol table) that don't have room to display it fully.
+ */
+export function liveValueText(live: LiveValue, maxLength: number = 80): string {
+    if (!live.hasValue) {
+        return '';
+    }
+
+    let dataType = live.dataType;
+    while (dataType instanceof OptionalType) {
+        dataType = dataType.element;
+    }
+    const value = live.value;
+    const nested = dataType instanceof ArrayType || dataType instanceof MapType || dataType instanceof StructType;
+    const text = value === null || value === undefined ? 'null' : nested ? jsonText(dataType, value) : value.toString();
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * An indicator of whether a value is live; it's updated by showLive.
+ */
+export function liveIndicator(): TagElement<"span"> {
+    return span(['live-indicator'], ['live']);
+}
+
+export function showLive(indicator: HTMLElement, live: LiveValue) {
+    indicator.classList.toggle('live', live.isLive);
+    indicator.title = live.isLive ? 'This value is updated as it changes'
+        : live.error !== undefined ? `This value is no longer updated: ${live.error}`
+        : 'This value is no longer updated';
+}
+
+/**
+ * Displays a live value, which is re-rendered in place whenever it changes; until there's a value, the placeholder is
+ * shown. Returns the element, and a function which stops updating it.
+ */
+export function displayLiveData(live: LiveValue, placeholder: string): [TagElement<"div">, () => void] {
+    const indicator = liveIndicator();
+    const content = div(['live-value-content'], []);
+    const el = div(['live-value'], [indicator, content]);
+
+    content.appendChild(span(['live-value-placeholder'], [placeholder]));
+    showLive(indicator, live);
+    const unsubscribe = live.onUpdate(() => {
+        showLive(indicator, live);
+        if (live.hasValue) {
+            content.innerHTML = '';
+            content.appendChild(displayData(live.value, undefined, 1));
+        }
+    });
+
+    return [el, unsubscribe];
+}
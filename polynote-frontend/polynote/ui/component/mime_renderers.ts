@@ -0,0 +1,332 @@
+"use strict";
+
+import * as monaco from "monaco-editor";
+import * as katex from "katex";
+import embed from "vega-embed";
+import {div, span, table, tag, TagElement} from "../util/tags";
+import {MarkdownIt} from "../../util/markdown-it";
+import {JsonTree} from "./json_tree";
+
+/**
+ * Displays content of some MIME types. When a value has representations of several types, the one whose renderer has
+ * the highest priority is displayed in its cell; the value inspector has a tab for each of them (in order of priority),
+ * named for its renderer.
+ */
+export interface MIMERenderer {
+    name: string
+    // the MIME types which it renders. A "*" matches anything, e.g. "image/*" (but a renderer which names a type exactly
+    // is used for it instead of one which matches it with a wildcard). If several renderers match a type equally well,
+    // the one with the highest priority is used.
+    mimeTypes: string[]
+    priority: number
+    // whether the content could run scripts, in which case it's sandboxed unless its notebook is trusted.
+    active?: boolean
+    render(content: string, mimeType: string, args: Record<string, string>, trusted: boolean): Promise<TagElement<any>>
+}
+
+const renderers: MIMERenderer[] = [];
+
+export function registerMIMERenderer(renderer: MIMERenderer) {
+    renderers.push(renderer);
+}
+
+function matches(pattern: string, mimeType: string): boolean {
+    if (pattern.indexOf('*') < 0) {
+        return pattern === mimeType;
+    }
+    const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\\/]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}$`).test(mimeType);
+}
+
+export function mimeRendererFor(mimeType: string): MIMERenderer | undefined {
+    const exact = renderers.filter(renderer => renderer.mimeTypes.indexOf(mimeType) >= 0);
+    const candidates = exact.length ? exact : renderers.filter(renderer => renderer.mimeTypes.some(pattern => matches(pattern, mimeType)));
+    return candidates.reduce<MIMERenderer | undefined>((best, renderer) => best && best.priority >= renderer.priority ? best : renderer, undefined);
+}
+
+/**
+ * The items (e.g. MIME representations of a value) which can be rendered, in the order in which they should be
+ * displayed – from the highest priority renderer to the lowest.
+ */
+export function byRendererPriority<T>(items: T[], mimeTypeOf: (item: T) => string): T[] {
+    return items
+        .map(item => [item, mimeRendererFor(mimeTypeOf(item))] as [T, MIMERenderer | undefined])
+        .filter(([_, renderer]) => renderer !== undefined)
+        .sort(([_a, a], [_b, b]) => b!.priority - a!.priority)
+        .map(([item]) => item);
+}
+
+// whether content of the given type could run scripts when it's displayed
+export function isActiveContent(mimeType: string): boolean {
+    return !!mimeRendererFor(mimeType)?.active;
+}
+
+// the script which a sandboxed output runs to tell its frame how tall it is, whenever that changes
+const frameResizeScript = `<script>
+(function() {
+    function postHeight() {
+        parent.postMessage({sandboxedOutputHeight: document.documentElement.scrollHeight}, "*");
+    }
+    window.addEventListener("load", postHeight);
+    if (window.ResizeObserver) {
+        new ResizeObserver(postHeight).observe(document.documentElement);
+    }
+})();
+</script>`;
+
+window.addEventListener('message', (evt: MessageEvent) => {
+    const height = evt.data?.sandboxedOutputHeight;
+    if (typeof height === 'number') {
+        const frames = document.querySelectorAll<HTMLIFrameElement>('iframe.sandboxed-output');
+        const frame = [...frames].find(frame => frame.contentWindow === evt.source);
+        if (frame) {
+            frame.style.height = `${Math.ceil(height)}px`;
+        }
+    }
+});
+
+/**
+ * Displays HTML in a sandboxed iframe. Its scripts can run, but (since it doesn't share our origin) they can't reach
+ * the rest of the page – or the notebook's session – at all. The frame is resized to fit its content.
+ */
+export function sandboxedFrame(html: string): TagElement<"iframe"> {
+    const bodyStyle = window.getComputedStyle(document.body);
+    const style = `<style>
+        html { overflow: hidden; }
+        body { margin: 0; color: ${bodyStyle.color}; font-family: ${bodyStyle.fontFamily}; font-size: ${bodyStyle.fontSize}; }
+    </style>`;
+    const frame = tag('iframe', ['sandboxed-output'], {sandbox: 'allow-scripts allow-popups allow-forms'}, []);
+    frame.srcdoc = `<!DOCTYPE html><html><head><meta charset="utf-8">${style}${frameResizeScript}</head><body>${html}</body></html>`;
+    return frame;
+}
+
+function displayHTML(html: string, trusted: boolean): TagElement<any> {
+    if (!trusted) {
+        return sandboxedFrame(html);
+    }
+    const node = div(['htmltext'], []);
+    node.innerHTML = html;
+    return node;
+}
+
+function displayError(message: string, content: string): TagElement<"div"> {
+    return div(['render-error'], [
+        div(['message'], [message]),
+        span(['plaintext'], [content])
+    ]);
+}
+
+// splits CSV (or, with a different separator, TSV) into rows of fields – which may be quoted, in which case they can
+// contain separators, newlines and (doubled) quotes.
+function parseCSV(text: string, separator: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        rows.push([...row, field]);
+    }
+    return rows;
+}
+
+const csvMaxRows = 1000;
+
+function displayCSV(content: string, separator: string): TagElement<"div"> {
+    const [header, ...rows] = parseCSV(content, separator);
+    if (!header) {
+        return div(['csv-output'], []);
+    }
+
+    const tableEl = table(['csv-table'], {header, classes: header.map((_, i) => `col${i}`)});
+    rows.slice(0, csvMaxRows).forEach(row => tableEl.addRow(row));
+    return div(['csv-output'], [
+        tableEl,
+        rows.length > csvMaxRows ? div(['truncated'], [`Showing ${csvMaxRows} of ${rows.length} rows`]) : undefined
+    ]);
+}
+
+// the builds of vega (and vega-embed) which sandboxed plots load – they can't use ours, since they're in another frame
+const sandboxedVegaScripts = ['vega.min.js', 'vega-lite.min.js', 'vega-embed.min.js']
+    .map(name => new URL(`static/vendor/vega/${name}`, document.baseURI).href);
+
+// JSON which can be put in a <script> without ending it
+function scriptJSON(value: any): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function displayVega(spec: any, mode: 'vega' | 'vega-lite', trusted: boolean): Promise<TagElement<any>> {
+    if (!trusted) {
+        // vega's expressions can run script, so an untrusted plot is embedded in a sandboxed frame instead.
+        const scripts = sandboxedVegaScripts.map(src => `<script src="${src}"></script>`).join('');
+        return Promise.resolve(sandboxedFrame(`<div class="vega-output"></div>${scripts}<script>
+            vegaEmbed(document.querySelector('.vega-output'), ${scriptJSON(spec)}, {mode: ${scriptJSON(mode)}}).catch(function(err) {
+                document.body.textContent = 'Unable to display the plot: ' + (err.message || err);
+            });
+        </script>`));
+    }
+
+    const el = div(['vega-output'], []);
+    return embed(el, spec, {mode}).then(
+        () => el,
+        err => displayError(`Unable to display the plot: ${err.message ?? err}`, JSON.stringify(spec, null, 2)));
+}
+
+// the features of some GeoJSON – which could be a collection of them, a single one, or just a geometry.
+function geoFeatures(json: any): any[] {
+    if (json.type === 'FeatureCollection') {
+        return json.features;
+    } else if (json.type === 'Feature') {
+        return [json];
+    }
+    return [{type: 'Feature', properties: {}, geometry: json}];
+}
+
+function parseJSON(content: string, render: (json: any) => Promise<TagElement<any>>): Promise<TagElement<any>> {
+    let json: any;
+    try {
+        json = JSON.parse(content);
+    } catch (err) {
+        return Promise.resolve(displayError(`Unable to parse JSON: ${err.message}`, content));
+    }
+    return render(json);
+}
+
+registerMIMERenderer({
+    name: "Image",
+    mimeTypes: ["image/*"],
+    priority: 100,
+    render(content: string, mimeType: string) {
+        return Promise.resolve(tag('img', [], {src: `data:${mimeType};base64,${content}`}, []));
+    }
+});
+
+registerMIMERenderer({
+    name: "SVG",
+    mimeTypes: ["image/svg", "image/svg+xml"],
+    priority: 100,
+    active: true,
+    render(content: string, mimeType: string, args: Record<string, string>, trusted: boolean) {
+        return Promise.resolve(displayHTML(content, trusted));
+    }
+});
+
+registerMIMERenderer({
+    name: "Plot",
+    mimeTypes: ["application/vnd.vegalite.v*+json", "application/vnd.vega.v*+json"],
+    priority: 95,
+    active: true,
+    render(content: string, mimeType: string, args: Record<string, string>, trusted: boolean) {
+        return parseJSON(content, spec => displayVega(spec, mimeType.startsWith("application/vnd.vegalite") ? 'vega-lite' : 'vega', trusted));
+    }
+});
+
+registerMIMERenderer({
+    name: "LaTeX",
+    mimeTypes: ["application/x-latex", "application/latex"],
+    priority: 90,
+    render(content: string) {
+        const node = div([], []);
+        katex.render(content, node, { displayMode: true, throwOnError: false });
+        return Promise.resolve(node);
+    }
+});
+
+registerMIMERenderer({
+    name: "Map",
+    mimeTypes: ["application/geo+json", "application/vnd.geo+json"],
+    priority: 85,
+    active: true,
+    render(content: string, mimeType: string, args: Record<string, string>, trusted: boolean) {
+        return parseJSON(content, json => displayVega({
+            $schema: 'https://vega.github.io/schema/vega-lite/v3.json',
+            width: 600,
+            height: 400,
+            data: {values: geoFeatures(json)},
+            mark: {type: 'geoshape', tooltip: {content: 'data'}},
+            projection: {type: 'mercator'}
+        }, 'vega-lite', trusted));
+    }
+});
+
+registerMIMERenderer({
+    name: "HTML",
+    mimeTypes: ["text/html"],
+    priority: 80,
+    active: true,
+    render(content: string, mimeType: string, args: Record<string, string>, trusted: boolean) {
+        return Promise.resolve(displayHTML(content, trusted));
+    }
+});
+
+// Markdown can contain HTML, so it's just as active.
+registerMIMERenderer({
+    name: "Markdown",
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    priority: 75,
+    active: true,
+    render(content: string, mimeType: string, args: Record<string, string>, trusted: boolean) {
+        const el = displayHTML(`<div class="markdown-body">${MarkdownIt.render(content)}</div>`, trusted);
+        return Promise.resolve(el);
+    }
+});
+
+registerMIMERenderer({
+    name: "Table",
+    mimeTypes: ["text/csv", "text/tab-separated-values"],
+    priority: 70,
+    render(content: string, mimeType: string) {
+        return Promise.resolve(displayCSV(content, mimeType === "text/csv" ? ',' : '\t'));
+    }
+});
+
+registerMIMERenderer({
+    name: "JSON",
+    mimeTypes: ["application/json", "application/*+json"],
+    priority: 60,
+    render(content: string) {
+        return parseJSON(content, json => Promise.resolve(new JsonTree(json, content).el));
+    }
+});
+
+registerMIMERenderer({
+    name: "Text",
+    mimeTypes: ["text/plain", "text/*"],
+    priority: 10,
+    render(content: string, mimeType: string, args: Record<string, string>) {
+        if (args.lang) {
+            return monaco.editor.colorize(content, args.lang, {}).then(html => {
+                const node = (span(['plaintext', 'colorized'], []) as TagElement<"span", HTMLSpanElement & {"data-lang": string}>).attr('data-lang', args.lang);
+                node.innerHTML = html;
+                return node
+            });
+        }
+        return Promise.resolve(span(['plaintext'], [document.createTextNode(content)]));
+    }
+});
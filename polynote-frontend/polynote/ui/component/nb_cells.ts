@@ -1,6 +1,6 @@
 import {UIMessageTarget} from "../util/ui_event";
 import {NotebookConfigUI} from "./nb_config";
-import {blockquote, div, icon, span, TagElement} from "../util/tags";
+import {blockquote, button, div, icon, span, TagElement} from "../util/tags";
 import {Cell, CellContainer, CodeCell, errorDisplay, isCellContainer, TextCell} from "./cell";
 import {TaskInfo, TaskStatus} from "../../data/messages";
 import * as messages from "../../data/messages";
@@ -20,17 +20,48 @@ export class NotebookCellsUI extends UIMessageTarget {
     readonly el: NotebookCellsEl;
     resizeTimeout: number;
     private configEl: TagElement<"div">;
+    private trustEl: TagElement<"div">;
 
     constructor(readonly notebook: NotebookUI, readonly path: string) {
         super(notebook);
         this.disabled = false;
         this.configUI = new NotebookConfigUI((conf: NotebookConfig) => CurrentNotebook.get.updateConfig(conf)).setParent(this);
         this.el = Object.assign(
-            div(['notebook-cells'], [this.configEl = this.configUI.el, this.newCellDivider()]),
+            div(['notebook-cells'], [this.trustEl = div(['notebook-trust'], []), this.configEl = this.configUI.el, this.newCellDivider()]),
             // TODO: remove when we get to TabUI
             { cellsUI: this });  // TODO: this is hacky and bad (used for getting to this instance via the element, from the tab content area of MainUI#currentNotebook)
 
         window.addEventListener('resize', this.forceLayout.bind(this));
+        this.renderTrust();
+    }
+
+    private renderTrust() {
+        const trusted = this.notebook.trusted;
+        this.trustEl.innerHTML = '';
+        this.trustEl.classList.toggle('trusted', trusted);
+        if (trusted) {
+            this.trustEl.appendChild(span([], ["This notebook is trusted, so its HTML outputs can run scripts in Polynote."]));
+            this.trustEl.appendChild(
+                button(['untrust'], {}, ['Stop trusting']).click(() => this.notebook.setTrusted(false)));
+        } else {
+            this.trustEl.appendChild(span([], ["HTML outputs are sandboxed, because this notebook isn't trusted."]));
+            this.trustEl.appendChild(
+                button(['trust'], {}, ['Trust this notebook']).click(() => {
+                    if (confirm("Outputs of a trusted notebook can run scripts with access to your Polynote session. Only trust notebooks whose authors you trust. Trust this notebook?")) {
+                        this.notebook.setTrusted(true);
+                    }
+                }));
+        }
+    }
+
+    // redisplays the outputs which depend on whether the notebook is trusted
+    onTrustChanged() {
+        this.renderTrust();
+        this.forEachCell(cell => {
+            if (cell instanceof CodeCell) {
+                cell.redisplayActiveOutputs();
+            }
+        });
     }
 
     newCellDivider() {
@@ -287,6 +318,21 @@ export class NotebookCellsUI extends UIMessageTarget {
         }
     }
 
+    /**
+     * Remove all of the cells, e.g. in order to load them again from scratch.
+     */
+    clearCells() {
+        this.el.querySelectorAll('.undo-delete').forEach(undoEl => this.el.removeChild(undoEl));
+        this.getCells().forEach(cell => {
+            const divider = cell.container.previousElementSibling;
+            cell.dispose();
+            this.el.removeChild(cell.container);
+            if (divider) {
+                this.el.removeChild(divider);
+            }
+        });
+    }
+
     forceLayout() {
         if (this.resizeTimeout) {
             window.clearTimeout(this.resizeTimeout);
@@ -11,7 +11,7 @@ import {ClearResults, ClientResult, ServerError, Output, PosRange, Result, Resul
 import {DataRepr, DataStream, StreamingDataRepr} from "../../data/value_repr";
 import {clientInterpreters} from "../../interpreter/client_interpreter";
 import {CellMetadata, NotebookCell, NotebookConfig} from "../../data/data";
-import {SocketSession} from "../../comms";
+import {CancelToken, RequestCancelled, SocketSession} from "../../comms";
 import {MainUI} from "./ui";
 import {
     CompletionCandidate,
@@ -33,6 +33,7 @@ import {CurrentNotebook} from "./current_notebook";
 import {notificationsEnabled} from "../util/notifications";
 import container from "vega-embed/build/src/container";
 import {ClientBackup} from "./client_backup";
+import {storage} from "../util/storage";
 
 const notebooks: Record<string, NotebookUI> = {};
 
@@ -45,6 +46,8 @@ export class NotebookUI extends UIMessageTarget {
     readonly kernelUI: KernelUI;
     private cellResults: Record<number, Record<string, ResultValue>>;
     private globalVersion: number;
+    // identifies the server's version history, which globalVersion belongs to.
+    private epoch?: string;
     private localVersion: number;
     private editBuffer: EditBuffer;
     private cellStatusListeners: ((cellId: number, status: number) => void)[] = [];
@@ -53,6 +56,24 @@ export class NotebookUI extends UIMessageTarget {
     private closed: boolean = false;
     readonly socket: SocketSession;
 
+    // Our own updates which the server might not have applied yet. These are used to tell our updates apart from
+    // everyone else's when catching up on the updates that happened while we were disconnected.
+    private unconfirmedUpdates: NotebookUpdate[] = [];
+
+    // Whether the cells are being (re)loaded from the server, in which case they're followed by the version they're at.
+    private loadingCells: boolean = true;
+    private resyncAfterLoad: boolean = false;
+
+    // Whether we're catching up with the server after reconnecting, in which case updates which arrive in the meantime
+    // are held until the missed updates have been replayed.
+    private resyncing: boolean = false;
+    private heldUpdates: NotebookUpdate[] = [];
+
+    // Content edits which haven't been sent yet. Edits are batched up for a short while so that typing doesn't send an
+    // update for every keystroke.
+    private pendingContentChange?: {cellId: number, edits: ContentEdit[], metadata?: CellMetadata, timeout: number};
+    private static contentChangeBatchWindow = 100;
+
     private otherUsers: Record<number, PresenceColor> = {};
     private otherUserSelections: Record<number, [number, PosRange]> = {};
 
@@ -85,6 +106,10 @@ export class NotebookUI extends UIMessageTarget {
             notebooks[newPath].path = newPath;
             delete notebooks[oldPath];
         }
+        storage.update<Record<string, boolean>>('trustedNotebooks', trustedNotebooks => {
+            const {[oldPath]: trusted, ...others} = trustedNotebooks;
+            return trusted ? {...others, [newPath]: trusted} : trustedNotebooks;
+        });
     }
 
     static disableAll() {
@@ -177,15 +202,28 @@ export class NotebookUI extends UIMessageTarget {
         });
 
         this.subscribe(ReprDataRequest, (reqHandleType, reqHandleId, reqCount, reqOnComplete, reqOnFail) => {
-            this.socket.listenOnceFor(messages.HandleData, (handleType, handleId, count, data: Left<messages.Error> | Right<ArrayBuffer[]>) => {
-                Either.fold(data, err => reqOnFail(err), bufs => reqOnComplete(bufs));
-                return false;
-            });
-            this.socket.send(new messages.HandleData(reqHandleType, reqHandleId, reqCount, Either.right([])));
+            this.socket.request(reqId => new messages.HandleData(reqId, reqHandleType, reqHandleId, reqCount, Either.right([])))
+                .then(
+                    response => Either.fold(response.data, err => reqOnFail(err), bufs => reqOnComplete(bufs)),
+                    err => reqOnFail(err));
         });
 
         this.socket.addMessageListener(messages.NotebookCells, this.onCellsLoaded.bind(this));
 
+        // the server follows the notebook's cells with their version (as a NotebookVersion that isn't a response to anything)
+        this.socket.addMessageListener(messages.NotebookVersion, (reqId, path, serverGlobalVersion, epoch) => {
+            if (reqId === 0 && this.loadingCells) {
+                this.globalVersion = serverGlobalVersion;
+                this.epoch = epoch;
+                this.unconfirmedUpdates = [];
+                this.loadingCells = false;
+                if (this.resyncAfterLoad) {
+                    this.resyncAfterLoad = false;
+                    this.resync();
+                }
+            }
+        });
+
         this.socket.addMessageListener(messages.KernelStatus, (update) => match(update)
             .when(messages.UpdatedTasks, (tasks) => tasks.forEach((task: TaskInfo) => {
                 this.handleTaskUpdate(task);
@@ -210,112 +248,37 @@ export class NotebookUI extends UIMessageTarget {
         this.socket.addEventListener('close', () => this.cellUI.configUI.setKernelState('disconnected'));
 
         this.socket.addMessageListener(messages.NotebookUpdate, (update: messages.NotebookUpdate) => {
-            if (update.globalVersion >= this.globalVersion) {
-                this.globalVersion = update.globalVersion;
-
-                if (update.localVersion < this.localVersion) {
-                    const prevUpdates = this.editBuffer.range(update.localVersion, this.localVersion);
-                    update = messages.NotebookUpdate.rebase(update, prevUpdates);
-                }
-
-
-                this.localVersion++;
-
-                match(update)
-                    .when(messages.UpdateCell, (g: number, l: number, id: number, edits: ContentEdit[], metadata?: CellMetadata) => {
-                        const cell = this.cellUI.getCell(id);
-                        if (cell) {
-                            cell.applyEdits(edits);
-                            this.editBuffer.push(this.localVersion, update);
-                            if (metadata) {
-                                cell.setMetadata(metadata);
-                            }
-                        }
-                    })
-                    .when(messages.InsertCell, (g: number, l: number, cell: NotebookCell, after: number) => {
-                        const prev = this.cellUI.getCell(after);
-                        const newCell = (prev && prev.language && prev.language !== "text")
-                            ? new CodeCell(cell.id, cell.content, cell.language, this)
-                            : new TextCell(cell.id, cell.content, this);
-
-                        this.cellUI.insertCellBelow(prev && prev.container, () => newCell)
-                    })
-                    .when(messages.DeleteCell, (g: number, l: number, id: number) => this.cellUI.deleteCell(id))
-                    .when(messages.UpdateConfig, (g: number, l: number, config: NotebookConfig) => this.cellUI.configUI.setConfig(config))
-                    .when(messages.SetCellLanguage, (g: number, l: number, id, language: string) => {
-                        const cell = this.cellUI.getCell(id);
-                        if (cell) {
-                            this.cellUI.setCellLanguage(cell, language)
-                        } else {
-                            throw new Error(`Cell ${id} does not exist in the current notebook`)
-                        }
-                    })
-                    .when(messages.SetCellOutput, (g: number, l: number, id, output?: Output) => {
-                        const cell = this.cellUI.getCell(id);
-                        if (cell instanceof CodeCell) {
-                            cell.clearResult();
-                            if (output) {
-                                cell.addOutput(output.contentType, output.content.join(''));
-                            }
-                        }
-                    })
-                    .when(messages.CreateComment, (g: number, l: number, id, comment) => {
-                        const cell = this.cellUI.getCell(id);
-                        if (cell instanceof CodeCell) {
-                            cell.commentHandler.add(comment)
-                        }
-                    })
-                    .when(messages.UpdateComment, (g: number, l: number, id, commentId, range, content) => {
-                        const cell = this.cellUI.getCell(id);
-                        if (cell instanceof CodeCell) {
-                            cell.commentHandler.update(commentId, range, content)
-                        }
-                    })
-                    .when(messages.DeleteComment, (g: number, l: number, id, commentId) => {
-                        const cell = this.cellUI.getCell(id);
-                        if (cell instanceof CodeCell) {
-                            cell.commentHandler.delete(commentId)
-                        }
-                    });
+            // while catching up with the server, updates are held back until the ones which were missed are replayed.
+            if (this.resyncing) {
+                this.heldUpdates.push(update);
+            } else {
+                this.receiveUpdate(update);
+            }
+        });
 
 
-                // discard edits before the local version from server – it will handle rebasing at least until that point
-                this.editBuffer.discard(update.localVersion);
+        // once the socket reconnects, catch up on anything that changed on the server in the meantime.
+        let connected = false;
 
-                // make sure to update backups.
-                ClientBackup.updateNb(this.path, update)
-                    .catch(err => console.error("Error updating backup", err));
-            }
+        this.socket.addEventListener('close', evt => {
+            this.flushContentChanges(); // so the edits are queued up for when the socket reconnects
+            this.cellUI.setDisabled(true);
         });
 
-
-        // when the socket is disconnected, we're going to try reconnecting when the window gets focus.
-        const reconnectOnWindowFocus = () => {
+        this.socket.addEventListener('open', (evt: CustomEvent<{restored: number}>) => {
             if (this.closed) {
-                window.removeEventListener("focus", reconnectOnWindowFocus);
                 return;
             }
 
-            if (this.socket.isClosed) {
-                this.socket.reconnect(true);
+            if (connected && !this.loadingCells) {
+                this.resync();
+            } else if (evt.detail?.restored) {
+                // updates left over from a previous session were just sent, so they need to be fetched back once the
+                // notebook is loaded.
+                this.resyncAfterLoad = true;
             }
-            // TODO: replace with `socket.request`
-            this.socket.listenOnceFor(messages.NotebookVersion, (path, serverGlobalVersion) => {
-                if (this.globalVersion !== serverGlobalVersion) {
-                    // looks like there's been a change while we were disconnected, so reload.
-                    document.location.reload();
-                }
-            });
-            this.socket.send(new messages.NotebookVersion(path, this.globalVersion))
-        };
-
-        this.socket.addEventListener('close', evt => {
-            this.cellUI.setDisabled(true);
-            window.addEventListener('focus', reconnectOnWindowFocus);
-        });
+            connected = true;
 
-        this.socket.addEventListener('open', evt => {
-            window.removeEventListener('focus', reconnectOnWindowFocus);
             this.socket.send(new messages.KernelStatus(new messages.KernelBusyState(false, false)));
             this.cellUI.setDisabled(false);
         });
@@ -364,13 +327,16 @@ export class NotebookUI extends UIMessageTarget {
         });
 
         this.subscribe(CreateComment, (cellId, comment) => {
-            this.socket.send(new messages.CreateComment(this.globalVersion, this.localVersion, cellId, comment))
+            this.flushContentChanges();
+            this.sendUpdate(new messages.CreateComment(this.globalVersion, this.localVersion, cellId, comment))
         });
         this.subscribe(UpdateComment, (cellId, commentId, range, content) => {
-            this.socket.send(new messages.UpdateComment(this.globalVersion, this.localVersion, cellId, commentId, range, content))
+            this.flushContentChanges();
+            this.sendUpdate(new messages.UpdateComment(this.globalVersion, this.localVersion, cellId, commentId, range, content))
         });
         this.subscribe(DeleteComment, (cellId, commentId) => {
-            this.socket.send(new messages.DeleteComment(this.globalVersion, this.localVersion, cellId, commentId))
+            this.flushContentChanges();
+            this.sendUpdate(new messages.DeleteComment(this.globalVersion, this.localVersion, cellId, commentId))
         });
     }
 
@@ -397,6 +363,7 @@ export class NotebookUI extends UIMessageTarget {
 
         this.currentSelectionTimeout = window.setTimeout(
             () => {
+                this.flushContentChanges(); // the selection refers to the content after any pending edits
                 this.socket.send(new CurrentSelection(cellId, range));
                 this.currentSelectionTimeout = undefined;
             },
@@ -427,6 +394,7 @@ export class NotebookUI extends UIMessageTarget {
     }
 
     close() {
+        this.flushContentChanges();
         this.socket.close();
         this.closed = true;
         delete notebooks[this.path];
@@ -457,6 +425,37 @@ export class NotebookUI extends UIMessageTarget {
         }
     }
 
+    /**
+     * Whether this notebook is trusted, i.e. whether its HTML outputs are displayed in the page (where their scripts can
+     * do anything that we can) rather than in sandboxed frames. Trust is local to this browser – it isn't shared with
+     * anyone else who opens the notebook.
+     */
+    get trusted(): boolean {
+        return !!storage.get('trustedNotebooks')[this.path];
+    }
+
+    setTrusted(trusted: boolean) {
+        storage.update<Record<string, boolean>>('trustedNotebooks', trustedNotebooks => {
+            const {[this.path]: _, ...others} = trustedNotebooks;
+            return trusted ? {...others, [this.path]: true} : others;
+        });
+        this.cellUI.onTrustChanged();
+    }
+
+    /**
+     * The latest result with the given name which is visible from the given cell, if there is one.
+     */
+    getResultValue(name: string, cellId: number): ResultValue | undefined {
+        const ids = this.cellUI.getCodeCellIdsBefore(cellId);
+        for (let i = ids.length - 1; i >= 0; i--) {
+            const result = this.cellResults[ids[i]]?.[name];
+            if (result) {
+                return result;
+            }
+        }
+        return undefined;
+    }
+
     getCellContext(ids: number[]): Record<string, any> {
         const cellContext: Record<string, any> = {};
         for (let id of ids) {
@@ -511,6 +510,7 @@ export class NotebookUI extends UIMessageTarget {
         if (!(cellIds instanceof Array)) {
             cellIds = [cellIds];
         }
+        this.flushContentChanges(); // make sure the server runs what's in the cells
         const serverRunCells: number[] = [];
         cellIds.forEach(id => {
             const cell = this.cellUI.getCell(id);
@@ -534,7 +534,10 @@ export class NotebookUI extends UIMessageTarget {
                             cell.addResult(result);
                             if (result instanceof ClientResult) {
                                 // notify the server of the MIME representation
-                                result.toOutput().then(output => this.socket.send(new messages.SetCellOutput(this.globalVersion, this.localVersion++, id, output)));
+                                result.toOutput().then(output => {
+                                    this.flushContentChanges();
+                                    this.sendUpdate(new messages.SetCellOutput(this.globalVersion, this.localVersion++, id, output));
+                                });
                             }
                         });
                     };
@@ -573,19 +576,212 @@ export class NotebookUI extends UIMessageTarget {
         this.socket.send(new messages.RunCell(serverRunCells));
     }
 
+    /**
+     * Apply an update from the server to the UI.
+     */
+    private applyUpdate(update: NotebookUpdate) {
+        match(update)
+            .when(messages.UpdateCell, (g: number, l: number, id: number, edits: ContentEdit[], metadata?: CellMetadata) => {
+                const cell = this.cellUI.getCell(id);
+                if (cell) {
+                    cell.applyEdits(edits);
+                    if (metadata) {
+                        cell.setMetadata(metadata);
+                    }
+                }
+            })
+            .when(messages.InsertCell, (g: number, l: number, cell: NotebookCell, after: number) => {
+                const prev = this.cellUI.getCell(after);
+                const newCell = (prev && prev.language && prev.language !== "text")
+                    ? new CodeCell(cell.id, cell.content, cell.language, this)
+                    : new TextCell(cell.id, cell.content, this);
+
+                this.cellUI.insertCellBelow(prev && prev.container, () => newCell)
+            })
+            .when(messages.DeleteCell, (g: number, l: number, id: number) => this.cellUI.deleteCell(id))
+            .when(messages.UpdateConfig, (g: number, l: number, config: NotebookConfig) => this.cellUI.configUI.setConfig(config))
+            .when(messages.SetCellLanguage, (g: number, l: number, id, language: string) => {
+                const cell = this.cellUI.getCell(id);
+                if (cell) {
+                    this.cellUI.setCellLanguage(cell, language)
+                } else {
+                    throw new Error(`Cell ${id} does not exist in the current notebook`)
+                }
+            })
+            .when(messages.SetCellOutput, (g: number, l: number, id, output?: Output) => {
+                const cell = this.cellUI.getCell(id);
+                if (cell instanceof CodeCell) {
+                    cell.clearResult();
+                    if (output) {
+                        cell.addOutput(output.contentType, output.content.join(''));
+                    }
+                }
+            })
+            .when(messages.CreateComment, (g: number, l: number, id, comment) => {
+                const cell = this.cellUI.getCell(id);
+                if (cell instanceof CodeCell) {
+                    cell.commentHandler.add(comment)
+                }
+            })
+            .when(messages.UpdateComment, (g: number, l: number, id, commentId, range, content) => {
+                const cell = this.cellUI.getCell(id);
+                if (cell instanceof CodeCell) {
+                    cell.commentHandler.update(commentId, range, content)
+                }
+            })
+            .when(messages.DeleteComment, (g: number, l: number, id, commentId) => {
+                const cell = this.cellUI.getCell(id);
+                if (cell instanceof CodeCell) {
+                    cell.commentHandler.delete(commentId)
+                }
+            });
+    }
+
     onCellLanguageSelected(setLanguage: string, id?: number) {
         id = id ?? this.currentCell?.id;
         const cell = id && this.cellUI.getCell(id);
         if (id && cell) {
             if (cell.language !== setLanguage) {
                 this.cellUI.setCellLanguage(cell, setLanguage);
-                this.socket.send(new messages.SetCellLanguage(this.globalVersion, this.localVersion++, id, setLanguage));
+                this.flushContentChanges();
+                this.sendUpdate(new messages.SetCellLanguage(this.globalVersion, this.localVersion++, id, setLanguage));
             }
         }
 
     }
 
+    /**
+     * Apply an update from the server, rebasing it onto any of our own updates that the server hadn't seen yet.
+     */
+    private receiveUpdate(update: NotebookUpdate) {
+        // pending edits have already been applied to the cells, so they need to be accounted for before rebasing.
+        this.flushContentChanges();
+        if (update.globalVersion >= this.globalVersion) {
+            this.globalVersion = update.globalVersion;
+
+            if (update.localVersion < this.localVersion) {
+                const prevUpdates = this.editBuffer.range(update.localVersion, this.localVersion);
+                update = messages.NotebookUpdate.rebase(update, prevUpdates);
+            }
+
+
+            this.localVersion++;
+
+            this.applyUpdate(update);
+            if (update instanceof messages.UpdateCell && this.cellUI.getCell(update.id)) {
+                this.editBuffer.push(this.localVersion, update);
+            }
+
+            // our updates up to the local version from server have been applied before this one
+            this.unconfirmedUpdates = this.unconfirmedUpdates.filter(own => own.localVersion > update.localVersion);
+
+            // discard edits before the local version from server – it will handle rebasing at least until that point
+            this.editBuffer.discard(update.localVersion);
+
+            // make sure to update backups.
+            ClientBackup.updateNb(this.path, update)
+                .catch(err => console.error("Error updating backup", err));
+        }
+    }
+
+    /**
+     * Bring the notebook up to date with the server after being disconnected, by replaying the updates that were made
+     * in the meantime. If the server can't provide those updates (e.g. because it was restarted, so its versions have
+     * started over in a new epoch) the cells are reloaded from scratch instead.
+     */
+    private resync() {
+        const path = this.path;
+        const epoch = this.epoch ?? "";
+        this.resyncing = true;
+        this.socket.request(reqId => new messages.NotebookVersion(reqId, path, this.globalVersion, epoch), {timeout: NotebookUI.resyncTimeout})
+            .then(response => {
+                if (response.epoch !== epoch) {
+                    this.reloadCells();
+                    return;
+                }
+
+                const serverVersion = response.globalVersion;
+                if (serverVersion === this.globalVersion) {
+                    this.finishResync();
+                    return;
+                }
+
+                // our own updates could have been applied any time after the version they were based on.
+                const fromVersion = this.unconfirmedUpdates.reduce(
+                    (min, update) => Math.min(min, update.globalVersion), this.globalVersion);
+
+                return this.socket.request(
+                    reqId => new messages.NotebookUpdateRange(reqId, path, epoch, fromVersion, serverVersion),
+                    {timeout: NotebookUI.resyncTimeout}
+                ).then(range => {
+                    if (range.updates) {
+                        this.replayUpdates(range.updates, serverVersion);
+                        this.finishResync();
+                    } else {
+                        this.reloadCells();
+                    }
+                });
+            })
+            .catch(err => {
+                console.error("Error catching up with server; reloading notebook", err);
+                this.reloadCells();
+            });
+    }
+
+    private static resyncTimeout = 30000;
+
+    /**
+     * Apply the updates which we missed (in order), skipping our own updates (which have already been applied locally)
+     * and updates which had already been received.
+     */
+    private replayUpdates(updates: NotebookUpdate[], serverVersion: number) {
+        let unconfirmed = this.unconfirmedUpdates;
+        updates.forEach(update => {
+            const ownIndex = unconfirmed.findIndex(own => NotebookUpdate.sameUpdate(own, update));
+            if (ownIndex >= 0) {
+                unconfirmed = unconfirmed.filter((_, index) => index !== ownIndex);
+            } else if (update.globalVersion > this.globalVersion) {
+                // the server applied this before any of our updates which are still unconfirmed, so it needs to be
+                // rebased onto them.
+                update = NotebookUpdate.rebase(update, unconfirmed);
+                this.applyUpdate(update);
+                ClientBackup.updateNb(this.path, update)
+                    .catch(err => console.error("Error updating backup", err));
+            }
+        });
+        this.unconfirmedUpdates = unconfirmed;
+        this.globalVersion = serverVersion;
+    }
+
+    /**
+     * Apply the updates which were held back while catching up, in version order. Those which the replayed updates
+     * already covered are skipped.
+     */
+    private finishResync() {
+        const held = this.heldUpdates.filter(update => update.globalVersion > this.globalVersion)
+            .sort((a, b) => a.globalVersion - b.globalVersion);
+        this.resyncing = false;
+        this.heldUpdates = [];
+        held.forEach(update => this.receiveUpdate(update));
+    }
+
+    /**
+     * Throw away the cells and load them from the server again.
+     */
+    private reloadCells() {
+        // the reloaded cells include any updates which were held back.
+        this.resyncing = false;
+        this.heldUpdates = [];
+        this.loadingCells = true;
+        this.socket.send(new messages.LoadNotebook(this.path));
+    }
+
     onCellsLoaded(path: string, cells: NotebookCell[], config?: NotebookConfig) {
+        // the server sends the cells whenever we (re)connect, but we only load them when we're expecting them.
+        if (!this.loadingCells) {
+            return;
+        }
+
         console.log(`Loaded ${path}`);
 
         ClientBackup.addNb(path, cells, config)
@@ -599,7 +795,8 @@ export class NotebookUI extends UIMessageTarget {
                 this.cellUI.configUI.setConfig(NotebookConfig.default);
             }
             // TODO: move all of this logic out.
-            this.socket.removeMessageListener([messages.NotebookCells, this.onCellsLoaded]);
+            this.cellUI.clearCells();
+            this.cellResults = {};
             for (const cellInfo of cells) {
                 let cell: Cell;
                 switch (cellInfo.language) {
@@ -651,6 +848,7 @@ export class NotebookUI extends UIMessageTarget {
         const notebookCell = new NotebookCell(insertedCell.id, insertedCell.language, insertedCell.content, results || [], insertedCell.metadata);
 
         const prevCell = this.cellUI.getCellBefore(insertedCell);
+        this.flushContentChanges();
         const update = new messages.InsertCell(this.globalVersion, ++this.localVersion, notebookCell, prevCell?.id ?? -1);
         this.sendUpdate(update);
         this.editBuffer.push(this.localVersion, update);
@@ -666,6 +864,7 @@ export class NotebookUI extends UIMessageTarget {
         const deleteCellId = cellId ?? this.currentCell?.id ;
         if (deleteCellId !== undefined) {
             this.cellUI.deleteCell(deleteCellId, () => {
+                this.flushContentChanges();
                 const update = new messages.DeleteCell(this.globalVersion, ++this.localVersion, deleteCellId);
                 this.sendUpdate(update);
                 this.editBuffer.push(this.localVersion, update);
@@ -704,14 +903,42 @@ export class NotebookUI extends UIMessageTarget {
     }
 
     handleContentChange(cellId: number, edits: ContentEdit[], metadata?: CellMetadata) {
-        const update = new messages.UpdateCell(this.globalVersion, ++this.localVersion, cellId, edits, metadata);
-        this.sendUpdate(update);
-        this.editBuffer.push(this.localVersion, update);
+        const pending = this.pendingContentChange;
+        if (pending && pending.cellId === cellId) {
+            pending.edits = ContentEdit.coalesce([...pending.edits, ...edits]);
+            pending.metadata = metadata ?? pending.metadata;
+        } else {
+            this.flushContentChanges();
+            this.pendingContentChange = {
+                cellId,
+                edits: ContentEdit.coalesce(edits),
+                metadata,
+                timeout: window.setTimeout(() => this.flushContentChanges(), NotebookUI.contentChangeBatchWindow)
+            };
+        }
+    }
+
+    /**
+     * Send any content edits which are waiting to be batched up. This needs to happen before anything which depends on
+     * the server having the current content of the cells.
+     */
+    flushContentChanges() {
+        const pending = this.pendingContentChange;
+        if (pending) {
+            window.clearTimeout(pending.timeout);
+            this.pendingContentChange = undefined;
+
+            // typing and then deleting the same text leaves nothing to send.
+            if (pending.edits.length > 0 || pending.metadata) {
+                const update = new messages.UpdateCell(this.globalVersion, ++this.localVersion, pending.cellId, pending.edits, pending.metadata);
+                this.sendUpdate(update);
+                this.editBuffer.push(this.localVersion, update);
+            }
+        }
     }
 
-    completionRequest(id: number, pos: number, resolve: (completions: CompletionList) => void, reject: () => void) {
-        const receiveCompletions = (cell: number, receivedPos: number, completions: CompletionCandidate[]) => {
-            this.socket.removeMessageListener([messages.CompletionsAt, receiveCompletions]);
+    completionRequest(id: number, pos: number, cancelToken?: CancelToken): Promise<CompletionList> {
+        const receiveCompletions = (cell: number, completions: CompletionCandidate[]): CompletionList => {
             const len = completions.length;
             const indexStrLen = ("" + len).length;
             const completionResults = completions.map((candidate, index) => {
@@ -744,19 +971,23 @@ export class NotebookUI extends UIMessageTarget {
                     range: range
                 };
             });
-            resolve({suggestions: completionResults});
+            return {suggestions: completionResults};
         };
 
-        this.socket.addMessageListener(messages.CompletionsAt, receiveCompletions);
-        this.socket.send(new messages.CompletionsAt(id, pos, []));
+        this.flushContentChanges(); // the position refers to the content after any pending edits
+        return this.socket.request(
+            reqId => new messages.CompletionsAt(reqId, id, pos, []),
+            {timeout: NotebookUI.hintRequestTimeout, cancelToken}
+        ).then(
+            response => receiveCompletions(response.id, response.completions),
+            err => NotebookUI.ignoreCancelled(err, {suggestions: []}));
     }
 
-    paramHintRequest(id: number, pos: number, resolve: (completions?: SignatureHelp) => void, reject: () => void) {
+    paramHintRequest(id: number, pos: number, cancelToken?: CancelToken): Promise<SignatureHelp> {
 
-        const receiveHints = (cell: number, receivedPos: number, signatures?: Signatures) => {
-            this.socket.removeMessageListener([messages.ParametersAt, receiveHints]);
+        const receiveHints = (signatures?: Signatures): SignatureHelp => {
             if (signatures) {
-                resolve({
+                return {
                     activeParameter: signatures.activeParameter,
                     activeSignature: signatures.activeSignature,
                     signatures: signatures.hints.map(sig => {
@@ -773,15 +1004,32 @@ export class NotebookUI extends UIMessageTarget {
                             parameters: params
                         }
                     })
-                });
-            } else resolve({activeSignature: 0, activeParameter: 0, signatures: []});
+                };
+            } else return {activeSignature: 0, activeParameter: 0, signatures: []};
         };
 
-        this.socket.addMessageListener(messages.ParametersAt, receiveHints);
-        this.socket.send(new messages.ParametersAt(id, pos))
+        this.flushContentChanges(); // the position refers to the content after any pending edits
+        return this.socket.request(
+            reqId => new messages.ParametersAt(reqId, id, pos),
+            {timeout: NotebookUI.hintRequestTimeout, cancelToken}
+        ).then(
+            response => receiveHints(response.signatures),
+            err => NotebookUI.ignoreCancelled(err, {activeSignature: 0, activeParameter: 0, signatures: []}));
+    }
+
+    // If completions or parameter hints take longer than this, the user has probably moved on.
+    private static hintRequestTimeout = 10000;
+
+    // cancellation means the result isn't needed anymore, so there's no need to treat it as a failure.
+    private static ignoreCancelled<T>(err: any, emptyResult: T): T {
+        if (err instanceof RequestCancelled) {
+            return emptyResult;
+        }
+        throw err;
     }
 
     updateConfig(conf: NotebookConfig) {
+        this.flushContentChanges();
         const update = new messages.UpdateConfig(this.globalVersion, ++this.localVersion, conf);
         this.editBuffer.push(this.localVersion, update);
         this.kernelUI.tasks.clear(); // old tasks no longer relevant with new config.
@@ -789,6 +1037,7 @@ export class NotebookUI extends UIMessageTarget {
     }
 
     private sendUpdate(upd: NotebookUpdate) {
+        this.unconfirmedUpdates.push(upd);
         this.socket.send(upd);
         ClientBackup.updateNb(this.path, upd)
             .catch(err => console.error("Error backing up update", err))
@@ -1,7 +1,7 @@
 'use strict';
 
-import {div, button, iconButton, h4, TagElement, icon, radio} from '../util/tags'
-import {objectEquals, mapValues} from '../util/js_object'
+import {div, button, iconButton, h4, TagElement, icon, radio, dropdown, DropdownElement} from '../util/tags'
+import {objectEquals} from '../util/js_object'
 import {
     BoolType,
     ByteType, DataType,
@@ -16,7 +16,7 @@ import {
 } from "../../data/data_type";
 import {FakeSelect} from "./fake_select";
 import {fakeSelectElem, span, textbox} from "../util/tags";
-import {GroupAgg, TableOp} from "../../data/messages";
+import {Compare, CompareOp, Filter, GroupAgg, Limit, QuantileBin, Sort, TableOp} from "../../data/messages";
 import {Pair} from "../../data/codec";
 import {DataStream, StreamingDataRepr} from "../../data/value_repr";
 import embed, {Result as VegaResult} from "vega-embed";
@@ -26,6 +26,8 @@ import {ClientResult, Output} from "../../data/result";
 import {CellMetadata} from "../../data/data";
 import {EventTarget} from "event-target-shim"
 import {NotebookUI} from "./notebook";
+import {NumberConverter} from "../../data/int64";
+import {isComparable, TableOpsEditor} from "./table_ops_editor";
 
 
 function isDimension(dataType: DataType): boolean {
@@ -86,20 +88,121 @@ function measures(field: StructField, addMeasure: (m: MeasureEl) => void): Measu
     } else return [];
 }
 
-function dimensionType(dataType: DataType): 'nominal' | 'ordinal' | 'quantitative' {
+function dimensionType(dataType: DataType): 'nominal' | 'ordinal' | 'quantitative' | 'temporal' {
     if (dataType instanceof OptionalType) return dimensionType(dataType.element);
     if (dataType === StringType || dataType === BoolType) return 'nominal';
     if (dataType === DoubleType) return 'quantitative';
+    if (dataType === DateType || dataType === TimestampType) return 'temporal';
     return 'ordinal';
 }
 
-type SpecFun = ((this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) => {}) & {
+/**
+ * Makes the spec for a type of plot. Its flags say what the plot needs:
+ *   - rawFields: it plots the rows' numeric fields as they are, rather than aggregating them.
+ *   - binned: its X axis is a numeric field, which is binned by quantile (and the rows in each bin are counted).
+ *   - twoDimensions: it aggregates by a Y dimension as well as the X dimension.
+ *   - noColor: it doesn't use a color dimension (e.g. because its color encodes the measure).
+ *   - vega: it's a Vega (rather than Vega-Lite) spec, which takes care of its own size, color, facets and interaction.
+ *   - selection: how its data can be selected – by dragging a brush over its continuous axes ('interval'), or by
+ *                clicking on a mark ('point').
+ *   - zoom: its continuous axes can be zoomed and panned. (Its brush is then dragged with the shift key held.)
+ */
+type SpecFun = ((this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) => any) & {
     rawFields?: boolean,
+    binned?: boolean,
+    twoDimensions?: boolean,
+    noColor?: boolean,
+    vega?: boolean,
+    selection?: SelectionType,
+    zoom?: boolean,
     allowedAggregates?: string[],
     allAggregates?: boolean,
-    singleMeasure?: boolean
+    singleMeasure?: boolean,
+    colorReplacesX?: boolean  // whether a color dimension is plotted instead of the X dimension (e.g. as a pie's slices)
 };
 
+type FacetDirection = 'row' | 'column';
+
+type SelectionType = 'interval' | 'point';
+
+// a TableOp, as it's saved in a plot's definition
+type TableOpDefinition =
+    {filter: {column: string, op: CompareOp, value: string}} |
+    {sort: [string, boolean][]} |
+    {limit: number} |
+    {aggregate: {columns: string[], aggregations: [string, string][]}} |
+    {bin: {column: string, binCount: number, err: number}};
+
+/**
+ * Everything that the PlotEditor needs to make a plot again. It's saved in the plot's Vega cell (as the spec's
+ * `usermeta`), so that the plot can be reopened in the editor.
+ */
+export interface PlotDefinition {
+    value: string               // the name of the plotted value
+    type: string
+    x?: string
+    yDimension?: string
+    measures: {field: string, agg?: string}[]
+    color?: string
+    facet?: string
+    facetDirection?: FacetDirection
+    binCount?: number
+    title?: string
+    xTitle?: string
+    yTitle?: string
+    width: number
+    height: number
+    ops: TableOpDefinition[]    // the ops which the plot's data stream applies, including the plot's own aggregation
+}
+
+function opDefinition(op: TableOp): TableOpDefinition | undefined {
+    if (op instanceof Filter && op.predicate instanceof Compare) {
+        const {column, op: compareOp, value} = op.predicate;
+        return {filter: {column, op: compareOp, value}};
+    } else if (op instanceof Sort) {
+        return {sort: op.columns.map(pair => [pair.first, pair.second] as [string, boolean])};
+    } else if (op instanceof Limit) {
+        return {limit: op.count};
+    } else if (op instanceof GroupAgg) {
+        return {aggregate: {columns: op.columns, aggregations: op.aggregations.map(pair => [pair.first, pair.second] as [string, string])}};
+    } else if (op instanceof QuantileBin) {
+        return {bin: {column: op.column, binCount: op.binCount, err: op.err}};
+    }
+    return undefined;
+}
+
+// the ops which choose the rows to plot. (The plot's own ops aren't restored, since they're made from its fields.)
+function rowOp(op: TableOpDefinition): TableOp | undefined {
+    if ('filter' in op) {
+        return new Filter(new Compare(op.filter.column, op.filter.op, op.filter.value));
+    } else if ('sort' in op) {
+        return new Sort(op.sort.map(([column, descending]) => new Pair(column, descending)));
+    } else if ('limit' in op) {
+        return new Limit(op.limit);
+    }
+    return undefined;
+}
+
+// the DataStream expression (in a Vega cell) which applies the given ops to a value.
+function streamExpression(name: string, ops: TableOpDefinition[]): string {
+    return ops.reduce((streamSpec, op) => {
+        if ('aggregate' in op) {
+            const aggSpecs = op.aggregate.aggregations.map(([column, agg]) => ({[column]: agg}));
+            return `${streamSpec}.aggregate(${JSON.stringify(op.aggregate.columns)}, ${JSON.stringify(aggSpecs)})`;
+        } else if ('filter' in op) {
+            const {column, op: compareOp, value} = op.filter;
+            return `${streamSpec}.where(${JSON.stringify(column)}, ${JSON.stringify(compareOp)}, ${JSON.stringify(value)})`;
+        } else if ('sort' in op) {
+            return `${streamSpec}.sort(${op.sort.map(column => JSON.stringify(column)).join(', ')})`;
+        } else if ('limit' in op) {
+            return `${streamSpec}.take(${op.limit})`;
+        } else {
+            return `${streamSpec}.bin(${JSON.stringify(op.bin.column)}, ${op.bin.binCount}, ${op.bin.err})`;
+        }
+    }, name);
+}
+
+
 export class PlotEditor extends EventTarget {
     private fields: StructField[];
     container: TagElement<"div">;
@@ -114,7 +217,13 @@ export class PlotEditor extends EventTarget {
     private runButton: TagElement<"button">;
     private cancelButton: TagElement<"button">;
     private currentStream?: DataStream;
+    private rowOps: TableOpsEditor;
     private plotArea: TagElement<"div">;
+    private plotWarning: TagElement<"div">;
+    private plotHint: TagElement<"div">;
+    private filterButton: TagElement<"button">;
+    private selectionType?: SelectionType;
+    private selectionFilters: Compare[] = [];
     private plotTitle: TagElement<"input">;
     private xAxisDrop: TagElement<"div">;
     readonly xTitle: TagElement<"input">;
@@ -123,11 +232,23 @@ export class PlotEditor extends EventTarget {
     private rawFields: boolean;
     private measureSelectors: MeasureEl[];
     private xDimension: StructField;
+    private yDimension?: StructField;
     private yMeasures: MeasureConfig[];
+    private numericTitle: TagElement<"h4">;
+    private colorInput: DropdownElement;
+    private facetInput: DropdownElement;
+    private facetDirectionInput: DropdownElement;
+    private binCountInput: TagElement<"input">;
+    private plotCell?: number; // the cell of the saved plot which is being edited, if there is one
     private spec: any;
     private plot: VegaResult;
 
-    constructor(readonly repr: StreamingDataRepr, private notebook: NotebookUI, readonly name: string, readonly sourceCell: number, readonly plotSavedCb?: () => void) {
+    /**
+     * If `filterToSelection` is given, the plot's selection can be used to filter the value's table – it's given filters
+     * which select the same rows (those of the plot's own row filters, along with those of the selection).
+     */
+    constructor(readonly repr: StreamingDataRepr, private notebook: NotebookUI, readonly name: string, readonly sourceCell: number,
+                readonly plotSavedCb?: () => void, readonly filterToSelection?: (filters: Compare[]) => void) {
         super();
         this.fields = repr.dataType.fields;
 
@@ -142,11 +263,26 @@ export class PlotEditor extends EventTarget {
             button(['selected'], {value: 'bar'}, ['Bar']),
             button([], {value: 'line'}, ['Line']),
             button([], {value: 'xy'}, ['XY Scatter']),
-            button([], {value: 'boxplot'}, ['Box Plot'])
+            button([], {value: 'boxplot'}, ['Box Plot']),
+            button([], {value: 'histogram'}, ['Histogram']),
+            button([], {value: 'heatmap'}, ['Heatmap']),
+            button([], {value: 'area'}, ['Stacked Area']),
+            button([], {value: 'pie'}, ['Pie']),
+            button([], {value: 'donut'}, ['Donut'])
         ]));
 
+        // the dimensions which can color or facet any type of plot
+        const seriesDimensions = (none: string) => {
+            const options: Record<string, string> = {'': none};
+            this.fields.filter(field => isDimension(field.dataType)).forEach(field => options[field.name] = field.name);
+            return options;
+        };
+
         this.specType = normalSpec;
 
+        // the rows to plot – these ops are applied before the plot's own aggregation.
+        this.rowOps = new TableOpsEditor(this.fields);
+
         this.el = div(['plot-editor'], [
             this.controls = div(['left-controls'], [
                 h4(['plot-type-title'], ['Plot type']),
@@ -157,13 +293,29 @@ export class PlotEditor extends EventTarget {
                     span([],'⨉'),
                     this.plotHeightInput = textbox(['plot-height'], 'Height', "480").change(evt => this.plotOutput.style.height = parseInt((evt.target as TagElement<"input">).value, 10) + 'px')
                 ]),
-                h4(['dimension-title'], ['X Axis']),
-                div(['dimension-list'], this.listDimensions()),
                 h4(['measure-title'], ['Y Axis']),
                 div(['measure-list'], this.listMeasures()),
-                h4(['numeric-field-title'], ['Y Axis']),
+                this.numericTitle = h4(['numeric-field-title'], ['Y Axis']),
                 div(['numeric-field-list'], this.listNumerics()),
+                h4(['dimension-title'], ['X Axis']),
+                div(['dimension-list'], this.listDimensions()),
+                h4(['y-dimension-title'], ['Y Dimension']),
+                div(['y-dimension-list'], this.listYDimensions()),
+                h4(['bins-title'], ['Bins']),
+                this.binCountInput = textbox(['bin-count'], 'Number of bins', '20'),
+                h4(['series-title'], ['Color & Facets']),
+                div(['series'], [
+                    this.colorInput = dropdown(['color-dimension'], seriesDimensions('No color')),
+                    this.facetInput = dropdown(['facet-dimension'], seriesDimensions('No facets')),
+                    this.facetDirectionInput = dropdown(['facet-direction'], {row: 'in rows', column: 'in columns'})
+                ]),
+                h4(['rows-title'], ['Rows']),
+                this.rowOps.el,
                 div(['control-buttons'], [
+                    this.filterButton = button(['filter-selection'], {title: 'Filter the table to the selected data'}, [
+                        icon([], 'table', 'filter'),
+                        'Filter table'
+                    ]).click(_ => this.filterToSelection && this.filterToSelection([...this.rowOps.filterComparisons, ...this.selectionFilters])),
                     this.saveButton = button(['save'], {}, [
                         icon([], 'plus-square', 'save'),
                         'Save'
@@ -191,7 +343,9 @@ export class PlotEditor extends EventTarget {
                         span(['placeholder'], ['Choose some Y-axis measure(s)/field(s)']),
                         this.yTitle = textbox([], 'Enter an axis title', '')
                     ])]),
-                    div(['plot-embed'], [])
+                    div(['plot-embed'], []),
+                    this.plotHint = div(['plot-hint'], []),
+                    this.plotWarning = div(['plot-warning'], [])
                 ])
             ])
         ]);
@@ -210,6 +364,7 @@ export class PlotEditor extends EventTarget {
         });
 
         this.saveButton.style.display = 'none';
+        this.filterButton.style.display = 'none';
 
         this.plotOutput.style.width = '960px';
         this.plotOutput.style.height = '480px';
@@ -219,13 +374,92 @@ export class PlotEditor extends EventTarget {
         this.onPlotTypeChange();
     }
 
+    /**
+     * Prefills the editor from a saved plot's definition. Saving the plot will then replace the saved plot's cell, rather
+     * than inserting a new one.
+     */
+    load(definition: PlotDefinition, plotCell: number) {
+        if (!this.el) {
+            return; // not connected
+        }
+
+        this.plotCell = plotCell;
+        this.plotTypeSelector.setState(definition.type);
+        this.onPlotTypeChange();
+
+        const fieldEl = (list: string, name?: string) =>
+            ([...this.controls.querySelectorAll(`.${list} > *`)] as MeasureEl[]).find(el => el.field.name === name);
+        const check = (el: MeasureEl) => (el.querySelector('input') as HTMLInputElement).checked = true;
+
+        const x = fieldEl(this.specType.binned ? 'numeric-field-list' : 'dimension-list', definition.x);
+        if (x) {
+            check(x);
+            this.setXField(x);
+        }
+
+        const yDimension = fieldEl('y-dimension-list', definition.yDimension);
+        if (yDimension) {
+            check(yDimension);
+            this.yDimension = yDimension.field;
+        }
+
+        definition.measures.forEach(measure => {
+            if (measure.agg) {
+                const el = fieldEl('measure-list', measure.field);
+                if (el) {
+                    el.selector.setState(measure.agg);
+                    this.addYField(el);
+                }
+            } else {
+                const el = fieldEl('numeric-field-list', measure.field);
+                if (el) {
+                    check(el);
+                    this.addYField(el);
+                }
+            }
+        });
+
+        this.colorInput.setSelectedValue(definition.color || '');
+        this.facetInput.setSelectedValue(definition.facet || '');
+        this.facetDirectionInput.setSelectedValue(definition.facetDirection || 'row');
+        this.binCountInput.value = `${definition.binCount || 20}`;
+        this.plotTitle.value = definition.title || '';
+        this.xTitle.value = definition.xTitle || '';
+        this.yTitle.value = definition.yTitle || '';
+        this.plotWidthInput.value = `${definition.width}`;
+        this.plotHeightInput.value = `${definition.height}`;
+        this.plotOutput.style.width = `${definition.width}px`;
+        this.plotOutput.style.height = `${definition.height}px`;
+        this.rowOps.setOps(definition.ops.map(rowOp).filter(op => op) as TableOp[]);
+    }
+
+    get definition(): PlotDefinition {
+        return {
+            value: this.name,
+            type: this.plotTypeSelector.value,
+            x: this.xDimension?.name,
+            yDimension: this.specType.twoDimensions ? this.yDimension?.name : undefined,
+            measures: (this.yMeasures || []).map(measure => ({field: measure.field.name, agg: measure.agg})),
+            color: this.colorField?.name,
+            facet: this.facetField?.name,
+            facetDirection: this.facetDirection,
+            binCount: this.specType.binned ? this.binCount : undefined,
+            title: this.plotTitle.value || undefined,
+            xTitle: this.xTitle.value || undefined,
+            yTitle: this.yTitle.value || undefined,
+            width: this.plotWidth,
+            height: this.plotHeight,
+            ops: this.getTableOps().map(opDefinition).filter(op => op) as TableOpDefinition[]
+        };
+    }
+
     get correctYType() {
         if (this.rawFields) return 'numeric';
         return 'measure';
     }
 
     get correctXType() {
-        if (this.rawFields) return 'numeric';
+        if (this.rawFields || this.specType.binned) return 'numeric';
         return 'dimension';
     }
 
@@ -245,6 +479,18 @@ export class PlotEditor extends EventTarget {
         )
     }
 
+    listYDimensions() {
+        return this.fields.filter(field => isDimension(field.dataType)).map(
+            field => {
+                const label =
+                    `${field.name} (${(field.dataType.constructor as typeof DataType).typeName(field.dataType)})`;
+                const radioElement = radio(['set', 'set-dimension'], label, 'y-dimension', false);
+                radioElement.change(_ => this.yDimension = field);
+                return div(['dimension'], [radioElement]).withKey('field', field) as MeasureEl;
+            }
+        )
+    }
+
     listNumerics() {
         return this.fields.filter(field => field.dataType.isNumeric).map(
             field => {
@@ -254,7 +500,8 @@ export class PlotEditor extends EventTarget {
                 const measureElement = div(['numeric'], [
                   radioElement
                 ]).withKey('field', field) as MeasureEl;
-                radioElement.change(_ => this.addYField(measureElement));
+                // a histogram bins the numeric field along its X axis; otherwise, it's plotted on the Y axis.
+                radioElement.change(_ => this.specType.binned ? this.setXField(measureElement) : this.addYField(measureElement));
                 return measureElement;
             }
         )
@@ -273,15 +520,26 @@ export class PlotEditor extends EventTarget {
         }
 
         this.measureSelectors.forEach(el => delete el.style.display);
-        this.controls.classList.remove('numeric-fields');
+        this.controls.classList.remove('numeric-fields', 'binned', 'two-dimensions', 'no-color');
         this.rawFields = false;
 
         const plotType = this.plotTypeSelector.value;
+        this.specType = specialSpecs[plotType] || normalSpec;
         if (specialSpecs[plotType]) {
             const specType = specialSpecs[plotType];
-            this.specType = specType;
+            this.numericTitle.innerText = specType.binned ? 'X Axis' : 'Y Axis';
 
-            if (specType.rawFields) {
+            if (specType.twoDimensions) {
+                this.controls.classList.add('two-dimensions');
+            }
+
+            if (specType.noColor) {
+                this.controls.classList.add('no-color');
+            }
+
+            if (specType.binned) {
+                this.controls.classList.add('binned');
+            } else if (specType.rawFields) {
                 this.controls.classList.add('numeric-fields');
                 this.rawFields = true;
             } else if (specType.allowedAggregates) {
@@ -308,17 +566,77 @@ export class PlotEditor extends EventTarget {
         // TODO - allow dimension vs dimension plot if the plot type allows it
     }
 
+    get yDimensionField(): StructField | undefined {
+        return this.yDimension;
+    }
+
+    // the field whose values color the plot, if there is one
+    get colorField(): StructField | undefined {
+        const name = this.colorInput.getSelectedValue();
+        return name && !this.specType.noColor ? this.fields.find(field => field.name === name) : undefined;
+    }
+
+    // the field whose values split the plot into small multiples, if there is one
+    get facetField(): StructField | undefined {
+        const name = this.facetInput.getSelectedValue();
+        return name ? this.fields.find(field => field.name === name) : undefined;
+    }
+
+    get facetDirection(): FacetDirection {
+        return this.facetDirectionInput.getSelectedValue() as FacetDirection;
+    }
+
+    get binCount(): number {
+        const binCount = parseInt(this.binCountInput.value, 10);
+        return isNaN(binCount) || binCount < 1 ? 20 : binCount;
+    }
+
+    get plotWidth(): number {
+        return +(this.plotWidthInput.value);
+    }
+
+    get plotHeight(): number {
+        return +(this.plotHeightInput.value);
+    }
+
+    // the columns to group by – the plot's dimension(s), and the color and facet dimensions.
+    private groupColumns(...dimensions: string[]): string[] {
+        const columns = [...dimensions];
+        [this.colorField, this.facetField].forEach(field => {
+            if (field && columns.indexOf(field.name) < 0) {
+                columns.push(field.name);
+            }
+        });
+        return columns;
+    }
+
     getTableOps() {
         // TODO - for multiple mods, use diff from last mod
-        const ops: TableOp[] = [];
+        const ops: TableOp[] = this.rowOps.ops;
+        if (this.specType.binned) {
+            if (this.xDimension) {
+                const column = this.xDimension.name;
+                ops.push(
+                    new QuantileBin(column, this.binCount, 1 / this.binCount),
+                    new GroupAgg(this.groupColumns(`${column}_quantized`), [new Pair(column, 'count')])
+                );
+            }
+            return ops;
+        }
+
         if (this.rawFields) {
             return ops;
         }
 
         if (this.xDimension && this.yMeasures?.length) {
+            const dimensions = this.specType.colorReplacesX && this.colorField ? [] : [this.xDimension.name];
+            if (this.specType.twoDimensions && this.yDimension) {
+                dimensions.push(this.yDimension.name);
+            }
+
             ops.push(
                 new GroupAgg(
-                    [this.xDimension.name],
+                    this.groupColumns(...dimensions),
                     this.yMeasures.map(meas => new Pair(meas.field.name, meas.agg!)) // if this.rawFields is false, meas.agg is definitely defined.
                 )
             );
@@ -391,23 +709,205 @@ export class PlotEditor extends EventTarget {
     }
 
     getSpec(plotType: string) {
-        let measures = this.yMeasures || []
+        const specFn = specialSpecs[plotType] || normalSpec;
+        let measures = this.yMeasures || [];
+
+        if (specFn.binned) {
+            // a histogram's only measure is the count of each bin.
+            if (!this.xDimension || !this.xDimension.dataType.isNumeric) {throw 'No numeric field defined';}
+            return this.withSeries(specFn, specFn.call(this, plotType, this.xDimension, []));
+        }
+
         if (!measures.length) {throw 'No measures defined';}
-        if (!this.xDimension) {throw `No dimension defined`;}
-        if(specialSpecs[plotType]) {
-            const specFn = specialSpecs[plotType];
-            if (specFn.allowedAggregates) {
-                measures = measures.filter(measure => specFn.allowedAggregates!.indexOf(measure.agg!) >= 0);
+        if (!this.xDimension || !isDimension(this.xDimension.dataType)) {throw `No dimension defined`;}
+        if (specFn.twoDimensions && !this.yDimension) {throw 'No Y dimension defined';}
+        if (specFn.allowedAggregates) {
+            measures = measures.filter(measure => specFn.allowedAggregates!.indexOf(measure.agg!) >= 0);
+        }
+        if (!measures.length) {
+            throw `No usable measures for ${plotType}`;
+        }
+        if (specFn.singleMeasure) {
+            measures = [measures[0]]
+        }
+        if (this.colorField && measures.length > 1) {
+            // the measures are already told apart by color
+            throw 'A color dimension can only be used with a single measure';
+        }
+        return this.withSeries(specFn, specFn.call(this, plotType, this.xDimension, measures));
+    }
+
+    // adds the color and facet dimensions (and the interaction) to a Vega-Lite spec.
+    private withSeries(specFn: SpecFun, spec: any) {
+        if (specFn.vega) {
+            return spec;
+        }
+
+        const color = this.colorField;
+        if (color) {
+            const units: any[] = spec.layer || [spec];
+            units.forEach(unit => {
+                // marks with a color of their own (like the box plot's median) keep it.
+                if (!(unit.mark && unit.mark.color)) {
+                    unit.encoding.color = {field: color.name, type: 'nominal'};
+                }
+            });
+        }
+
+        this.addInteraction(specFn, spec);
+
+        const facet = this.facetField;
+        if (facet) {
+            const {$schema, data, transform, title, ...inner} = spec;
+            const faceted: any = {
+                $schema,
+                data,
+                facet: {[this.facetDirection]: {field: facet.name, type: dimensionType(facet.dataType)}},
+                spec: inner
+            };
+            if (transform) {
+                faceted.transform = transform;
             }
-            if (!measures.length) {
-                throw `No usable measures for ${plotType}`;
+            return faceted;
+        }
+
+        return spec;
+    }
+
+    // the column of the plotted value which a field of the plot's data comes from, if it comes from one.
+    private column(name: string): StructField | undefined {
+        if (this.specType.binned && this.xDimension && name === `${this.xDimension.name}_quantized`) {
+            return this.xDimension;
+        }
+        return this.fields.find(field => field.name === name);
+    }
+
+    /**
+     * Adds tooltips (with all the fields of the hovered datum) to a Vega-Lite spec, along with the type of plot's
+     * selection and zooming. The selection is made by the plot's main mark (e.g. the box, rather than the whiskers, of a
+     * box plot), over the channels whose fields are columns of the plotted value – so that it can filter the table.
+     */
+    private addInteraction(specFn: SpecFun, spec: any) {
+        const units: any[] = spec.layer || [spec];
+        units.forEach(unit => {
+            unit.mark = typeof unit.mark === 'string' ? {type: unit.mark} : unit.mark;
+            unit.mark.tooltip = {content: 'data'};
+            delete unit.encoding.tooltip;
+        });
+
+        const main = units.find(unit => ['bar', 'rect', 'area', 'line', 'point'].indexOf(unit.mark.type) >= 0) || units[0];
+        const isContinuous = (channel: string) =>
+            main.encoding[channel] && ['quantitative', 'temporal'].indexOf(main.encoding[channel].type) >= 0;
+        const isColumn = (channel: string) => main.encoding[channel] && this.column(main.encoding[channel].field);
+        const selection: any = {};
+
+        // with zooming, dragging pans the plot – so the brush is dragged with the shift key.
+        const shiftDrag = '[mousedown[event.shiftKey], window:mouseup] > window:mousemove!';
+        const zoomEncodings = ['x', 'y'].filter(isContinuous);
+        if (specFn.zoom && zoomEncodings.length) {
+            selection.zoom = {
+                type: 'interval',
+                bind: 'scales',
+                encodings: zoomEncodings,
+                translate: '[mousedown[!event.shiftKey], window:mouseup] > window:mousemove!'
+            };
+        }
+
+        this.selectionType = undefined;
+        if (specFn.selection === 'interval') {
+            const encodings = ['x', 'y'].filter(channel => isContinuous(channel) && isColumn(channel));
+            if (encodings.length) {
+                this.selectionType = 'interval';
+                selection.brush = specFn.zoom
+                    ? {type: 'interval', encodings, on: shiftDrag, translate: shiftDrag, zoom: false}
+                    : {type: 'interval', encodings};
+            }
+        } else if (specFn.selection === 'point') {
+            const encodings = ['x', 'y', 'color'].filter(channel => !isContinuous(channel) && isColumn(channel));
+            if (encodings.length) {
+                this.selectionType = 'point';
+                selection.select = {type: 'single', encodings, clear: 'dblclick'};
             }
-            if (specFn.singleMeasure) {
-                measures = [measures[0]]
+        }
+
+        if (Object.keys(selection).length) {
+            main.selection = selection;
+        }
+
+        if (this.selectionType && !main.encoding.opacity) {
+            main.encoding.opacity = {
+                condition: {selection: this.selectionType === 'interval' ? 'brush' : 'select', value: 1},
+                value: 0.3
+            };
+        }
+    }
+
+    // describes how the plot can be explored.
+    private interactionHint(): string {
+        const hints: string[] = [];
+        if (this.selectionType === 'interval') {
+            hints.push(this.specType.zoom ? 'Shift-drag to select' : 'Drag to select');
+        } else if (this.selectionType === 'point') {
+            hints.push('Click to select, double-click to clear');
+        }
+        if (this.specType.zoom) {
+            hints.push('drag to pan and scroll to zoom');
+        }
+        return hints.join('; ');
+    }
+
+    // follows the plot's selection, so that the table can be filtered to it.
+    private watchSelection(plot: VegaResult) {
+        this.selectionFilters = [];
+        this.filterButton.disabled = true;
+        if (!this.selectionType || !this.filterToSelection) {
+            return;
+        }
+
+        this.filterButton.style.display = '';
+        plot.view.addSignalListener(this.selectionType === 'interval' ? 'brush' : 'select', (_, value) => {
+            this.selectionFilters = this.filtersFor(value || {});
+            this.filterButton.disabled = !this.selectionFilters.length;
+        });
+    }
+
+    /**
+     * The filters which select the same rows as a selection – for an interval, its range of each field, and for a point,
+     * its value of each field. (Fields which the table can't be filtered on are left out.)
+     */
+    private filtersFor(selection: Record<string, any>): Compare[] {
+        return Object.entries(selection).flatMap(([name, value]) => {
+            const column = this.column(name);
+            if (!column || !isComparable(column.dataType)) {
+                return [];
+            }
+
+            const values: any[] = value instanceof Array ? value : [value];
+            if (this.selectionType === 'interval') {
+                // the ends of the brush aren't whole numbers, even if the column's values are.
+                const integral = ([ByteType, ShortType, IntType, LongType] as DataType[]).indexOf(column.dataType) >= 0;
+                const [min, max] = [Math.min(...values), Math.max(...values)];
+                return [
+                    new Compare(column.name, '>=', `${integral ? Math.ceil(min) : min}`),
+                    new Compare(column.name, '<=', `${integral ? Math.floor(max) : max}`)
+                ];
             }
-            return specFn.call(this, plotType, this.xDimension, measures);
+            return values.length ? [new Compare(column.name, '==', `${values[0]}`)] : [];
+        });
+    }
+
+    // sizes a spec to the plot size. Small multiples aren't fit to it, since there could be any number of them – each one
+    // has a third of the plot's size in the direction that they're laid out.
+    private sizeSpec(specFn: SpecFun, spec: any) {
+        if (specFn.vega) {
+            return;
+        } else if (spec.facet) {
+            spec.spec.width = spec.facet.column ? this.plotWidth / 3 : this.plotWidth;
+            spec.spec.height = spec.facet.row ? this.plotHeight / 3 : this.plotHeight;
         } else {
-            return normalSpec.call(this, plotType, this.xDimension, measures);
+            spec.autosize = 'fit';
+            spec.width = this.plotWidth;
+            spec.height = this.plotHeight;
         }
     }
 
@@ -423,7 +923,6 @@ export class PlotEditor extends EventTarget {
             const stream = this.currentStream = new DataStream(this.notebook.socket, this.repr, this.getTableOps()).batch(500);
 
             // TODO: multiple Ys
-            // TODO: encode color
             // TODO: box plot has to be specially handled in order to pre-aggregate, https://github.com/vega/vega-lite/issues/4343
             const plotType = this.plotTypeSelector.value;
 
@@ -433,29 +932,29 @@ export class PlotEditor extends EventTarget {
                 spec.title = this.plotTitle.value;
             }
 
-            spec.autosize = 'fit';
-            spec.width = +(this.plotWidthInput.value);
-            spec.height = +(this.plotHeightInput.value);
+            this.sizeSpec(this.specType, spec);
 
             this.spec = spec;
 
-            const normalizeValues = (x: any) => {
-                if (typeof(x) === 'bigint' && x >= Number.MIN_SAFE_INTEGER && x <= Number.MAX_SAFE_INTEGER) {
-                  return Number(x)
-                }
-                else {
-                  return x;
-                }
-            }
+            // vega needs numbers rather than bigints.
+            const converter = new NumberConverter();
+            this.plotWarning.textContent = "";
+            this.plotHint.textContent = this.interactionHint();
+            this.filterButton.style.display = 'none';
 
             embed(
                 this.plotOutput.querySelector('.plot-embed') as HTMLElement,
                 spec
             ).then(plot => {
+                this.watchSelection(plot);
                 stream
-                    .to(batch => plot.view.insert(this.name, batch.map((obj: object) => mapValues(obj, normalizeValues))).runAsync())
+                    .to(batch => plot.view.insert(this.name, converter.convert(batch)).runAsync())
                     .run()
                     .then(_ => {
+                        if (converter.inexact) {
+                            this.plotWarning.textContent =
+                                `${converter.inexact} value(s) were too large to plot exactly, so they're approximated.`;
+                        }
                         plot.view.resize().runAsync();
                         this.saveButton.style.display = '';
                         this.plotOutput.style.width = (this.plotOutput.querySelector('.plot-embed') as HTMLElement).offsetWidth + "px";
@@ -487,27 +986,32 @@ export class PlotEditor extends EventTarget {
         this.el.classList.remove('running');
     }
 
+    /**
+     * Saves the plot as a Vega cell, whose data is streamed from the plotted value – so re-running the cell plots the
+     * value's current data. The plot's definition is saved along with the spec, so that the plot can be edited later.
+     */
     savePlot() {
         const spec = this.spec;
-        this.spec.data.values = '$DATA_STREAM$';
-        let content = JSON.stringify(this.spec, null, 2);
-        const ops = this.getTableOps();
-        let streamSpec = this.name;
-        ops.forEach(op => {
-            if (op instanceof GroupAgg) {
-                const aggSpecs = op.aggregations.map(pair => {
-                    const obj: Record<string, string> = {};
-                    obj[pair.first] = pair.second;
-                    return obj;
-                });
-                streamSpec = `${streamSpec}.aggregate(${JSON.stringify(op.columns)}, ${JSON.stringify(aggSpecs)})`;
-            } // others TODO
-        });
-        content = content.replace('"$DATA_STREAM$"', streamSpec);
+        const definition = this.definition;
+        spec.usermeta = {plotDefinition: definition};
+
+        // a Vega spec has a list of data sets, of which the stream is the first.
+        (spec.data instanceof Array ? spec.data[0] : spec.data).values = '$DATA_STREAM$';
+        const content = JSON.stringify(spec, null, 2).replace('"$DATA_STREAM$"', streamExpression(this.name, definition.ops));
+
+        const plotCell = this.plotCell !== undefined ? this.notebook.cellUI.getCell(this.plotCell) : undefined;
+        if (plotCell instanceof CodeCell) {
+            // replace the edited plot, and re-run it to display the new one.
+            plotCell.editor.setValue(`(${content})`);
+            this.notebook.runCells(plotCell.id);
+            if (this.plotSavedCb) this.plotSavedCb();
+            return;
+        }
+
         const mkCell = (cellId: number) => new CodeCell(cellId, `(${content})`, 'vega', this.notebook, new CellMetadata(false, true, false));
         VegaClientResult.plotToOutput(this.plot).then(output => {
             this.notebook.insertCell("below", this.sourceCell, mkCell, [output], (cell: CodeCell) => {
-                cell.displayResult(new PlotEditorResult(this.plotOutput.querySelector('.plot-embed') as TagElement<"div">, output))
+                cell.displayResult(new PlotEditorResult(this.plotOutput.querySelector('.plot-embed') as TagElement<"div">, output, spec))
             });
 
             if (this.plotSavedCb) this.plotSavedCb()
@@ -565,10 +1069,17 @@ function normalSpec(this: PlotEditor, plotType: string, xField: StructField, yMe
     return spec;
 }
 
+normalSpec.selection = 'point' as SelectionType;
+
 const specialSpecs: Record<string, SpecFun> = {
     boxplot: boxplotSpec,
     line: lineSpec,
-    xy: xySpec
+    xy: xySpec,
+    area: areaSpec,
+    histogram: histogramSpec,
+    heatmap: heatmapSpec,
+    pie: pieSpec,
+    donut: pieSpec
 };
 
 function xySpec(this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) {
@@ -576,6 +1087,8 @@ function xySpec(this: PlotEditor, plotType: string, xField: StructField, yMeas:
 }
 
 xySpec.rawFields = true;
+xySpec.selection = 'interval' as SelectionType;
+xySpec.zoom = true;
 xySpec.singleMeasure = true;
 xySpec.noAggregates = true;
 
@@ -682,12 +1195,15 @@ function boxplotSpec(this: PlotEditor, plotType: string, xField: StructField, yM
 
 boxplotSpec.allowedAggregates = ['quartiles'];
 boxplotSpec.singleMeasure = true;
+boxplotSpec.selection = 'point' as SelectionType;
 
 function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) {
     if (yMeas instanceof Array && yMeas.length === 1) {
         yMeas = yMeas[0];
     }
 
+    // a line over time should be spaced out by time, rather than evenly.
+    const xType = dimensionType(xField.dataType) === 'temporal' ? 'temporal' : 'ordinal';
     let yField = "";
     let transform: any[] = [];
     let encodeColor: any = false;
@@ -718,7 +1234,7 @@ function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas
                 encoding: {
                     x: {
                         field: xField.name,
-                        type: 'ordinal'
+                        type: xType
                     },
                     y: {
                         field: `${yField}.min`,
@@ -736,7 +1252,7 @@ function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas
                 encoding: {
                     x: {
                         field: xField.name,
-                        type: 'ordinal',
+                        type: xType,
                         axis: { title: this.xTitle.value || xField.name }
                     },
                     y: {
@@ -756,7 +1272,7 @@ function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas
                 encoding: {
                     x: {
                         field: xField.name,
-                        type: 'ordinal'
+                        type: xType
                     },
                     y: {
                         field: `${yField}.median`,
@@ -770,7 +1286,7 @@ function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas
                 encoding: {
                     x: {
                         field: xField.name,
-                        type: 'ordinal'
+                        type: xType
                     },
                     y: {
                         field: `${yField}`,
@@ -787,7 +1303,7 @@ function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas
                 encoding: {
                     x: {
                         field: xField.name,
-                        type: 'ordinal'
+                        type: xType
                     },
                     y: {
                         field: yField,
@@ -815,9 +1331,189 @@ function lineSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas
 }
 
 lineSpec.allAggregates = true;
+lineSpec.selection = 'interval' as SelectionType;
+lineSpec.zoom = true;
+
+// a stacked area is a normal area, except that it's stacked and its X axis is spaced like a line's.
+function areaSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) {
+    const spec = normalSpec.call(this, 'area', xField, yMeas);
+    spec.encoding.x.type = dimensionType(xField.dataType) === 'temporal' ? 'temporal' : 'ordinal';
+    spec.encoding.y.stack = 'zero';
+    return spec;
+}
+
+areaSpec.allowedAggregates = ['mean', 'count', 'sum'];
+areaSpec.selection = 'point' as SelectionType;
+
+function heatmapSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) {
+    if (yMeas instanceof Array) {
+        yMeas = yMeas[0];
+    }
+    const measureName = `${yMeas.agg}(${yMeas.field.name})`;
+    const yField = this.yDimensionField!; // getSpec checks that there's a Y dimension
+    const discreteType = (field: StructField) => dimensionType(field.dataType) === 'nominal' ? 'nominal' : 'ordinal';
+
+    return {
+        $schema: 'https://vega.github.io/schema/vega-lite/v3.json',
+        data: {name: this.name},
+        mark: 'rect',
+        encoding: {
+            x: {
+                field: xField.name,
+                type: discreteType(xField),
+                axis: {title: this.xTitle.value || xField.name}
+            },
+            y: {
+                field: yField.name,
+                type: discreteType(yField),
+                axis: {title: this.yTitle.value || yField.name}
+            },
+            color: {
+                field: measureName,
+                type: 'quantitative'
+            },
+            tooltip: [
+                {field: xField.name, type: discreteType(xField)},
+                {field: yField.name, type: discreteType(yField)},
+                {field: measureName, type: 'quantitative'}
+            ]
+        }
+    };
+}
+
+heatmapSpec.allowedAggregates = ['mean', 'count', 'sum'];
+heatmapSpec.singleMeasure = true;
+heatmapSpec.twoDimensions = true;
+heatmapSpec.noColor = true;
+heatmapSpec.selection = 'point' as SelectionType;
+
+// The bins of a histogram are quantiles, so they have different widths – each bar spans its bin (which ends where the
+// next one starts) and its height is the bin's density, so that the bars' areas are proportional to their counts.
+function histogramSpec(this: PlotEditor, plotType: string, xField: StructField) {
+    const binStart = `${xField.name}_quantized`;
+    const count = `count(${xField.name})`;
+    const series = [this.colorField, this.facetField].filter(field => field).map(field => field!.name);
+    const color = this.colorField;
+
+    return {
+        $schema: 'https://vega.github.io/schema/vega-lite/v3.json',
+        data: {name: this.name},
+        transform: [
+            {
+                window: [{op: 'lead', field: binStart, as: 'next_bin'}],
+                groupby: series,
+                sort: [{field: binStart, order: 'ascending'}]
+            },
+            {calculate: `datum.next_bin !== null ? datum.next_bin : datum['${binStart}']`, as: 'bin_end'},
+            {calculate: `datum.bin_end > datum['${binStart}'] ? datum['${count}'] / (datum.bin_end - datum['${binStart}']) : 0`, as: 'density'}
+        ],
+        mark: color ? {type: 'bar', opacity: 0.6} : 'bar',
+        encoding: {
+            x: {
+                field: binStart,
+                type: 'quantitative',
+                bin: 'binned',
+                axis: {title: this.xTitle.value || xField.name}
+            },
+            x2: {field: 'bin_end'},
+            y: {
+                field: 'density',
+                type: 'quantitative',
+                stack: null,
+                axis: {title: this.yTitle.value || 'density'}
+            },
+            tooltip: [
+                {field: binStart, type: 'quantitative', title: 'from'},
+                {field: 'bin_end', type: 'quantitative', title: 'to'},
+                {field: count, type: 'quantitative', title: 'count'}
+            ]
+        }
+    };
+}
+
+histogramSpec.binned = true;
+histogramSpec.selection = 'interval' as SelectionType;
+
+// Vega-Lite (as of v4.5) has no arc mark, so pie and donut charts are Vega specs. Their slices are the color dimension if
+// there is one, and the X dimension otherwise; each facet is a separate pie.
+function pieSpec(this: PlotEditor, plotType: string, xField: StructField, yMeas: MeasureConfig | MeasureConfig[]) {
+    if (yMeas instanceof Array) {
+        yMeas = yMeas[0];
+    }
+    const measureName = `${yMeas.agg}(${yMeas.field.name})`;
+    const slices = (this.colorField || xField).name;
+    const facet = this.facetField;
+    const facetSize = facet ? 3 : 1;
+    const width = this.facetDirection === 'column' ? this.plotWidth / facetSize : this.plotWidth;
+    const height = this.facetDirection === 'row' ? this.plotHeight / facetSize : this.plotHeight;
+    const radius = Math.max(10, Math.min(width, height) / 2 - 20);
+
+    const pie: any = {
+        type: 'group',
+        encode: {
+            update: {
+                width: {value: radius * 2},
+                height: {value: radius * 2}
+            }
+        },
+        data: [{
+            name: 'slices',
+            source: facet ? 'facet' : this.name,
+            transform: [{type: 'pie', field: measureName}]
+        }],
+        marks: [{
+            type: 'arc',
+            from: {data: 'slices'},
+            encode: {
+                enter: {
+                    fill: {scale: 'color', field: slices},
+                    x: {value: radius},
+                    y: {value: radius},
+                    startAngle: {field: 'startAngle'},
+                    endAngle: {field: 'endAngle'},
+                    innerRadius: {value: plotType === 'donut' ? radius / 2 : 0},
+                    outerRadius: {value: radius},
+                    padAngle: {value: 0.01},
+                    tooltip: {signal: `{'${slices}': datum['${slices}'], '${measureName}': datum['${measureName}']}`}
+                }
+            }
+        }]
+    };
+
+    if (facet) {
+        pie.from = {facet: {name: 'facet', data: this.name, groupby: [facet.name]}};
+        pie.title = {text: {signal: `parent['${facet.name}']`}};
+    }
+
+    const spec: any = {
+        $schema: 'https://vega.github.io/schema/vega/v5.json',
+        data: [{name: this.name}],
+        padding: 10,
+        autosize: 'pad',
+        scales: [{
+            name: 'color',
+            type: 'ordinal',
+            domain: {data: this.name, field: slices},
+            range: {scheme: 'category20'}
+        }],
+        legends: [{fill: 'color', title: slices}],
+        marks: [pie]
+    };
+
+    if (facet) {
+        spec.layout = {padding: 20, columns: this.facetDirection === 'row' ? 1 : undefined};
+    }
+
+    return spec;
+}
+
+pieSpec.allowedAggregates = ['count', 'sum'];
+pieSpec.singleMeasure = true;
+pieSpec.vega = true;
+pieSpec.colorReplacesX = true;
 
 class PlotEditorResult extends ClientResult {
-    constructor(readonly plotEl: TagElement<"div">, readonly output: Output) {
+    constructor(readonly plotEl: TagElement<"div">, readonly output: Output, readonly spec: any) {
         super();
     }
 
@@ -828,4 +1524,12 @@ class PlotEditorResult extends ClientResult {
     toOutput() {
         return Promise.resolve(this.output);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * The definition of a saved plot, if the result is one.
+ */
+export function savedPlotDefinition(result: ClientResult): PlotDefinition | undefined {
+    const spec = result instanceof VegaClientResult || result instanceof PlotEditorResult ? result.spec : undefined;
+    return spec?.usermeta?.plotDefinition;
+}
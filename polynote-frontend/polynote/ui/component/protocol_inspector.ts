@@ -0,0 +1,217 @@
+"use strict";
+
+import {button, div, dropdown, span, table, tag, TableElement, TagElement, textbox} from "../util/tags";
+import {displayData} from "./display_content";
+import {protocolLog, ProtocolLog, ProtocolLogEntry, ReplayServer} from "../../protocol_log";
+import {Message, protocolFingerprint} from "../../data/messages";
+import {SocketSession} from "../../comms";
+import {defaultTransport, loopbackTransport} from "../../transport";
+import {MainUI} from "./ui";
+
+/**
+ * Shows the messages which are sent and received by the UI, as they happen (see ProtocolLog); the log records them until
+ * the inspector is disposed. Captured sessions can be exported, and replayed later – replaying reconnects every session
+ * to a ReplayServer, which sends the messages that were originally received.
+ */
+export class ProtocolInspector {
+    readonly el: TagElement<"div">;
+    private messages: TableElement;
+    private detail: TagElement<"div">;
+    private filterInput: TagElement<"input">;
+    private directionInput: TagElement<"select">;
+    private pauseButton: TagElement<"button">;
+    private replayStatus: TagElement<"span">;
+    private selectedRow?: HTMLElement;
+    // the row of each entry which is displayed, in the order they were recorded.
+    private rows: Map<ProtocolLogEntry, HTMLElement> = new Map();
+
+    // the file which is being replayed, if any. This outlives the inspector, which is recreated whenever it's shown.
+    private static replaying?: string;
+
+    private listeners = {
+        record: (evt: CustomEvent<ProtocolLogEntry>) => this.onRecord(evt.detail),
+        clear: () => this.render()
+    };
+
+    constructor() {
+        const replayInput = tag('input', [], {type: 'file', accept: '.json'}, []).change(() => {
+            const file = replayInput.files?.[0];
+            if (file) {
+                this.replay(file);
+            }
+            replayInput.value = "";
+        });
+
+        this.el = div(['protocol-inspector'], [
+            div(['protocol-inspector-toolbar'], [
+                this.filterInput = textbox(['filter'], 'Filter by type or notebook'),
+                this.directionInput = dropdown(['direction'], {all: 'Sent & received', sent: 'Sent', received: 'Received'}),
+                this.pauseButton = button(['about-button'], {}, [protocolLog.paused ? 'Resume' : 'Pause'])
+                    .click(() => this.togglePause()),
+                button(['about-button'], {}, ['Clear']).click(() => protocolLog.clear()),
+                button(['about-button'], {}, ['Export']).click(() => this.export()),
+                button(['about-button'], {}, ['Replay…']).click(() => replayInput.click()),
+                this.replayStatus = span(['replay-status'], [])
+            ]),
+            div(['protocol-inspector-messages'], [
+                this.messages = table(['messages'], {
+                    header: ['time', 'direction', 'session', 'type', 'size'],
+                    classes: ['time', 'direction', 'session', 'type', 'size'],
+                    rowHeading: false,
+                    addToTop: true
+                })
+            ]),
+            this.detail = div(['protocol-inspector-detail'], ['Select a message to see its fields.'])
+        ]);
+
+        this.filterInput.addEventListener('input', () => this.render());
+        this.directionInput.change(() => this.render());
+
+        protocolLog.addEventListener('record', this.listeners.record);
+        protocolLog.addEventListener('clear', this.listeners.clear);
+        protocolLog.watch();
+
+        this.render();
+        this.updateReplayStatus();
+    }
+
+    dispose() {
+        protocolLog.removeEventListener('record', this.listeners.record);
+        protocolLog.removeEventListener('clear', this.listeners.clear);
+        protocolLog.unwatch();
+    }
+
+    private matches(entry: ProtocolLogEntry): boolean {
+        const direction = this.directionInput.value;
+        if (direction !== 'all' && entry.direction !== direction) {
+            return false;
+        }
+
+        const filter = this.filterInput.value.trim().toLowerCase();
+        return !filter
+            || ProtocolLog.msgTypeName(entry).toLowerCase().includes(filter)
+            || sessionName(entry).toLowerCase().includes(filter);
+    }
+
+    private render() {
+        this.messages.tBodies[0].innerHTML = "";
+        this.rows.clear();
+        protocolLog.entries.filter(entry => this.matches(entry)).forEach(entry => this.addRow(entry));
+    }
+
+    private onRecord(entry: ProtocolLogEntry) {
+        if (this.matches(entry)) {
+            this.addRow(entry);
+        }
+
+        // drop the rows of entries which have been dropped from the log (which are the oldest ones).
+        const oldestSeq = protocolLog.entries[0]?.seq ?? Infinity;
+        for (const [rowEntry, row] of this.rows) {
+            if (rowEntry.seq >= oldestSeq) {
+                break;
+            }
+            row.remove();
+            this.rows.delete(rowEntry);
+        }
+    }
+
+    private addRow(entry: ProtocolLogEntry) {
+        const time = new Date(entry.ts);
+        const row = this.messages.addRow({
+            time: `${time.toLocaleTimeString()}.${time.getMilliseconds().toString().padStart(3, '0')}`,
+            direction: entry.direction === 'sent' ? '→ sent' : '← received',
+            session: sessionName(entry),
+            type: ProtocolLog.msgTypeName(entry),
+            size: `${entry.data.byteLength} B`
+        });
+        row.classList.add(entry.direction);
+        this.rows.set(entry, row);
+        row.click(() => {
+            this.selectedRow?.classList.remove('selected');
+            row.classList.add('selected');
+            this.selectedRow = row;
+            this.showDetail(entry);
+        });
+    }
+
+    private showDetail(entry: ProtocolLogEntry) {
+        const typeName = ProtocolLog.msgTypeName(entry);
+        this.detail.innerHTML = "";
+
+        let fields: TagElement<any>;
+        try {
+            fields = displayData(fieldTree(ProtocolLog.decode(entry)), typeName, 1);
+        } catch (err) {
+            fields = div(['decode-error'], [`${typeName} couldn't be decoded: ${err}`]);
+        }
+
+        this.detail.appendChild(fields);
+    }
+
+    private togglePause() {
+        protocolLog.paused = !protocolLog.paused;
+        this.pauseButton.textContent = protocolLog.paused ? 'Resume' : 'Pause';
+    }
+
+    private export() {
+        const url = URL.createObjectURL(new Blob([protocolLog.export()], {type: 'application/json'}));
+        MainUI.browserDownload(url, `polynote-protocol-${new Date().toISOString()}.json`);
+        window.setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+
+    private replay(file: File) {
+        file.text().then(json => {
+            const capture = ProtocolLog.parse(json);
+            if (capture.protocolFingerprint !== protocolFingerprint &&
+                !confirm("This session was captured with a different protocol version, so it might not replay correctly. Replay it anyway?")) {
+                return;
+            }
+
+            ProtocolInspector.replaying = file.name;
+            SocketSession.useTransport(loopbackTransport(new ReplayServer(capture.entries)));
+            SocketSession.reconnectAll();
+            this.updateReplayStatus();
+        }).catch(err => alert(`Unable to replay ${file.name}: ${err.message ?? err}`));
+    }
+
+    private stopReplay() {
+        ProtocolInspector.replaying = undefined;
+        SocketSession.useTransport(defaultTransport);
+        SocketSession.reconnectAll();
+        this.updateReplayStatus();
+    }
+
+    private updateReplayStatus() {
+        this.replayStatus.innerHTML = "";
+        if (ProtocolInspector.replaying) {
+            this.replayStatus.appendChild(span([], [`Replaying ${ProtocolInspector.replaying}`]));
+            this.replayStatus.appendChild(button(['about-button'], {}, ['Stop replaying']).click(() => this.stopReplay()));
+        }
+    }
+}
+
+// the notebook that the entry's session belongs to, or "global" for the session that isn't for a notebook.
+function sessionName(entry: ProtocolLogEntry): string {
+    const base = new URL(document.baseURI).pathname + 'ws/';
+    return entry.path.startsWith(base) ? decodeURIComponent(entry.path.substring(base.length)) : 'global';
+}
+
+// the message's fields, by name. Values which don't display well (i.e. binary data) are described instead.
+function fieldTree(msg: Message): Map<string, any> {
+    const values = (msg.constructor as typeof Message).unapply(msg);
+    const names = Object.keys(msg);
+    return new Map(values.map((value: any, index: number) => [names.length === values.length ? names[index] : `${index}`, describe(value)]));
+}
+
+function describe(value: any): any {
+    if (value instanceof ArrayBuffer) {
+        return `ArrayBuffer(${value.byteLength} bytes)`;
+    } else if (value instanceof Array) {
+        return value.map(describe);
+    } else if (value && typeof value === 'object') {
+        const result: Record<string, any> = {};
+        Object.entries(value).forEach(([key, field]) => result[key] = describe(field));
+        return result;
+    }
+    return value;
+}
@@ -0,0 +1,318 @@
+"use strict";
+
+import {button, checkbox, div, iconButton, span, TagElement, textbox} from "../util/tags";
+import {AnsiLine, AnsiStyle, AnsiText, plainStyle} from "../../util/ansi";
+import {preferences} from "../util/storage";
+import {MainUI} from "./ui";
+
+export const stdoutFoldKey = preferences.register(
+    "Stdout viewer threshold",
+    12,
+    "Standard output which is longer than this many lines is shown in a scrolling, searchable viewer",
+    {'12 lines': 12, '25 lines': 25, '50 lines': 50, '100 lines': 100, '500 lines': 500});
+
+function styledRun(text: string, style: AnsiStyle): Node {
+    if (style === plainStyle) {
+        return document.createTextNode(text);
+    }
+
+    // standard colors are up to the theme; the rest are given as CSS colors.
+    const [fg, bg] = style.inverse ? [style.bg, style.fg] : [style.fg, style.bg];
+    const classes: string[] = [];
+    if (style.inverse) classes.push('ansi-inverse');
+    if (typeof fg === 'number') classes.push(`ansi-fg-${fg}`);
+    if (typeof bg === 'number') classes.push(`ansi-bg-${bg}`);
+    if (style.bold) classes.push('ansi-bold');
+    if (style.dim) classes.push('ansi-dim');
+    if (style.italic) classes.push('ansi-italic');
+    if (style.underline) classes.push('ansi-underline');
+    if (style.strikethrough) classes.push('ansi-strikethrough');
+
+    const el = span(classes, [text]);
+    if (typeof fg === 'string') el.style.color = fg;
+    if (typeof bg === 'string') el.style.backgroundColor = bg;
+    return el;
+}
+
+interface SearchMatch {
+    line: number
+    start: number
+    end: number
+}
+
+/**
+ * Displays a cell's standard output, with its ANSI colors and styles. Each line of the output is an element, so that
+ * lines which are rewritten (by carriage returns or cursor movement) can be re-rendered in place.
+ *
+ * Once there are more lines than the "Stdout viewer threshold" preference, the output is shown in a scrolling viewer
+ * instead, which only renders the lines that are scrolled into view – so it can display the thousands of lines that
+ * e.g. a Spark job prints. The viewer can search the output, follow its tail while the cell is running, and copy or
+ * download all of it.
+ */
+export class StdoutOutput {
+    static overscan = 20;  // the number of lines which are rendered above and below the visible ones.
+
+    private text = new AnsiText();
+    private lineEls: TagElement<"span">[] = [];
+
+    private viewport?: TagElement<"div">;
+    private canvas: TagElement<"div">;
+    private searchInput: TagElement<"input">;
+    private matchCount: TagElement<"span">;
+    private followInput: HTMLInputElement;
+    private lineHeight = 20;  // measured once lines are rendered.
+    private renderPending = false;
+
+    private query = '';
+    private matches: SearchMatch[] = [];
+    private matchesByLine = new Map<number, SearchMatch[]>();
+    private currentMatch = -1;
+    private matchesStale = false;
+
+    constructor(readonly el: HTMLElement, readonly name: string) {}
+
+    append(content: string) {
+        this.text.write(content);
+        const changedFrom = this.text.takeChanges();
+        if (changedFrom === undefined) {
+            return;
+        }
+
+        this.matchesStale = true;
+        if (this.viewport) {
+            this.scheduleRender();
+        } else if (this.text.lines.length > this.threshold) {
+            this.showViewer();
+        } else {
+            this.renderInline(changedFrom);
+        }
+    }
+
+    // the tail of the output can only be followed while its cell is running.
+    setRunning(running: boolean) {
+        this.el.classList.toggle('running', running);
+    }
+
+    get plainText(): string {
+        return this.text.lines.map(line => line.text).join('\n');
+    }
+
+    private get threshold(): number {
+        return Number(preferences.get(stdoutFoldKey).value) || 12;
+    }
+
+    private get following(): boolean {
+        return this.el.classList.contains('running') && this.followInput.checked;
+    }
+
+    private renderInline(changedFrom: number) {
+        const lines = this.text.lines;
+        if (lines.length < this.lineEls.length) {
+            // lines were erased; start again.
+            this.el.innerHTML = '';
+            this.lineEls = [];
+            changedFrom = 0;
+        }
+
+        // the previous last line is terminated if lines were added after it.
+        const from = Math.max(0, Math.min(changedFrom, this.lineEls.length - 1));
+        for (let i = from; i < lines.length; i++) {
+            const isLast = i === lines.length - 1;
+            if (i < this.lineEls.length) {
+                this.lineEls[i].innerHTML = '';
+                this.renderLine(this.lineEls[i], lines[i]);
+            } else {
+                this.lineEls.push(this.renderLine(span(['ansi-line'], []), lines[i]));
+                this.el.appendChild(this.lineEls[i]);
+            }
+            if (!isLast) {
+                this.lineEls[i].appendChild(document.createTextNode('\n'));
+            }
+        }
+    }
+
+    private renderLine<T extends HTMLElement>(lineEl: T, line: AnsiLine, matches: SearchMatch[] = []): T {
+        let pos = 0;
+        line.runs.forEach(([text, style]) => {
+            const end = pos + text.length;
+            let at = pos;
+            matches.filter(match => match.start < end && match.end > pos).forEach(match => {
+                if (match.start > at) {
+                    lineEl.appendChild(styledRun(text.substring(at - pos, match.start - pos), style));
+                    at = match.start;
+                }
+                const to = Math.min(match.end, end);
+                const isCurrent = match === this.matches[this.currentMatch];
+                lineEl.appendChild(
+                    span(isCurrent ? ['search-match', 'current'] : ['search-match'], [styledRun(text.substring(at - pos, to - pos), style)]));
+                at = to;
+            });
+            if (at < end) {
+                lineEl.appendChild(styledRun(text.substring(at - pos), style));
+            }
+            pos = end;
+        });
+        return lineEl;
+    }
+
+    private showViewer() {
+        const prevButton = iconButton(['search-prev'], 'Previous match (Shift+Enter)', 'arrow-up', 'Previous');
+        const nextButton = iconButton(['search-next'], 'Next match (Enter)', 'arrow-down', 'Next');
+        const follow = checkbox(['follow-tail'], 'Follow output', true);
+        this.followInput = follow.querySelector('input')!;
+
+        this.el.innerHTML = '';
+        this.el.classList.add('stdout-viewer');
+        this.el.appendChild(div(['stdout-toolbar'], [
+            this.searchInput = textbox(['search-output'], 'Search output'),
+            this.matchCount = span(['match-count'], []),
+            prevButton,
+            nextButton,
+            follow,
+            button(['copy-output'], {title: 'Copy all of the output'}, ['Copy']).click(() => this.copy()),
+            button(['download-output'], {title: 'Download all of the output'}, ['Download']).click(() => this.download())
+        ]));
+        this.el.appendChild(this.viewport = div(['stdout-lines'], [
+            this.canvas = div(['stdout-canvas'], [])
+        ]));
+        this.lineEls = [];
+
+        this.searchInput.addEventListener('input', () => this.search(this.searchInput.value));
+        this.searchInput.addEventListener('keydown', (evt: KeyboardEvent) => {
+            if (evt.key === 'Enter') {
+                evt.preventDefault();
+                this.nextMatch(evt.shiftKey ? -1 : 1);
+            }
+        });
+        this.searchInput.addEventListener('Cancel', () => this.search(this.searchInput.value = ''));
+        prevButton.click(() => this.nextMatch(-1));
+        nextButton.click(() => this.nextMatch(1));
+        this.followInput.addEventListener('change', () => this.scheduleRender());
+
+        // scrolling away from the end of the output stops following it; scrolling back to the end follows it again.
+        let lastScrollTop = 0;
+        this.viewport.addEventListener('scroll', () => {
+            const viewport = this.viewport!;
+            if (viewport.scrollTop < lastScrollTop) {
+                this.followInput.checked = false;
+            } else if (viewport.scrollTop + viewport.clientHeight >= viewport.scrollHeight - this.lineHeight) {
+                this.followInput.checked = true;
+            }
+            lastScrollTop = viewport.scrollTop;
+            this.scheduleRender();
+        });
+
+        this.render();
+    }
+
+    private scheduleRender() {
+        if (!this.renderPending) {
+            this.renderPending = true;
+            window.requestAnimationFrame(() => {
+                this.renderPending = false;
+                this.render();
+            });
+        }
+    }
+
+    private render() {
+        const viewport = this.viewport;
+        if (!viewport) {
+            return;
+        }
+
+        if (this.matchesStale) {
+            this.findMatches();
+        }
+
+        const lines = this.text.lines;
+        this.canvas.style.height = `${lines.length * this.lineHeight}px`;
+        if (this.following) {
+            viewport.scrollTop = viewport.scrollHeight;
+        }
+
+        // a viewer which isn't displayed yet has no height, so render a reasonable number of lines for when it is.
+        const viewHeight = viewport.clientHeight || this.lineHeight * StdoutOutput.overscan;
+        const first = Math.max(0, Math.floor(viewport.scrollTop / this.lineHeight) - StdoutOutput.overscan);
+        const last = Math.min(lines.length, Math.ceil((viewport.scrollTop + viewHeight) / this.lineHeight) + StdoutOutput.overscan);
+
+        this.canvas.innerHTML = '';
+        for (let i = first; i < last; i++) {
+            const lineEl = this.renderLine(div(['ansi-line'], []), lines[i], this.matchesByLine.get(i));
+            lineEl.style.top = `${i * this.lineHeight}px`;
+            this.canvas.appendChild(lineEl);
+        }
+
+        // the height of the lines depends on the styles, so it's measured once they're rendered.
+        const height = (this.canvas.firstChild as HTMLElement | null)?.offsetHeight;
+        if (height && height !== this.lineHeight) {
+            this.lineHeight = height;
+            this.render();
+        }
+    }
+
+    private search(query: string) {
+        this.query = query.toLowerCase();
+        this.currentMatch = -1;
+        this.findMatches();
+        if (this.matches.length) {
+            this.nextMatch(1);
+        } else {
+            this.render();
+        }
+    }
+
+    private findMatches() {
+        this.matchesStale = false;
+        this.matches = [];
+        this.matchesByLine.clear();
+
+        const query = this.query;
+        if (query) {
+            this.text.lines.forEach((line, index) => {
+                const text = line.text.toLowerCase();
+                const lineMatches: SearchMatch[] = [];
+                for (let start = text.indexOf(query); start >= 0; start = text.indexOf(query, start + query.length)) {
+                    lineMatches.push({line: index, start, end: start + query.length});
+                }
+                if (lineMatches.length) {
+                    this.matches.push(...lineMatches);
+                    this.matchesByLine.set(index, lineMatches);
+                }
+            });
+        }
+
+        this.currentMatch = Math.min(this.currentMatch, this.matches.length - 1);
+        this.matchCount.innerText = !query ? '' :
+            this.matches.length ? `${this.currentMatch + 1} of ${this.matches.length}` : 'No matches';
+    }
+
+    // moves to the next (or previous) match, scrolling it into view.
+    private nextMatch(direction: 1 | -1) {
+        const count = this.matches.length;
+        if (!count) {
+            return;
+        }
+
+        this.currentMatch = this.currentMatch < 0 && direction < 0 ? count - 1 : (this.currentMatch + direction + count) % count;
+        this.matchCount.innerText = `${this.currentMatch + 1} of ${count}`;
+
+        const viewport = this.viewport!;
+        const top = this.matches[this.currentMatch].line * this.lineHeight;
+        if (top < viewport.scrollTop || top + this.lineHeight > viewport.scrollTop + viewport.clientHeight) {
+            this.followInput.checked = false;
+            viewport.scrollTop = top - viewport.clientHeight / 2;
+        }
+        this.render();
+    }
+
+    private copy() {
+        navigator.clipboard.writeText(this.plainText).catch(err => console.error("Unable to copy output", err));
+    }
+
+    private download() {
+        const url = URL.createObjectURL(new Blob([this.plainText], {type: 'text/plain'}));
+        MainUI.browserDownload(url, `${this.name}.txt`);
+        window.setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+}
@@ -0,0 +1,150 @@
+"use strict";
+
+import {div, span, table, TableElement, TableRowElement, TagElement} from "../util/tags";
+import {DataStream, StreamingDataRepr} from "../../data/value_repr";
+import {StructField} from "../../data/data_type";
+import {ColumnStats, columnStats, histogram, HistogramBin, isNumeric} from "../../data/column_summary";
+import * as messages from "../../data/messages";
+import {NotebookUI} from "./notebook";
+
+function formatNumber(n?: number): string {
+    if (n === undefined) {
+        return '';
+    } else if (Number.isInteger(n)) {
+        return n.toString();
+    }
+    return parseFloat(n.toPrecision(6)).toString();
+}
+
+function errorMessage(err: any): string {
+    return err instanceof messages.Error ? err.error.message : err instanceof Error ? err.message : `${err}`;
+}
+
+const svgNS = "http://www.w3.org/2000/svg";
+
+/**
+ * Draws a histogram as a sparkline. The bins are quantiles, so they have different widths; each bar is drawn as wide as
+ * its bin, and as tall as its density. (Bins which are too narrow to see – or empty, because a value repeats – are drawn
+ * with a minimum width.)
+ */
+function sparkline(bins: HistogramBin[], width: number = 120, height: number = 24): SVGSVGElement {
+    const svg = document.createElementNS(svgNS, 'svg');
+    svg.setAttribute('class', 'sparkline');
+    svg.setAttribute('width', width.toString());
+    svg.setAttribute('height', height.toString());
+
+    if (!bins.length) {
+        return svg;
+    }
+
+    const min = bins[0].start;
+    const range = bins[bins.length - 1].end - min;
+    const minWidth = range > 0 ? range / (bins.length * 4) : 1;
+    const widths = bins.map(bin => Math.max(bin.end - bin.start, minWidth));
+    const densities = bins.map((bin, i) => bin.count / widths[i]);
+    const extent = Math.max(...bins.map((bin, i) => bin.start + widths[i])) - min;
+    const maxDensity = Math.max(...densities) || 1;
+
+    bins.forEach((bin, i) => {
+        const barHeight = Math.max(1, densities[i] / maxDensity * height);
+        const bar = document.createElementNS(svgNS, 'rect');
+        bar.setAttribute('x', ((bin.start - min) / extent * width).toString());
+        bar.setAttribute('y', (height - barHeight).toString());
+        bar.setAttribute('width', Math.max(1, widths[i] / extent * width).toString());
+        bar.setAttribute('height', barHeight.toString());
+
+        const title = document.createElementNS(svgNS, 'title');
+        title.textContent = `${formatNumber(bin.start)} – ${formatNumber(bin.end)}: ${bin.count}`;
+        bar.appendChild(title);
+        svg.appendChild(bar);
+    });
+    return svg;
+}
+
+/**
+ * A profile of each column of a StreamingDataRepr – its count of values, nulls and distinct values and, for numeric
+ * columns, its quartiles and a histogram. It's computed the first time that it's displayed.
+ */
+export class SummaryView {
+    static binCount = 20;
+
+    readonly el: TagElement<"div">;
+    private status: TagElement<"span">;
+    private tableEl: TableElement;
+    private rows: Record<string, TableRowElement> = {};
+    private loaded = false;
+
+    constructor(readonly repr: StreamingDataRepr, readonly notebook: NotebookUI) {
+        this.el = div(['summary-view'], [
+            this.status = span(['status'], []),
+            this.tableEl = table(['summary-table'], {
+                header: ['Column', 'Type', 'Count', 'Nulls', 'Distinct', 'Min', 'Q1', 'Median', 'Mean', 'Q3', 'Max', 'Histogram'],
+                classes: ['name', 'type', 'count', 'nulls', 'distinct', 'min', 'q1', 'median', 'mean', 'q3', 'max', 'histogram'],
+                rowHeading: true
+            })
+        ]);
+
+        this.repr.dataType.fields.forEach((field: StructField) => {
+            this.rows[field.name] = this.tableEl.addRow({name: field.name, type: field.dataType.typeName()});
+        });
+
+        this.el.addEventListener('TabDisplayed', () => this.load());
+    }
+
+    private stream() {
+        return new DataStream(this.notebook.socket, this.repr);
+    }
+
+    private load() {
+        if (this.loaded) {
+            return;
+        }
+        this.loaded = true;
+
+        if (!this.notebook.socket.isOpen) {
+            this.status.innerText = 'Not connected to server – must be connected in order to summarize data.';
+            return;
+        }
+
+        this.el.classList.add('loading');
+        this.status.innerText = 'Computing summary…';
+        columnStats(this.stream()).then(stats => {
+            Object.entries(stats).forEach(([name, columnStats]) => this.showStats(name, columnStats));
+            this.status.innerText = 'Computing histograms…';
+            return this.loadHistograms(stats);
+        }).then(() => {
+            this.status.innerText = '';
+        }).catch(err => {
+            this.status.innerText = `Unable to summarize data: ${errorMessage(err)}`;
+        }).then(() => this.el.classList.remove('loading'));
+    }
+
+    private showStats(name: string, stats: ColumnStats) {
+        const quartiles = stats.quartiles;
+        this.rows[name].updateValues({
+            count: formatNumber(stats.count),
+            nulls: formatNumber(stats.nulls),
+            distinct: formatNumber(stats.distinct),
+            min: formatNumber(quartiles?.min),
+            q1: formatNumber(quartiles?.q1),
+            median: formatNumber(quartiles?.median),
+            mean: formatNumber(quartiles?.mean),
+            q3: formatNumber(quartiles?.q3),
+            max: formatNumber(quartiles?.max)
+        });
+    }
+
+    // the histograms are computed one column at a time, so as not to swamp the kernel
+    private loadHistograms(stats: Record<string, ColumnStats>): Promise<void> {
+        const columns = this.repr.dataType.fields.filter((field: StructField) => isNumeric(field.dataType) && stats[field.name].count);
+        return columns.reduce<Promise<void>>(
+            (prev, field: StructField) => prev.then(() =>
+                histogram(this.stream(), field.name, SummaryView.binCount, stats[field.name].quartiles?.max).then(bins => {
+                    this.rows[field.name].updateValues({histogram: sparkline(bins)});
+                }).catch(err => {
+                    this.rows[field.name].updateValues({histogram: span(['error'], ['unavailable']).attr('title', errorMessage(err))});
+                })
+            ),
+            Promise.resolve());
+    }
+}
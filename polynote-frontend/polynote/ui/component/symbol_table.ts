@@ -1,11 +1,14 @@
 import {UIMessageTarget} from "../util/ui_event";
-import {div, h3, span, table, TableElement, TableRowElement, TagElement} from "../util/tags";
+import {Content, div, h3, span, table, TableElement, TableRowElement, TagElement} from "../util/tags";
 import {ValueInspector} from "./value_inspector";
 import {ResultValue} from "../../data/result";
 import {NotebookUI} from "./notebook";
+import {UpdatingDataRepr} from "../../data/value_repr";
+import {LiveValue, liveIndicator, liveValueText, showLive} from "./live_value";
 
 interface ResultRow extends TableRowElement {
     resultValue: ResultValue
+    stopLive?: () => void
     data: {
         name: string,
         type: string
@@ -41,16 +44,41 @@ export class KernelSymbolsUI extends UIMessageTarget {
         this.scopeSymbols = this.tableEl.addBody().addClass('scope-symbols');
     }
 
+    // the type of the value and, if it's live, its current value (which is kept up to date while the row is displayed)
+    private typeContent(resultValue: ResultValue, tr: ResultRow): Content {
+        tr.stopLive?.();
+        tr.stopLive = undefined;
+
+        const type = span([], [resultValue.typeName]).attr('title', resultValue.typeName);
+        const repr = resultValue.reprs.find(repr => repr instanceof UpdatingDataRepr) as UpdatingDataRepr | undefined;
+        if (!repr) {
+            return type;
+        }
+
+        const live = LiveValue.get(repr, this.notebook);
+        const indicator = liveIndicator();
+        const value = span(['live-value-text'], [resultValue.valueText]);
+        showLive(indicator, live);
+        tr.stopLive = live.onUpdate(() => {
+            showLive(indicator, live);
+            if (live.hasValue) {
+                value.innerText = liveValueText(live);
+            }
+        }, tr);
+        return [type, span(['live-value'], [indicator, value])];
+    }
+
     updateRow(tr: ResultRow, resultValue: ResultValue) {
         tr.resultValue = resultValue;
-        tr.updateValues({type: span([], resultValue.typeName).attr('title', resultValue.typeName)})
+        tr.updateValues({type: this.typeContent(resultValue, tr)})
     }
 
     addRow(resultValue: ResultValue, whichBody: TagElement<"tbody">) {
         const tr = this.tableEl.addRow({
             name: resultValue.name,
-            type: span([], [resultValue.typeName]).attr('title', resultValue.typeName)
+            type: ''
         }, whichBody) as ResultRow;
+        tr.updateValues({type: this.typeContent(resultValue, tr)});
         tr.onclick = (evt) => {
             ValueInspector.get().setParent(this).inspect(tr.resultValue, this.notebook);
         };
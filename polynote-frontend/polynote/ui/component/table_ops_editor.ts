@@ -0,0 +1,187 @@
+"use strict";
+
+import {button, div, dropdown, DropdownElement, iconButton, span, tag, TagElement, textbox} from "../util/tags";
+import {BoolType, ByteType, DataType, NumericTypes, StringType, StructField} from "../../data/data_type";
+import {Compare, CompareOp, Filter, Limit, Sort, TableOp} from "../../data/messages";
+import {Pair} from "../../data/codec";
+
+// the types of the fields which can be compared and sorted (on every kind of server-side table).
+export function isComparable(dataType: DataType): boolean {
+    return NumericTypes.indexOf(dataType) >= 0 || dataType === ByteType || dataType === StringType || dataType === BoolType;
+}
+
+/**
+ * Edits the Filter, Sort and Limit operations which are applied to a table's DataStream. The filters are a conjunction –
+ * each comparison becomes its own Filter – and they're applied before sorting and limiting.
+ */
+export class TableOpsEditor {
+    readonly el: TagElement<"div">;
+    private fields: StructField[];
+    private filters: Compare[] = [];
+    private sortColumns: [string, boolean][] = [];
+    private limit?: number;
+
+    private filterList: TagElement<"span">;
+    private filterColumn: DropdownElement;
+    private filterOp: DropdownElement;
+    private filterValue: TagElement<"input">;
+    private sortList: TagElement<"span">;
+    private sortColumn: DropdownElement;
+    private limitInput: TagElement<"input">;
+
+    constructor(fields: StructField[], private readonly onChange: () => void = () => {}) {
+        this.fields = fields.filter(field => isComparable(field.dataType));
+        const columns: Record<string, string> = {};
+        this.fields.forEach(field => columns[field.name] = field.name);
+        const ops: Record<string, string> = {};
+        Compare.ops.forEach(op => ops[op] = op);
+
+        this.el = div(['table-ops'], [
+            div(['table-ops-filter'], [
+                span(['label'], ['Filter']),
+                this.filterList = span(['table-ops-list'], []),
+                this.filterColumn = dropdown(['column'], columns),
+                this.filterOp = dropdown(['op'], ops),
+                this.filterValue = textbox(['value'], 'Value'),
+                button(['add'], {}, ['Add']).click(() => this.addFilter())
+            ]),
+            div(['table-ops-sort'], [
+                span(['label'], ['Sort']),
+                this.sortList = span(['table-ops-list'], []),
+                this.sortColumn = dropdown(['column'], columns),
+                button(['add'], {}, ['Add']).click(() => this.addSort())
+            ]),
+            div(['table-ops-limit'], [
+                span(['label'], ['Limit']),
+                this.limitInput = tag('input', ['limit'], {type: 'number', min: '0', placeholder: 'All rows'}, [])
+                    .change(() => this.setLimit())
+            ])
+        ]);
+
+        this.filterValue.addEventListener('Accept', () => this.addFilter());
+        this.filterValue.addEventListener('input', () => this.filterValue.classList.remove('invalid'));
+
+        if (!this.fields.length) {
+            this.el.classList.add('no-fields');
+        }
+    }
+
+    get ops(): TableOp[] {
+        const ops: TableOp[] = this.filters.map(compare => new Filter(compare));
+        if (this.sortColumns.length) {
+            ops.push(new Sort(this.sortColumns.map(([column, descending]) => new Pair(column, descending))));
+        }
+        if (this.limit !== undefined) {
+            ops.push(new Limit(this.limit));
+        }
+        return ops;
+    }
+
+    // the comparisons of the filters, which are all applied.
+    get filterComparisons(): Compare[] {
+        return [...this.filters];
+    }
+
+    // replaces the ops (e.g. with ones that were saved); ops which the editor doesn't handle are ignored.
+    setOps(ops: TableOp[]) {
+        this.filters = [];
+        this.sortColumns = [];
+        this.limit = undefined;
+        ops.forEach(op => {
+            if (op instanceof Filter && op.predicate instanceof Compare) {
+                this.filters.push(op.predicate);
+            } else if (op instanceof Sort) {
+                this.sortColumns = op.columns.map(pair => [pair.first, pair.second] as [string, boolean]);
+            } else if (op instanceof Limit) {
+                this.limit = op.count;
+            }
+        });
+        this.limitInput.value = this.limit !== undefined ? `${this.limit}` : '';
+        this.renderFilters();
+        this.renderSort();
+        this.onChange();
+    }
+
+    // replaces the filters, keeping the sort and limit.
+    setFilters(filters: Compare[]) {
+        this.filters = filters.filter(compare => this.fields.find(field => field.name === compare.column));
+        this.renderFilters();
+        this.onChange();
+    }
+
+    private addFilter() {
+        const column = this.filterColumn.getSelectedValue();
+        const op = this.filterOp.getSelectedValue() as CompareOp;
+        const value = this.filterValue.value.trim();
+        const field = this.fields.find(field => field.name === column);
+        if (!field) {
+            return;
+        }
+
+        // the server parses the value according to the column's type, so catch the obvious mistakes here.
+        const invalid =
+            (op !== 'contains' && NumericTypes.indexOf(field.dataType) >= 0 && (value === '' || isNaN(+value))) ||
+            (op !== 'contains' && field.dataType === BoolType && value !== 'true' && value !== 'false');
+
+        if (invalid) {
+            this.filterValue.classList.add('invalid');
+            return;
+        }
+
+        this.filters.push(new Compare(column, op, value));
+        this.filterValue.value = '';
+        this.renderFilters();
+        this.onChange();
+    }
+
+    private addSort() {
+        const column = this.sortColumn.getSelectedValue();
+        if (!column || this.sortColumns.find(([name]) => name === column)) {
+            return;
+        }
+        this.sortColumns.push([column, false]);
+        this.renderSort();
+        this.onChange();
+    }
+
+    private setLimit() {
+        const limit = parseInt(this.limitInput.value, 10);
+        this.limit = isNaN(limit) || limit < 0 ? undefined : limit;
+        this.onChange();
+    }
+
+    private renderFilters() {
+        this.filterList.innerHTML = '';
+        this.filters.forEach(compare => this.filterList.appendChild(
+            span(['table-op'], [
+                `${compare.column} ${compare.op} ${compare.value}`,
+                iconButton(['remove'], 'Remove', 'times-circle', 'X').click(() => {
+                    this.filters.splice(this.filters.indexOf(compare), 1);
+                    this.renderFilters();
+                    this.onChange();
+                })
+            ])
+        ));
+    }
+
+    private renderSort() {
+        this.sortList.innerHTML = '';
+        this.sortColumns.forEach(sortColumn => {
+            const [column, descending] = sortColumn;
+            this.sortList.appendChild(
+                span(['table-op'], [
+                    button(['direction'], {title: 'Reverse the sort order'}, [`${column} ${descending ? '↓' : '↑'}`]).click(() => {
+                        sortColumn[1] = !descending;
+                        this.renderSort();
+                        this.onChange();
+                    }),
+                    iconButton(['remove'], 'Remove', 'times-circle', 'X').click(() => {
+                        this.sortColumns.splice(this.sortColumns.indexOf(sortColumn), 1);
+                        this.renderSort();
+                        this.onChange();
+                    })
+                ])
+            );
+        });
+    }
+}
@@ -1,38 +1,38 @@
 "use strict";
 
 import {DataStream, LazyDataRepr, StreamingDataRepr, UpdatingDataRepr} from "../../data/value_repr";
-import {div, iconButton, span, table, TableElement, tag, TagElement} from "../util/tags";
-import {StructType, ArrayType, StructField, DataType} from "../../data/data_type";
+import {div, dropdown, DropdownElement, iconButton, span, tag, TagElement} from "../util/tags";
+import {StructType, StructField} from "../../data/data_type";
 import {SocketSession} from "../../comms";
+import * as messages from "../../data/messages";
 import {NotebookUI} from "./notebook";
-import {displayData} from "./display_content";
-
-function renderData(fieldName: string | undefined, dataType: DataType, data: any): HTMLElement {
-    // TODO: nicer display
-    if (dataType instanceof ArrayType || dataType instanceof StructType) {
-        return displayData(data, fieldName);
-    } else if (data !== null && data !== undefined) {
-        return span([], data.toString()).attr('title', data.toString())
-    }
-    return span([], "<null>")
-}
+import {TableOpsEditor} from "./table_ops_editor";
+import {DataGrid} from "./data_grid";
+import {ExportControls} from "./export_controls";
+import {StreamCache} from "../../data/stream_cache";
 
 export class TableView {
+    static pageSizes = [20, 100, 500, 1000, 5000];
+
     private fields: StructField[];
     el: TagElement<"div">;
-    private table: TableElement;
+    private grid: DataGrid;
     private paginator: TagElement<"div">;
+    private firstButton: TagElement<"button">;
     private prevButton: TagElement<"button">;
     private nextButton: TagElement<"button">;
-    private stream: DataStream;
-    private rows: Record<string, any>[]; // TODO: anything better than `any` here?
-    private currentPos: number;
+    private rangeLabel: TagElement<"span">;
+    private statusLabel: TagElement<"span">;
+    private opsEditor?: TableOpsEditor;
+    private cache: StreamCache;
+    private pageSize = 100;
+    private currentPos?: number; // the index of the first displayed row, once a page has been loaded.
+    private displayedCount = 0;
+    private showToken = 0;
 
-    constructor(readonly repr: StreamingDataRepr, readonly notebook: NotebookUI) {
+    constructor(readonly repr: StreamingDataRepr, readonly notebook: NotebookUI, name: string = 'data') {
         const dataType = repr.dataType;
         this.fields = dataType.fields || [new StructField("entries", dataType)]; // if dataType is not a StructType, create a dummy entry for it.
-        const fieldClasses = this.fields.map(field => field.name);
-        const fieldNames = this.fields.map(field => `${field.name}: ${field.dataType.typeName()}`);
 
         if (!notebook.socket.isOpen) {
             this.el = div(['table-view', 'disconnected'], [
@@ -41,68 +41,159 @@ export class TableView {
             return;
         }
 
+        if (dataType instanceof StructType) {
+            this.opsEditor = new TableOpsEditor(this.fields, () => this.reload());
+        }
+
+        this.grid = new DataGrid(this.fields);
+
+        const pageSizes: Record<string, string> = {};
+        TableView.pageSizes.forEach(size => pageSizes[size] = `${size} rows`);
+
+        let pageSizeInput: DropdownElement;
+        let goToInput: TagElement<"input">;
         this.el = div(['table-view'], [
-            this.table = table([], {
-                header: fieldNames,
-                classes: fieldClasses,
-                rows: []
-            }),
+            ...(this.opsEditor ? [this.opsEditor.el] : []),
+            this.grid.el,
             this.paginator = div(['paginator'], [
+                this.firstButton = iconButton([], 'First page', 'fast-backward', '|<< First').disable().click(evt => this.show(0)),
                 this.prevButton = iconButton([], 'Previous page', 'step-backward', '<< Prev').disable().click(evt => this.pagePrev()),
-                this.nextButton = iconButton([], 'Next page', 'step-forward', 'Next >>').click(evt => this.pageNext())
-            ])
+                this.nextButton = iconButton([], 'Next page', 'step-forward', 'Next >>').click(evt => this.pageNext()),
+                this.rangeLabel = span(['range'], []),
+                (pageSizeInput = dropdown(['page-size'], pageSizes, this.pageSize.toString())).change(() => {
+                    this.pageSize = parseInt(pageSizeInput.getSelectedValue(), 10);
+                    if (this.currentPos !== undefined) {
+                        this.show(this.currentPos);
+                    }
+                }),
+                goToInput = tag('input', ['go-to'], {type: 'number', min: '1', placeholder: 'Go to row'}, []).change(() => {
+                    const row = parseInt(goToInput.value, 10);
+                    if (!isNaN(row) && row > 0) {
+                        this.show(row - 1);
+                    }
+                }),
+                this.statusLabel = span(['status'], [])
+            ]),
+            // the export has the current table operations, too.
+            new ExportControls(() => new DataStream(this.notebook.socket, this.repr, this.opsEditor?.ops), name).el
+        ]);
+
+        this.grid.showMessage(['initial-msg'], [
+            'Click "next page" (', span(['fas', 'icon'], 'step-forward'), ') to load data.', tag('br'),
+            'This will force evaluation of lazy data.'
         ]);
 
-        this.table.tBodies.item(0)!.appendChild(
-            tag('tr', ['initial-msg'], {}, [
-                tag('td', [],  {'colSpan': this.fields.length + ''},[
-                    'Click "next page" (', span(['fas', 'icon'], 'step-forward'), ') to load data.', tag('br'),
-                    'This will force evaluation of lazy data.'
-                ])])
-        );
-
-        this.stream = new DataStream(notebook.socket, repr).batch(20);
-        this.rows = [];
-        this.currentPos = 0;
+        this.cache = this.newCache();
+    }
+
+    private displayRows(start: number, rows: any[]) {
+        // if the data isn't a StructType, each item is displayed in the dummy field.
+        this.grid.setRows(this.repr.dataType instanceof StructType ? rows : rows.map(item => ({[this.fields[0].name]: item})), start);
+        this.currentPos = start;
+        this.displayedCount = rows.length;
     }
 
-    // TODO: replace any with real type
-    addBatch(batch: any) {
-        const start = this.rows.length;
-        this.rows.push(...batch);
-        const end = this.rows.length;
-        this.displayItems(start, end);
+    // restarts the stream with the current table operations, and loads its first page.
+    reload() {
+        this.cache.dispose();
+        this.cache = this.newCache();
+        this.currentPos = undefined;
+        this.displayedCount = 0;
+        this.grid.setRows([]);
+        this.show(0);
     }
 
-    displayItems(start: number, end: number) {
-        start = Math.max(start, 0);
-        this.table.tBodies.item(0)!.innerHTML = '';
-        for (let i = start; i < end && i < this.rows.length; i++) {
-            const row = this.fields.map(field => renderData(field.name, field.dataType, this.rows[i].hasOwnProperty(field.name) ? this.rows[i][field.name] : this.rows[i]));
-            this.table.addRow(row);
+    /**
+     * Filters the table to the rows which match all of the comparisons (e.g. the rows selected in a plot), and loads
+     * its first page.
+     */
+    filterTo(filters: messages.Compare[]) {
+        if (this.opsEditor) {
+            this.opsEditor.setFilters(filters); // which reloads the table
         }
-        this.currentPos = start;
+    }
+
+    private newCache() {
+        return new StreamCache(() => new DataStream(this.notebook.socket, this.repr, this.opsEditor?.ops));
+    }
+
+    /**
+     * Displays the page of rows starting at the given index, loading them first if they aren't cached. If there are no
+     * rows there, the last page is displayed instead.
+     */
+    show(start: number) {
+        const token = ++this.showToken;
+        const cache = this.cache;
+        this.el.classList.add('loading');
+        cache.getRows(start, start + this.pageSize).then(rows => {
+            if (token !== this.showToken) {
+                return; // a later page was requested while this one was loading
+            }
+
+            if (!rows.length && start > 0 && cache.done) {
+                this.show(Math.max(0, cache.loadedCount - this.pageSize));
+            } else {
+                this.displayRows(start, rows);
+                this.updatePaginator();
+            }
+        }).catch(err => {
+            if (token === this.showToken) {
+                this.showError(err);
+                this.updatePaginator();
+            }
+        });
     }
 
     pageNext() {
-        if (this.currentPos + 20 < this.rows.length) {
-            this.displayItems(this.currentPos + 20, this.currentPos + 40);
-        } else if (!this.stream.terminated) {
-            this.stream.requestNext().then(batch => this.addBatch(batch)).then(_ => this.prevButton.disabled = false);
-        } else {
-            this.nextButton.disabled = true;
-        }
+        this.show(this.currentPos === undefined ? 0 : this.currentPos + this.pageSize);
     }
 
     pagePrev() {
-        if (this.currentPos > 0) {
-            this.displayItems(this.currentPos - 20, this.currentPos);
-            this.nextButton.disabled = false;
+        this.show(Math.max(0, (this.currentPos ?? 0) - this.pageSize));
+    }
+
+    private updatePaginator() {
+        const pos = this.currentPos;
+        const loaded = this.cache.loadedCount;
+        this.el.classList.remove('loading');
+
+        this.firstButton.disabled = this.prevButton.disabled = !pos;
+        this.nextButton.disabled = this.cache.done && (pos ?? 0) + this.pageSize >= loaded;
+
+        if (pos === undefined) {
+            this.rangeLabel.innerText = '';
+        } else if (this.displayedCount) {
+            this.rangeLabel.innerText = `Rows ${pos + 1}–${pos + this.displayedCount}`;
+        } else {
+            this.rangeLabel.innerText = 'No rows';
+        }
+
+        const knownSize = this.cache.knownSize;
+        if (this.cache.done) {
+            this.statusLabel.innerText = `All ${loaded} rows loaded`;
+        } else if (knownSize !== undefined && knownSize !== null) {
+            this.statusLabel.innerText = `Loaded ${loaded} of ${knownSize} rows`;
+        } else {
+            this.statusLabel.innerText = `Loaded ${loaded} rows`;
         }
+    }
 
-        if (this.currentPos === 0) {
-            this.prevButton.disabled = true;
+    /**
+     * Stops the stream, releasing its handle on the server (if it has table operations). The view can't be used after
+     * that.
+     */
+    dispose() {
+        ++this.showToken; // so that a page which is still loading isn't displayed
+        if (this.cache) {
+            this.cache.dispose();
         }
     }
 
-}
\ No newline at end of file
+    private showError(err: any) {
+        const message = err instanceof messages.Error ? err.error.message : `${err}`;
+        this.grid.showMessage(['error-msg'], [`Unable to load data: ${message}`]);
+        this.currentPos = undefined;
+        this.displayedCount = 0;
+    }
+
+}
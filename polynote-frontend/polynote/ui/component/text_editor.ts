@@ -2,11 +2,14 @@ import {htmlToMarkdown} from "../util/html_to_md";
 import {LaTeXEditor} from "./latex_editor";
 import {MarkdownIt} from "../../util/markdown-it";
 import {TagElement} from "../util/tags";
+import {sanitizeHTML} from "../util/sanitize";
 
 export class RichTextEditor {
     constructor(readonly element: TagElement<"div">, content: string) {
+        // Markdown can contain HTML, which is kept – except for anything that could run scripts, since text cells are
+        // displayed whether or not the notebook is trusted.
         if (content)
-            this.element.innerHTML = MarkdownIt.render(content);
+            this.element.appendChild(sanitizeHTML(MarkdownIt.render(content)));
 
         this.element.contentEditable = 'true';
 
@@ -7,7 +7,7 @@ import {
     CellsLoaded, RenameNotebook, DeleteNotebook, TabRemoved, TabRenamed, FocusCell, CopyNotebook, CurrentIdentity
 } from '../util/ui_event'
 import {Cell, CellContainer, CodeCell, CodeCellModel} from "./cell"
-import {div, span, TagElement} from '../util/tags'
+import {button, div, h3, para, span, TagElement} from '../util/tags'
 import * as messages from '../../data/messages';
 import {storage} from '../util/storage'
 import {ToolbarUI} from "./toolbar";
@@ -46,6 +46,8 @@ export class MainUI extends UIMessageTarget {
     private about?: About;
     private welcomeUI?: HomeUI;
     private identity?: Identity;
+    private awaitingHandshake: boolean = true;
+    private protocolMismatch?: TagElement<"div">;
 
     constructor() {
         super();
@@ -86,7 +88,7 @@ export class MainUI extends UIMessageTarget {
         SocketSession.global.listenOnceFor(messages.ListNotebooks, (items) => this.browseUI.setItems(items));
         SocketSession.global.send(new messages.ListNotebooks([]));
 
-        SocketSession.global.listenOnceFor(messages.ServerHandshake, (interpreters, serverVersion, serverCommit, identity, sparkTemplates) => {
+        SocketSession.global.listenOnceFor(messages.ServerHandshake, (protocolFingerprint, interpreters, serverVersion, serverCommit, identity, sparkTemplates) => {
             for (let interp of Object.keys(interpreters)) {
                 Interpreters[interp] = interpreters[interp];
             }
@@ -109,6 +111,23 @@ export class MainUI extends UIMessageTarget {
             this.identity = identity || undefined;
         });
 
+        // the server sends a handshake whenever we connect, so we can make sure we still speak the same protocol (it might
+        // have been updated while we were disconnected.)
+        SocketSession.global.addMessageListener(messages.ServerHandshake, protocolFingerprint => {
+            this.awaitingHandshake = false;
+            if (protocolFingerprint !== messages.protocolFingerprint) {
+                console.error(`Protocol mismatch: server has ${protocolFingerprint}, client has ${messages.protocolFingerprint}`);
+                this.showProtocolMismatch();
+            }
+        });
+
+        // if the handshake itself can't be decoded, the protocol must be different.
+        SocketSession.global.addEventListener('decodeerror', evt => {
+            if (this.awaitingHandshake) {
+                this.showProtocolMismatch();
+            }
+        });
+
         SocketSession.global.addMessageListener(
             messages.RenameNotebook,
             (oldPath, newPath) => this.onNotebookRenamed(oldPath, newPath));
@@ -128,6 +147,7 @@ export class MainUI extends UIMessageTarget {
         });
 
         SocketSession.global.addEventListener('open', evt => {
+           this.awaitingHandshake = true;
            this.browseUI.setDisabled(false);
            if (this.tabUI.getCurrentTab().name !== 'home') {
                this.toolbarUI.setDisabled(false);
@@ -267,6 +287,26 @@ export class MainUI extends UIMessageTarget {
         this.tabUI.activateTab(this.tabUI.getTab('home'));
     }
 
+    /**
+     * Block the UI when the server speaks a different protocol than we do, since nothing we send or receive can be
+     * trusted to make sense. The only way out is to reload, which gets the version of the UI that matches the server.
+     */
+    showProtocolMismatch() {
+        if (this.protocolMismatch) {
+            return;
+        }
+
+        SocketSession.closeAll();
+        this.protocolMismatch = div(['protocol-mismatch'], [
+            div(['protocol-mismatch-banner'], [
+                h3([], ["Polynote has been updated"]),
+                para([], ["This page is out of date, and can no longer communicate with the server. Reload the page to update it."]),
+                button(['reload'], {}, ['Reload']).click(() => document.location.reload())
+            ])
+        ]);
+        document.body.appendChild(this.protocolMismatch);
+    }
+
     loadNotebook(path: string) {
         const notebookTab = this.tabUI.getTab(path);
 
@@ -408,34 +448,34 @@ export class MainUI extends UIMessageTarget {
 monaco.languages.registerCompletionItemProvider('scala', {
   triggerCharacters: ['.'],
   provideCompletionItems: (doc, pos, context, cancelToken) => {
-      return (doc as CodeCellModel).cellInstance.requestCompletion(doc.getOffsetAt(pos));
+      return (doc as CodeCellModel).cellInstance.requestCompletion(doc.getOffsetAt(pos), cancelToken);
   }
 });
 
 monaco.languages.registerCompletionItemProvider('python', {
   triggerCharacters: ['.', "["],
-  provideCompletionItems: (doc, pos, cancelToken, context) => {
-      return (doc as CodeCellModel).cellInstance.requestCompletion(doc.getOffsetAt(pos));
+  provideCompletionItems: (doc, pos, context, cancelToken) => {
+      return (doc as CodeCellModel).cellInstance.requestCompletion(doc.getOffsetAt(pos), cancelToken);
   }
 });
 
 monaco.languages.registerSignatureHelpProvider('scala', {
   signatureHelpTriggerCharacters: ['(', ','],
   provideSignatureHelp: (doc, pos, cancelToken, context) => {
-      return (doc as CodeCellModel).cellInstance.requestSignatureHelp(doc.getOffsetAt(pos));
+      return (doc as CodeCellModel).cellInstance.requestSignatureHelp(doc.getOffsetAt(pos), cancelToken);
   }
 });
 
 monaco.languages.registerSignatureHelpProvider('python', {
     signatureHelpTriggerCharacters: ['(', ','],
     provideSignatureHelp: (doc, pos, cancelToken, context) => {
-        return (doc as CodeCellModel).cellInstance.requestSignatureHelp(doc.getOffsetAt(pos));
+        return (doc as CodeCellModel).cellInstance.requestSignatureHelp(doc.getOffsetAt(pos), cancelToken);
     }
 });
 
 monaco.languages.registerCompletionItemProvider('sql', {
     triggerCharacters: ['.'],
     provideCompletionItems: (doc, pos, context, cancelToken) => {
-        return (doc as CodeCellModel).cellInstance.requestCompletion(doc.getOffsetAt(pos));
+        return (doc as CodeCellModel).cellInstance.requestCompletion(doc.getOffsetAt(pos), cancelToken);
     }
 });
\ No newline at end of file
@@ -3,15 +3,20 @@
 import {FullScreenModal, Modal} from "./modal";
 import {div, button, TagElement} from "../util/tags";
 import {ResultValue} from "../../data/result";
-import {MIMERepr, DataRepr, LazyDataRepr, StreamingDataRepr, StringRepr} from "../../data/value_repr";
+import {MIMERepr, DataRepr, LazyDataRepr, StreamingDataRepr, StringRepr, UpdatingDataRepr} from "../../data/value_repr";
 import match from "../../util/match";
-import {displayContent, displayData, contentTypeName, displaySchema} from "./display_content"
+import {displayContent, displayData, contentTypeName, displaySchema, parseContentType} from "./display_content"
 import {ArrayType, DataType, MapType, StructType} from "../../data/data_type";
-import {PlotEditor} from "./plot_editor";
+import {PlotDefinition, PlotEditor} from "./plot_editor";
 import {TableView} from "./table_view";
+import {SummaryView} from "./summary_view";
 import {TabNav} from "./tab_nav";
 import {DataReader} from "../../data/codec";
 import {NotebookUI} from "./notebook";
+import {LazyDataView} from "./lazy_data_view";
+import {ModalClosed} from "../util/ui_event";
+import {displayLiveData, LiveValue} from "./live_value";
+import {byRendererPriority} from "./mime_renderers";
 
 
 export class ValueInspector extends FullScreenModal {
@@ -22,53 +27,97 @@ export class ValueInspector extends FullScreenModal {
         }
         return ValueInspector.inst;
     }
+    // the views of the current value which need to be disposed when it's no longer inspected
+    private views: {dispose(): void}[] = [];
+    private nav?: TabNav;
+
     constructor() {
         super(
             div([], []),
             { windowClasses: ['value-inspector'] }
         );
+        this.subscribe(ModalClosed, () => this.disposeViews());
+    }
+
+    private disposeViews() {
+        this.views.forEach(view => view.dispose());
+        this.views = [];
     }
 
-    inspect(resultValue: ResultValue, notebook: NotebookUI, jumpTo?: string) {
+    /**
+     * Inspects a value, optionally jumping to one of its tabs. If a saved plot is given, its definition is loaded into the
+     * plot editor.
+     */
+    inspect(resultValue: ResultValue, notebook: NotebookUI, jumpTo?: string, savedPlot?: {definition: PlotDefinition, cellId: number}) {
+        this.disposeViews();
         this.content.innerHTML = "";
         let tabsPromise = Promise.resolve({} as Record<string, TagElement<any>>);
 
-        resultValue.reprs.forEach(
+        // there's a tab for each MIME representation which can be rendered – in order of priority, ahead of the others.
+        const mimeReprs = byRendererPriority(
+            resultValue.reprs.filter(repr => repr instanceof MIMERepr) as MIMERepr[],
+            repr => parseContentType(repr.mimeType)[0]);
+        const reprs = [...mimeReprs, ...resultValue.reprs.filter(repr => !(repr instanceof MIMERepr))];
+
+        reprs.forEach(
             repr => tabsPromise = tabsPromise.then(tabs => {
+                let rendered: Promise<any> = Promise.resolve();
                 match(repr)
                     .when(StringRepr, str => tabs['String'] = div(['plaintext'], [document.createTextNode(str)]))
-                    .when(MIMERepr, (mimeType, content) => displayContent(mimeType, content).then((el: TagElement<"div">) => tabs[contentTypeName(mimeType)] = el))
+                    .when(MIMERepr, (mimeType, content) => {
+                        // several representations can have the same renderer (e.g. PNG and JPEG images), so their tabs
+                        // are numbered.
+                        rendered = displayContent(mimeType, content, undefined, notebook.trusted)
+                            .then((el: TagElement<"div">) => tabs[uniqueTabName(tabs, contentTypeName(mimeType))] = el);
+                    })
                     .when(DataRepr, (dataType, data) => {
                         tabs[`Data(${resultValue.typeName})`] = displayData(dataType.decodeBuffer(new DataReader(data)))
                     })
-                    .when(LazyDataRepr, (handle, dataType, knownSize) => {
+                    .when(LazyDataRepr, () => {
                         const tabName = `Data(${resultValue.typeName})`;
                         if (!tabs[tabName]) {
-                            // TODO: a UI for downloading & viewing the data anyway.
-                            tabs[tabName] = div(['lazy-data'], [
-                                `The data was too large to transmit (${knownSize ? knownSize + " bytes" : 'unknown size'}), so it can't be displayed here.`
-                            ]);
+                            const view = new LazyDataView(repr as LazyDataRepr, notebook, resultValue.name);
+                            this.views.push(view);
+                            tabs[tabName] = view.el;
                         }
                     })
+                    .when(UpdatingDataRepr, () => {
+                        const live = LiveValue.get(repr as UpdatingDataRepr, notebook);
+                        const [el, unsubscribe] = displayLiveData(live, resultValue.valueText || 'Waiting for a value…');
+                        this.views.push({dispose: unsubscribe});
+                        tabs[`Data(${resultValue.typeName})`] = el;
+                    })
                     .when(StreamingDataRepr, (handle, dataType, knownSize) => {
                         const repr = new StreamingDataRepr(handle, dataType, knownSize);
                         try {
+                            const tableView = new TableView(repr, notebook, resultValue.name);
+                            this.views.push(tableView);
                             if (dataType instanceof StructType) {
                                 tabs['Schema'] = displaySchema(dataType);
-                                tabs['Plot data'] = new PlotEditor(repr, notebook, resultValue.name, resultValue.sourceCell, () => this.hide()).container;
+                                tabs['Summary'] = new SummaryView(repr, notebook).el;
+                                const plotEditor = new PlotEditor(
+                                    repr, notebook, resultValue.name, resultValue.sourceCell, () => this.hide(),
+                                    filters => {
+                                        tableView.filterTo(filters);
+                                        this.nav?.showItem('View data');
+                                    });
+                                if (savedPlot) {
+                                    plotEditor.load(savedPlot.definition, savedPlot.cellId);
+                                }
+                                tabs['Plot data'] = plotEditor.container;
                             }
-                            tabs['View data'] = new TableView(repr, notebook).el;
+                            tabs['View data'] = tableView.el;
                         } catch(err) {
                             console.log(err);
                         }
                     });
-                return tabs;
+                return rendered.then(() => tabs);
             })
         );
 
         return tabsPromise.then(tabs => {
             if (Object.keys(tabs).length) {
-                const nav = new TabNav(tabs);
+                const nav = this.nav = new TabNav(tabs);
                 this.content.appendChild(nav.el);
                 this.setTitle(`Inspect: ${resultValue.name}`);
                 this.show();
@@ -82,4 +131,13 @@ export class ValueInspector extends FullScreenModal {
         })
     }
 
-}
\ No newline at end of file
+}
+
+// the name, or (if there's already a tab with that name) the name numbered like "Image (2)".
+function uniqueTabName(tabs: Record<string, any>, name: string): string {
+    let unique = name;
+    for (let n = 2; tabs[unique]; n++) {
+        unique = `${name} (${n})`;
+    }
+    return unique;
+}
@@ -0,0 +1,42 @@
+"use strict";
+
+// elements which could run scripts, load other documents, or change how the page behaves – they're removed entirely.
+const unsafeElements = [
+    'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'base', 'link', 'meta', 'style', 'form',
+    'animate', 'set'
+];
+
+// attributes whose values are URLs, which mustn't be scripts.
+const urlAttributes = ['href', 'src', 'xlink:href', 'action', 'formaction', 'background', 'poster', 'data'];
+
+function isSafeURL(url: string, attribute: string): boolean {
+    const normalized = url.replace(/[\u0000- ]/g, '').toLowerCase();
+    if (normalized.startsWith('data:')) {
+        // images can be embedded (e.g. pasted ones), but not documents.
+        return attribute === 'src' && normalized.startsWith('data:image/');
+    }
+    return !normalized.startsWith('javascript:') && !normalized.startsWith('vbscript:');
+}
+
+/**
+ * Parses HTML (e.g. rendered Markdown, which can contain HTML of its own) into a fragment which can't run any scripts –
+ * elements which could are removed, along with event handler attributes and script URLs. The HTML is parsed into an
+ * inert template, so nothing in it runs or loads while it's being sanitized.
+ */
+export function sanitizeHTML(html: string): DocumentFragment {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const content = template.content;
+
+    content.querySelectorAll(unsafeElements.join(',')).forEach(el => el.parentNode?.removeChild(el));
+    content.querySelectorAll('*').forEach(el => {
+        [...el.attributes].forEach(attr => {
+            const name = attr.name.toLowerCase();
+            if (name.startsWith('on') || name === 'srcdoc' || (urlAttributes.indexOf(name) >= 0 && !isSafeURL(attr.value, name))) {
+                el.removeAttribute(attr.name);
+            }
+        });
+    });
+
+    return document.importNode(content, true);
+}
@@ -5,7 +5,8 @@ type StorageListener = (oldValue: any | null, newValue: any | null) => void
 export class Storage {
     constructor(readonly defaults: {[key: string]: any} = {
                     recentNotebooks: [],
-                    notebookLocations: {}
+                    notebookLocations: {},
+                    trustedNotebooks: {}
                 },
                 public listeners: {[key: string]: StorageListener[]} = {}) {}
 
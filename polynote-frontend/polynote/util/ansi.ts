@@ -0,0 +1,339 @@
+'use strict';
+
+/**
+ * The style of some text, as set by ANSI SGR ("select graphic rendition") sequences. A color is either the index of one
+ * of the 16 standard colors (0-7, and their bright versions 8-15), whose actual colors are up to the theme, or a CSS color.
+ */
+export interface AnsiStyle {
+    fg?: number | string
+    bg?: number | string
+    bold?: boolean
+    dim?: boolean
+    italic?: boolean
+    underline?: boolean
+    inverse?: boolean
+    strikethrough?: boolean
+}
+
+export const plainStyle: AnsiStyle = Object.freeze({});
+
+/**
+ * A line of text, along with the style of each of its characters. (Runs of characters share a style object.)
+ */
+export class AnsiLine {
+    text: string = '';
+    styles: AnsiStyle[] = [];
+
+    // the runs of characters which have the same style
+    get runs(): [string, AnsiStyle][] {
+        const runs: [string, AnsiStyle][] = [];
+        let start = 0;
+        for (let i = 1; i <= this.text.length; i++) {
+            if (i === this.text.length || this.styles[i] !== this.styles[start]) {
+                runs.push([this.text.substring(start, i), this.styles[start]]);
+                start = i;
+            }
+        }
+        return runs;
+    }
+
+    // writes the text at the given column, over whatever is there (padding the line with spaces if it's shorter).
+    write(col: number, text: string, style: AnsiStyle) {
+        if (col > this.text.length) {
+            this.write(this.text.length, ' '.repeat(col - this.text.length), plainStyle);
+        }
+        this.text = this.text.substring(0, col) + text + this.text.substring(col + text.length);
+        for (let i = 0; i < text.length; i++) {
+            this.styles[col + i] = style;
+        }
+    }
+
+    // erases the characters in [start, end), leaving spaces where they were (unless they're at the end of the line).
+    erase(start: number, end: number = this.text.length) {
+        end = Math.min(end, this.text.length);
+        if (end === this.text.length) {
+            this.text = this.text.substring(0, start);
+            this.styles.length = Math.min(this.styles.length, start);
+        } else if (start < end) {
+            this.write(start, ' '.repeat(end - start), plainStyle);
+        }
+    }
+}
+
+// the colors of the 256-color palette beyond the 16 standard ones – a 6x6x6 cube, and then a ramp of grays.
+function color256(n: number): number | string | undefined {
+    if (isNaN(n) || n < 0 || n > 255) {
+        return undefined;
+    } else if (n < 16) {
+        return n;
+    } else if (n < 232) {
+        const level = (v: number) => v ? 55 + v * 40 : 0;
+        const idx = n - 16;
+        return `rgb(${level(Math.floor(idx / 36))}, ${level(Math.floor(idx / 6) % 6)}, ${level(idx % 6)})`;
+    }
+    const gray = 8 + (n - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+// an extended (38 or 48) color, whose parameters start at params[i]. Returns the color, and how many parameters it used.
+function extendedColor(params: number[], i: number): [number | string | undefined, number] {
+    if (params[i] === 5) {
+        return [color256(params[i + 1]), 2];
+    } else if (params[i] === 2) {
+        const [r, g, b] = params.slice(i + 1, i + 4).map(c => Math.max(0, Math.min(255, c || 0)));
+        return [`rgb(${r}, ${g}, ${b})`, 4];
+    }
+    return [undefined, 0];
+}
+
+function applySGR(style: AnsiStyle, params: number[]): AnsiStyle {
+    if (!params.length) {
+        return plainStyle;
+    }
+
+    let next: AnsiStyle = {...style};
+    for (let i = 0; i < params.length; i++) {
+        const code = params[i];
+        if (code === 0 || isNaN(code)) {
+            next = {};
+        } else if (code === 1) {
+            next.bold = true;
+        } else if (code === 2) {
+            next.dim = true;
+        } else if (code === 3) {
+            next.italic = true;
+        } else if (code === 4) {
+            next.underline = true;
+        } else if (code === 7) {
+            next.inverse = true;
+        } else if (code === 9) {
+            next.strikethrough = true;
+        } else if (code === 22) {
+            delete next.bold;
+            delete next.dim;
+        } else if (code === 23) {
+            delete next.italic;
+        } else if (code === 24) {
+            delete next.underline;
+        } else if (code === 27) {
+            delete next.inverse;
+        } else if (code === 29) {
+            delete next.strikethrough;
+        } else if (code >= 30 && code <= 37) {
+            next.fg = code - 30;
+        } else if (code >= 90 && code <= 97) {
+            next.fg = code - 90 + 8;
+        } else if (code === 39) {
+            delete next.fg;
+        } else if (code >= 40 && code <= 47) {
+            next.bg = code - 40;
+        } else if (code >= 100 && code <= 107) {
+            next.bg = code - 100 + 8;
+        } else if (code === 49) {
+            delete next.bg;
+        } else if (code === 38 || code === 48) {
+            const [color, used] = extendedColor(params, i + 1);
+            if (color !== undefined) {
+                next[code === 38 ? 'fg' : 'bg'] = color;
+            }
+            i += used;
+        }
+    }
+    return Object.keys(next).length ? Object.freeze(next) : plainStyle;
+}
+
+// the escape sequences which are understood: CSI (e.g. colors and cursor movement), and OSC (e.g. titles and links – which
+// are skipped). Any other escape is skipped along with the character after it.
+const csi = /\u001b\[([0-9;:?<=>]*)[ -\/]*([@-~])/y;
+const osc = /\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/y;
+const incompleteEscape = /\u001b(?:\[[0-9;:?<=>]*[ -\/]*|\][^\u0007\u001b]*\u001b?)?$/y;
+const controlChars = /[\u001b\r\n\b]/g;
+
+/**
+ * Text written by a program to a terminal, as it would be displayed – with the styles from its SGR sequences, and with the
+ * effects of carriage returns, backspaces, cursor movement and erasing. Text can be written in chunks; an escape sequence
+ * which is split between chunks is completed by the next one.
+ *
+ * Like the rest of the output, a carriage return which is followed by text replaces its line (so that progress bars don't
+ * leave parts of their previous state behind).
+ */
+export class AnsiText {
+    readonly lines: AnsiLine[] = [new AnsiLine()];
+    private row = 0;
+    private col = 0;
+    private style: AnsiStyle = plainStyle;
+    private carriageReturn = false;
+    private pending = '';
+    private changedFrom?: number;
+
+    write(chunk: string) {
+        const text = this.pending + chunk;
+        this.pending = '';
+
+        let pos = 0;
+        while (pos < text.length) {
+            controlChars.lastIndex = pos;
+            const match = controlChars.exec(text);
+            const next = match ? match.index : text.length;
+            if (next > pos) {
+                this.put(text.substring(pos, next));
+            }
+            if (!match) {
+                break;
+            }
+
+            pos = next + 1;
+            switch (match[0]) {
+                case '\n':
+                    this.newLine();
+                    break;
+                case '\r':
+                    this.col = 0;
+                    this.carriageReturn = true;
+                    break;
+                case '\b':
+                    this.col = Math.max(0, this.col - 1);
+                    break;
+                default:
+                    pos = this.escape(text, next);
+                    if (pos < 0) {
+                        this.pending = text.substring(next);
+                        return;
+                    }
+            }
+        }
+    }
+
+    /**
+     * Returns the index of the first line which has changed since the last call (or undefined, if none have) – lines
+     * after it may have changed too, or been removed.
+     */
+    takeChanges(): number | undefined {
+        const changedFrom = this.changedFrom;
+        this.changedFrom = undefined;
+        return changedFrom;
+    }
+
+    private changed(row: number = this.row) {
+        this.changedFrom = Math.min(this.changedFrom ?? row, row);
+    }
+
+    private get line(): AnsiLine {
+        return this.lines[this.row];
+    }
+
+    private put(text: string) {
+        if (this.carriageReturn) {
+            this.line.erase(0);
+            this.carriageReturn = false;
+        }
+        this.line.write(this.col, text, this.style);
+        this.col += text.length;
+        this.changed();
+    }
+
+    private newLine() {
+        this.carriageReturn = false;
+        this.changed();
+        this.moveTo(this.row + 1, 0);
+        this.changed();
+    }
+
+    // The cursor can only move a little past the end of the text, since otherwise a single escape sequence (e.g. moving
+    // down a billion lines) could make us build an enormous amount of blank output.
+    private moveTo(row: number, col: number) {
+        this.row = Math.max(0, Math.min(row, this.lines.length - 1 + AnsiText.maxMoveLines));
+        this.setCol(col);
+        while (this.lines.length <= this.row) {
+            this.lines.push(new AnsiLine());
+            this.changed(this.lines.length - 1);
+        }
+    }
+
+    private setCol(col: number) {
+        const lineLength = this.row < this.lines.length ? this.line.text.length : 0;
+        this.col = Math.max(0, Math.min(col, lineLength + AnsiText.maxMoveColumns));
+    }
+
+    private static maxMoveLines = 100;
+    private static maxMoveColumns = 1000;
+
+    // handles the escape sequence at the given position, returning the position after it – or -1, if it's incomplete.
+    private escape(text: string, pos: number): number {
+        csi.lastIndex = pos;
+        const csiMatch = csi.exec(text);
+        if (csiMatch) {
+            this.control(csiMatch[1], csiMatch[2]);
+            return csi.lastIndex;
+        }
+
+        osc.lastIndex = pos;
+        if (osc.exec(text)) {
+            return osc.lastIndex;
+        }
+
+        incompleteEscape.lastIndex = pos;
+        if (incompleteEscape.test(text)) {
+            return -1;
+        }
+        return pos + 2;
+    }
+
+    private control(paramStr: string, command: string) {
+        // colons separate the parts of an extended color (e.g. 38:2::255:0:0), whose color space is usually left empty.
+        const params = paramStr.split(/[;:]/).filter(p => p !== '').map(p => parseInt(p, 10));
+        const n = params[0] || 1;
+        switch (command) {
+            case 'm':
+                this.style = applySGR(this.style, params);
+                break;
+            case 'K':  // erase in line: to the end (0), from the start (1) or all of it (2)
+                if (!params[0]) {
+                    this.line.erase(this.col);
+                } else if (params[0] === 1) {
+                    this.line.erase(0, this.col + 1);
+                } else {
+                    this.line.erase(0);
+                }
+                this.changed();
+                break;
+            case 'J':  // erase in display: below the cursor (0), above it (1) or all of it (2, 3)
+                if (!params[0]) {
+                    this.line.erase(this.col);
+                    this.lines.splice(this.row + 1);
+                    this.changed();
+                } else if (params[0] === 1) {
+                    this.lines.slice(0, this.row).forEach(line => line.erase(0));
+                    this.line.erase(0, this.col + 1);
+                    this.changed(0);
+                } else {
+                    this.lines.splice(0, this.lines.length, new AnsiLine());
+                    this.moveTo(0, this.col);
+                    this.changed(0);
+                }
+                break;
+            case 'A':
+                this.moveTo(this.row - n, this.col);
+                break;
+            case 'B':
+                this.moveTo(this.row + n, this.col);
+                break;
+            case 'C':
+                this.setCol(this.col + n);
+                break;
+            case 'D':
+                this.col = Math.max(0, this.col - n);
+                break;
+            case 'E':
+                this.moveTo(this.row + n, 0);
+                break;
+            case 'F':
+                this.moveTo(this.row - n, 0);
+                break;
+            case 'G':
+                this.setCol(n - 1);
+                break;
+            // anything else (e.g. absolute positioning, which doesn't mean much in a log) is ignored.
+        }
+    }
+}
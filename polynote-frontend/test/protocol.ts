@@ -0,0 +1,84 @@
+'use strict';
+
+/**
+ * Checks that the client speaks the same protocol as the server, by comparing the protocolFingerprint and the encoding
+ * of a sample of each message to the ones in protocol-samples.txt – which the server's MessagesSpec checks as well.
+ *
+ * Run with `npm test`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    And, CancelTasks, ClearOutput, Compare, CompletionsAt, CreateNotebook, CurrentSelection, DeleteCell, DeleteComment,
+    Filter, GroupAgg, HandleData, Limit, LoadNotebook, Message, ModifyStream, Not, NotebookUpdateRange, NotebookVersion,
+    Or, ParametersAt, protocolFingerprint, QuantileBin, ReleaseHandle, RenameNotebook, RunCell, Select, SetCellLanguage,
+    Sort, StartKernel
+} from "../polynote/data/messages";
+import {StreamingDataRepr} from "../polynote/data/value_repr";
+import {DateType, DoubleType, OptionalType, StringType, StructField, StructType, TimestampType} from "../polynote/data/data_type";
+import {PosRange} from "../polynote/data/result";
+import {Pair} from "../polynote/data/codec";
+import {Either} from "../polynote/data/types";
+
+const samplesFile = path.resolve(__dirname, "../../../../polynote-kernel/src/test/resources/protocol-samples.txt");
+
+// these must be the same messages as in MessagesSpec.
+const samples: Record<string, Message> = {
+    LoadNotebook: new LoadNotebook("a.ipynb"),
+    RunCell: new RunCell([1, 2]),
+    CompletionsAt: new CompletionsAt(1, 2, 3, []),
+    ParametersAt: new ParametersAt(1, 2, 3),
+    SetCellLanguage: new SetCellLanguage(1, 2, 3, "python"),
+    StartKernel: new StartKernel(0),
+    CreateNotebook: new CreateNotebook("a.ipynb"),
+    RenameNotebook: new RenameNotebook("a.ipynb", "b.ipynb"),
+    DeleteCell: new DeleteCell(1, 2, 3),
+    HandleData: new HandleData(1, StreamingDataRepr.handleTypeId, 2, 3, Either.right([new Uint8Array([1, 2, 3]).buffer])),
+    CancelTasks: new CancelTasks("a.ipynb"),
+    ModifyStream: new ModifyStream(1, 2, [
+            new GroupAgg(["a"], [new Pair("b", "count")]),
+            new QuantileBin("b", 4, 0.25),
+            new Select(["a", "b"]),
+            new Filter(new And([new Compare("a", "==", "x"), new Not(new Or([]))])),
+            new Sort([new Pair("a", true)]),
+            new Limit(10)
+        ],
+        new StreamingDataRepr(3, new StructType([
+            new StructField("a", StringType),
+            new StructField("b", DoubleType),
+            new StructField("c", new OptionalType(DateType)),
+            new StructField("d", TimestampType)
+        ]), 10)),
+    ReleaseHandle: new ReleaseHandle(StreamingDataRepr.handleTypeId, 3),
+    ClearOutput: new ClearOutput(),
+    NotebookVersion: new NotebookVersion(1, "a.ipynb", 2, "epoch"),
+    CurrentSelection: new CurrentSelection(1, new PosRange(2, 3)),
+    DeleteComment: new DeleteComment(1, 2, 3, "uuid"),
+    NotebookUpdateRange: new NotebookUpdateRange(1, "a.ipynb", "epoch", 1, 2, [new DeleteCell(2, 1, 3)])
+};
+
+function hex(buf: ArrayBuffer): string {
+    return [...new Uint8Array(buf)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// the lines of the samples file are the fingerprint, followed by the name and encoding of each sample message.
+const expected: Record<string, string> = {};
+fs.readFileSync(samplesFile, 'utf8').split('\n')
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .forEach(line => {
+        const [name, value] = line.trim().split(/\s+/);
+        expected[name] = value;
+    });
+
+const actual: Record<string, string> = {fingerprint: protocolFingerprint};
+Object.keys(samples).forEach(name => actual[name] = hex(Message.encode(samples[name])));
+
+const mismatches = Object.keys({...expected, ...actual}).filter(name => expected[name] !== actual[name]);
+if (mismatches.length) {
+    console.error(`The protocol doesn't match ${samplesFile}. If it was changed on purpose, increment protocolRevision on both sides and update that file, which should have:`);
+    mismatches.forEach(name => console.error(`${name} ${actual[name] ?? "(missing)"}`));
+    process.exit(1);
+}
+
+console.log(`The protocol matches ${samplesFile}`);
@@ -37,6 +37,10 @@ module.exports = {
     new CopyWebpackPlugin([
       { from: 'style', to: 'style' },
       { from: 'vendor', to: 'vendor' },
+      // loaded by plots of untrusted notebooks, which are displayed in sandboxed frames
+      { from: 'node_modules/vega/build/vega.min.js', to: 'vendor/vega' },
+      { from: 'node_modules/vega-lite/build/vega-lite.min.js', to: 'vendor/vega' },
+      { from: 'node_modules/vega-embed/build/vega-embed.min.js', to: 'vendor/vega' },
       { from: 'favicon.ico', to: 'favicon.ico' },
     ])
   ],
@@ -24,8 +24,8 @@ object DataTypeCodec {
   implicit val structDiscriminator: Discriminator[DataType, StructType, Byte] = Discriminator(9)
   implicit val optionalDiscriminator: Discriminator[DataType, OptionalType, Byte] = Discriminator(10)
   implicit val arrayDiscriminator: Discriminator[DataType, ArrayType, Byte] = Discriminator(11)
-  //implicit val dateDiscriminator: Discriminator[DataType, DateType.type, Byte] = Discriminator(12)
-  //implicit val timestampDiscriminator: Discriminator[DataType, TimestampType.type, Byte] = Discriminator(13)
+  implicit val dateDiscriminator: Discriminator[DataType, DateType.type, Byte] = Discriminator(12)
+  implicit val timestampDiscriminator: Discriminator[DataType, TimestampType.type, Byte] = Discriminator(13)
   implicit val typeDiscriminator: Discriminator[DataType, TypeType.type, Byte] = Discriminator(14)
   implicit val mapDiscriminator: Discriminator[DataType, MapType, Byte] = Discriminator(15)
 
@@ -56,6 +56,15 @@ object TableOpCodec {
   implicit val groupAgg: Discriminator[TableOp, GroupAgg, Byte] = Discriminator(0)
   implicit val quantileBin: Discriminator[TableOp, QuantileBin, Byte] = Discriminator(1)
   implicit val select: Discriminator[TableOp, Select, Byte] = Discriminator(2)
+  implicit val filter: Discriminator[TableOp, Filter, Byte] = Discriminator(3)
+  implicit val sort: Discriminator[TableOp, Sort, Byte] = Discriminator(4)
+  implicit val limit: Discriminator[TableOp, Limit, Byte] = Discriminator(5)
+
+  implicit val predicateDiscriminated: Discriminated[Predicate, Byte] = Discriminated(byte)
+  implicit val compare: Discriminator[Predicate, Predicate.Compare, Byte] = Discriminator(0)
+  implicit val and: Discriminator[Predicate, Predicate.And, Byte] = Discriminator(1)
+  implicit val or: Discriminator[Predicate, Predicate.Or, Byte] = Discriminator(2)
+  implicit val not: Discriminator[Predicate, Predicate.Not, Byte] = Discriminator(3)
 
   implicit val tableOpCodec: Codec[TableOp] = cachedImplicit
 }
\ No newline at end of file
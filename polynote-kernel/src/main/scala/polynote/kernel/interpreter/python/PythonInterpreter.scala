@@ -456,6 +456,15 @@ class PythonInterpreter private[python] (
       |        import pandas as pd
       |        return pd.MultiIndex.from_arrays([[x for x in list(l1)], [x for x in list(l2)]])
       |
+      |    # Adds a column in which each value of the given column is replaced by the quantile which starts its bin (the
+      |    # maximum is in a bin of its own), as the QuantileBin table op does for other data.
+      |    def __polynote_quantile_bin__(df, col, bin_count):
+      |        import numpy as np
+      |        values = df[col]
+      |        quantiles = values.quantile([i / bin_count for i in range(bin_count + 1)], interpolation='lower').values
+      |        bins = np.clip(np.searchsorted(quantiles, values, side='right') - 1, 0, bin_count)
+      |        return df.assign(**{col + '_quantized': np.where(values.isna(), np.nan, quantiles[bins])})
+      |
       |    def __polynote_parse__(code, cell):
       |        try:
       |            return { 'result': ast.fix_missing_locations(LastExprAssigner().visit(ast.parse(code, cell, 'exec'))) }
@@ -12,7 +12,8 @@ import io.circe.generic.semiauto._
 import polynote.config.{DependencyConfigs, PolynoteConfig, RepositoryConfig, SparkConfig, SparkPropertySet}
 import polynote.data.Rope
 import polynote.runtime.{CellRange, StreamingDataRepr, TableOp}
-import shapeless.cachedImplicit
+import shapeless.{:+:, CNil, Coproduct, LabelledGeneric, Witness, cachedImplicit}
+import shapeless.labelled.FieldType
 
 sealed trait Message
 
@@ -34,6 +35,52 @@ object Message {
       err => new Exception(err.messageWithContext)
     }
   }
+
+  /**
+    * Must be incremented whenever the fields of an existing message change, since that isn't reflected in the
+    * [[protocolFingerprint]] otherwise. Such a change shows up in the sample encodings which the tests on both sides
+    * check (see protocol-samples.txt in the test resources).
+    */
+  val protocolRevision: Int = 3
+
+  /**
+    * Identifies the version of the protocol, so the client can tell whether it's able to talk to this server. It's
+    * derived from the message table (the ID and name of every message) and the [[protocolRevision]], and is computed
+    * the same way by the client (see messages.ts) – so the two must be kept in sync.
+    */
+  lazy val protocolFingerprint: String = {
+    val entries = MessageTable[LabelledGeneric[Message]#Repr].entries.sortBy(_._1)
+    val description = s"$protocolRevision;" + entries.map { case (id, name) => s"$id:$name" }.mkString(",")
+
+    // 32-bit FNV-1a
+    val hash = description.foldLeft(0x811c9dc5) {
+      (hash, char) => (hash ^ char) * 0x01000193
+    }
+    f"$hash%08x"
+  }
+}
+
+/**
+  * Lists the ID and name of each message type in a coproduct of messages.
+  */
+private[messages] trait MessageTable[C <: Coproduct] {
+  def entries: List[(Byte, String)]
+}
+
+private[messages] object MessageTable {
+  def apply[C <: Coproduct](implicit table: MessageTable[C]): MessageTable[C] = table
+
+  implicit val cnil: MessageTable[CNil] = new MessageTable[CNil] {
+    val entries: List[(Byte, String)] = Nil
+  }
+
+  implicit def ccons[K <: Symbol, H, T <: Coproduct](implicit
+    name: Witness.Aux[K],
+    discriminator: Discriminator[Message, H, Byte],
+    tail: MessageTable[T]
+  ): MessageTable[FieldType[K, H] :+: T] = new MessageTable[FieldType[K, H] :+: T] {
+    val entries: List[(Byte, String)] = (discriminator.value -> name.value.name) :: tail.entries
+  }
 }
 
 abstract class MessageCompanion[T](msgId: Byte) {
@@ -316,10 +363,10 @@ object UpdateComment extends NotebookUpdateCompanion[UpdateComment](30)
 final case class DeleteComment(globalVersion: Int, localVersion: Int, cellId: CellID, commentId: CommentID) extends Message with NotebookUpdate
 object DeleteComment extends NotebookUpdateCompanion[DeleteComment](31)
 
-final case class CompletionsAt(id: CellID, pos: Int, completions: ShortList[Completion]) extends Message
+final case class CompletionsAt(reqId: Int, id: CellID, pos: Int, completions: ShortList[Completion]) extends Message
 object CompletionsAt extends MessageCompanion[CompletionsAt](7)
 
-final case class ParametersAt(id: CellID, pos: Int, signatures: Option[Signatures]) extends Message
+final case class ParametersAt(reqId: Int, id: CellID, pos: Int, signatures: Option[Signatures]) extends Message
 object ParametersAt extends MessageCompanion[ParametersAt](8)
 
 final case class KernelStatus(update: KernelStatusUpdate) extends Message
@@ -363,7 +410,9 @@ object SetCellOutput extends NotebookUpdateCompanion[SetCellOutput](22)
 
 final case class Identity(name: TinyString, avatar: Option[ShortString])
 
+// protocolFingerprint must remain the first field, so that it can be read by a client that doesn't understand the rest.
 final case class ServerHandshake(
+  protocolFingerprint: TinyString,
   interpreters: TinyMap[TinyString, TinyString],
   serverVersion: TinyString,
   serverCommit: TinyString,
@@ -378,7 +427,11 @@ object CancelTasks extends MessageCompanion[CancelTasks](18)
 final case class ClearOutput() extends Message
 object ClearOutput extends MessageCompanion[ClearOutput](21)
 
-final case class NotebookVersion(notebook: ShortString, globalVersion: Int) extends Message
+/**
+  * The global version of a notebook. Versions start over whenever the notebook is opened again (e.g. after the server
+  * restarts), so they're only comparable within the same `epoch`, which identifies the notebook's version history.
+  */
+final case class NotebookVersion(reqId: Int, notebook: ShortString, globalVersion: Int, epoch: ShortString) extends Message
 object NotebookVersion extends MessageCompanion[NotebookVersion](23)
 
 final case class RunningKernels(statuses: TinyList[(ShortString, KernelBusyState)]) extends Message
@@ -403,6 +456,7 @@ object HandleType {
 
 
 final case class HandleData(
+  reqId: Int,
   handleType: HandleType,
   handle: Int,
   count: Int,
@@ -415,7 +469,7 @@ object HandleData extends MessageCompanion[HandleData](17)
  ** Specifically for streams of structs (i.e. tables)  **
  *******************************************************/
 
-final case class ModifyStream(fromHandle: Int, ops: TinyList[TableOp], newRepr: Option[StreamingDataRepr]) extends Message
+final case class ModifyStream(reqId: Int, fromHandle: Int, ops: TinyList[TableOp], newRepr: Option[StreamingDataRepr]) extends Message
 object ModifyStream extends MessageCompanion[ModifyStream](19) {
   import TableOpCodec.tableOpCodec
   import ValueReprCodec.streamingDataReprCodec
@@ -426,4 +480,23 @@ final case class ReleaseHandle(handleType: HandleType, handle: Int) extends Mess
 object ReleaseHandle extends MessageCompanion[ReleaseHandle](20)
 
 final case class CurrentSelection(cellID: CellID, range: CellRange) extends Message
-object CurrentSelection extends MessageCompanion[CurrentSelection](28)
\ No newline at end of file
+object CurrentSelection extends MessageCompanion[CurrentSelection](28)
+
+/**
+  * Request for the updates made to a notebook after `fromVersion`, up to and including `toVersion`. The server responds
+  * with the same message, with `updates` filled in – or None, if it can't provide the complete range of updates (or the
+  * versions are from a different `epoch` than the server's).
+  */
+final case class NotebookUpdateRange(
+  reqId: Int,
+  notebook: ShortString,
+  epoch: ShortString,
+  fromVersion: Int,
+  toVersion: Int,
+  updates: Option[List[NotebookUpdate]]
+) extends Message
+
+object NotebookUpdateRange extends MessageCompanion[NotebookUpdateRange](32) {
+  private implicit val notebookUpdateCodec: Codec[NotebookUpdate] = NotebookUpdate.codec
+  implicit val codec: Codec[NotebookUpdateRange] = cachedImplicit
+}
\ No newline at end of file
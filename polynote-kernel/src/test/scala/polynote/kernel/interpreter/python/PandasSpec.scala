@@ -4,7 +4,7 @@ import org.scalatest.{FreeSpec, Matchers}
 import polynote.kernel.{ResultValue, ScalaCompiler}
 import polynote.kernel.interpreter.State
 import polynote.runtime.python.TypedPythonObject
-import polynote.runtime.{DoubleType, GroupAgg, IntType, LongType, StreamingDataRepr, StructField, StructType}
+import polynote.runtime.{DoubleType, GroupAgg, IntType, LongType, QuantileBin, StreamingDataRepr, StructField, StructType}
 import polynote.testing.InterpreterSpec
 import polynote.testing.kernel.MockEnv
 import shapeless.Witness
@@ -126,6 +126,133 @@ class PandasSpec extends FreeSpec with Matchers with InterpreterSpec {
         }
       }
 
+      "aggregates the whole DataFrame without grouping columns" in {
+        val result = interp1(
+          """import pandas as pd
+            |pd.DataFrame([[1.0, 1], [2.0, 1], [3.0, 1], [2.0, 1], [2.0, 2], [4.0, 2]], columns=['floatcol', 'intcol'])
+            |""".stripMargin)
+
+        result.state.scope.head match {
+          case ResultValue(name, typeName, _, _, value: TypedPythonObject[Witness.`"DataFrame"`.T@unchecked], _, _) =>
+            val reprs = TypedPythonObject.dataFrameReprs(value)
+
+            val Some(handle) = reprs.collectFirst {
+              case s: StreamingDataRepr => StreamingDataRepr.getHandle(s.handle)
+            }.flatten
+
+            val handle2 = StreamingDataRepr.getHandle(
+              StreamingDataRepr.fromHandle(
+                handle.modify(
+                  List(
+                    GroupAgg(
+                      Nil,
+                      List("floatcol" -> "mean", "floatcol" -> "count", "intcol" -> "sum")
+                    )
+                  )).right.get
+              ).handle
+            ).get
+
+            handle2.dataType shouldEqual StructType(
+              List(
+                StructField("mean(floatcol)", DoubleType),
+                StructField("count(floatcol)", DoubleType),
+                StructField("sum(intcol)", LongType)
+              ))
+
+            val rows = handle2.iterator.map {
+              buf =>
+                val struct = (buf.getDouble(), buf.getDouble(), buf.getLong())
+                buf.rewind()
+                struct
+            }.toList
+
+            rows shouldEqual List((14.0 / 6, 6.0, 8L))
+        }
+      }
+
+      "counts every row with count, like the other handles" in {
+        val result = interp1(
+          """import pandas as pd
+            |pd.DataFrame([[1.0, 1], [None, 1], [3.0, 1], [None, 2]], columns=['floatcol', 'intcol'])
+            |""".stripMargin)
+
+        result.state.scope.head match {
+          case ResultValue(name, typeName, _, _, value: TypedPythonObject[Witness.`"DataFrame"`.T@unchecked], _, _) =>
+            val reprs = TypedPythonObject.dataFrameReprs(value)
+
+            val Some(handle) = reprs.collectFirst {
+              case s: StreamingDataRepr => StreamingDataRepr.getHandle(s.handle)
+            }.flatten
+
+            val handle2 = StreamingDataRepr.getHandle(
+              StreamingDataRepr.fromHandle(
+                handle.modify(
+                  List(
+                    GroupAgg(
+                      Nil,
+                      List("floatcol" -> "count", "floatcol" -> "non_null_count", "floatcol" -> "null_count")
+                    )
+                  )).right.get
+              ).handle
+            ).get
+
+            val fieldTypes = handle2.dataType.asInstanceOf[StructType].fields.map(_.dataType)
+            val rows = handle2.iterator.map {
+              buf =>
+                val counts = fieldTypes.map {
+                  case LongType   => buf.getLong().toDouble
+                  case DoubleType => buf.getDouble()
+                  case other      => fail(s"Unexpected count type $other")
+                }
+                buf.rewind()
+                counts
+            }.toList
+
+            rows shouldEqual List(List(4.0, 2.0, 2.0))
+        }
+      }
+
+      "bins a column by its quantiles" in {
+        val result = interp1(
+          """import pandas as pd
+            |pd.DataFrame([[1.0, 1], [2.0, 1], [3.0, 1], [4.0, 1], [5.0, 2], [6.0, 2], [7.0, 2], [8.0, 2]], columns=['floatcol', 'intcol'])
+            |""".stripMargin)
+
+        result.state.scope.head match {
+          case ResultValue(name, typeName, _, _, value: TypedPythonObject[Witness.`"DataFrame"`.T@unchecked], _, _) =>
+            val reprs = TypedPythonObject.dataFrameReprs(value)
+
+            val Some(handle) = reprs.collectFirst {
+              case s: StreamingDataRepr => StreamingDataRepr.getHandle(s.handle)
+            }.flatten
+
+            val handle2 = StreamingDataRepr.getHandle(
+              StreamingDataRepr.fromHandle(
+                handle.modify(List(QuantileBin("floatcol", 4, 0.0))).right.get
+              ).handle
+            ).get
+
+            handle2.dataType shouldEqual StructType(
+              List(
+                StructField("floatcol", DoubleType),
+                StructField("intcol", LongType),
+                StructField("floatcol_quantized", DoubleType)
+              ))
+
+            val bins = handle2.iterator.map {
+              buf =>
+                val (_, _, bin) = (buf.getDouble(), buf.getLong(), buf.getDouble())
+                buf.rewind()
+                bin
+            }.toList
+
+            // each value is in the bin of the quantile at or below it, and the maximum is in a bin of its own
+            bins shouldEqual List(1.0, 2.0, 2.0, 4.0, 4.0, 6.0, 6.0, 8.0)
+
+            handle.modify(List(QuantileBin("floatcol", 0, 0.0))).isLeft shouldBe true
+        }
+      }
+
     }
 
   }
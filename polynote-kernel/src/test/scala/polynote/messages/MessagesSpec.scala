@@ -0,0 +1,73 @@
+package polynote.messages
+
+import org.scalatest.{FreeSpec, Matchers}
+import polynote.runtime._
+import scodec.bits.ByteVector
+
+import scala.io.Source
+
+class MessagesSpec extends FreeSpec with Matchers {
+
+  // the fingerprint, and the encoding of each sample message, which the client's tests (test/protocol.ts) check too.
+  private val expected: Map[String, String] = {
+    val source = Source.fromInputStream(getClass.getResourceAsStream("/protocol-samples.txt"), "UTF-8")
+    try source.getLines().map(_.trim).filter(line => line.nonEmpty && !line.startsWith("#")).map {
+      line =>
+        val Array(name, value) = line.split("\\s+")
+        name -> value
+    }.toMap finally source.close()
+  }
+
+  // these must be the same messages as in the client's test/protocol.ts.
+  private val samples: List[(String, Message)] = List(
+    "LoadNotebook" -> LoadNotebook("a.ipynb"),
+    "RunCell" -> RunCell(ShortList(List[CellID](1, 2))),
+    "CompletionsAt" -> CompletionsAt(1, 2, 3, ShortList(Nil)),
+    "ParametersAt" -> ParametersAt(1, 2, 3, None),
+    "SetCellLanguage" -> SetCellLanguage(1, 2, 3, "python"),
+    "StartKernel" -> StartKernel(0),
+    "CreateNotebook" -> CreateNotebook("a.ipynb"),
+    "RenameNotebook" -> RenameNotebook("a.ipynb", "b.ipynb"),
+    "DeleteCell" -> DeleteCell(1, 2, 3),
+    "HandleData" -> HandleData(1, Streaming, 2, 3, Right(Array[ByteVector32](ByteVector(1, 2, 3)))),
+    "CancelTasks" -> CancelTasks("a.ipynb"),
+    "ModifyStream" -> ModifyStream(1, 2,
+      TinyList(List[TableOp](
+        GroupAgg(List("a"), List("b" -> "count")),
+        QuantileBin("b", 4, 0.25),
+        Select(List("a", "b")),
+        Filter(Predicate.And(List(Predicate.Compare("a", "==", "x"), Predicate.Not(Predicate.Or(Nil))))),
+        Sort(List("a" -> true)),
+        Limit(10)
+      )),
+      Some(StreamingDataRepr(3, StructType(List(
+        StructField("a", StringType),
+        StructField("b", DoubleType),
+        StructField("c", OptionalType(DateType)),
+        StructField("d", TimestampType)
+      )), Some(10)))),
+    "ReleaseHandle" -> ReleaseHandle(Streaming, 3),
+    "ClearOutput" -> ClearOutput(),
+    "NotebookVersion" -> NotebookVersion(1, "a.ipynb", 2, "epoch"),
+    "CurrentSelection" -> CurrentSelection(1, (2, 3)),
+    "DeleteComment" -> DeleteComment(1, 2, 3, "uuid"),
+    "NotebookUpdateRange" -> NotebookUpdateRange(1, "a.ipynb", "epoch", 1, 2, Some(List(DeleteCell(2, 1, 3))))
+  )
+
+  "Messages" - {
+
+    "have the protocol fingerprint in protocol-samples.txt" in {
+      Message.protocolFingerprint shouldEqual expected("fingerprint")
+    }
+
+    "are encoded as in protocol-samples.txt" in {
+      // if this fails because a message changed, increment protocolRevision on both sides and update the file.
+      val actual = samples.map {
+        case (name, msg) => name -> Message.codec.encode(msg).require.toHex
+      }.toMap
+
+      actual shouldEqual (expected - "fingerprint")
+    }
+  }
+
+}
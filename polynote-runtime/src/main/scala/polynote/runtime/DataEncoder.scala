@@ -3,6 +3,7 @@ package polynote.runtime
 import java.io.DataOutput
 import java.nio.ByteBuffer
 import java.nio.charset.StandardCharsets
+import java.time.{Instant, LocalDate}
 
 import shapeless.labelled.FieldType
 import shapeless.{::, Generic, HList, HNil, LabelledGeneric, Lazy, Witness}
@@ -84,6 +85,13 @@ object DataEncoder extends DataEncoder0 {
       }
   }
 
+  implicit val localDate: DataEncoder[LocalDate] = instance(DateType)((out, date) => out.writeInt(date.toEpochDay.toInt))
+  implicit val sqlDate: DataEncoder[java.sql.Date] = localDate.contramap(_.toLocalDate)
+  implicit val instant: DataEncoder[Instant] = instance(TimestampType) {
+    (out, instant) => out.writeLong(instant.getEpochSecond * 1000000L + instant.getNano / 1000)
+  }
+  implicit val sqlTimestamp: DataEncoder[java.sql.Timestamp] = instant.contramap(_.toInstant)
+
   // NOT implicit!
   def unknownDataEncoder[T](typeName: String): DataEncoder[T] = {
     val msg = s"Missing DataRepr for type $typeName".getBytes(StandardCharsets.UTF_8)
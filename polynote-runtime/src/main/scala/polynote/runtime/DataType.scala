@@ -38,7 +38,10 @@ final case class OptionalType(element: DataType) extends DataType {
 final case class ArrayType(element: DataType) extends DataType
 final case class MapType(keyType: DataType, valueType: DataType) extends DataType
 
-//case object DateType extends FixedSizeType(4)
-//case object TimestampType extends FixedSizeType(8)
+// encoded as the number of days since the epoch (as an Int)
+case object DateType extends FixedSizeType(4)
+
+// encoded as the number of microseconds since the epoch, in UTC (as a Long)
+case object TimestampType extends FixedSizeType(8)
 
 case object TypeType extends DataType
\ No newline at end of file
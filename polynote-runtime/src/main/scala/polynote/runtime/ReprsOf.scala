@@ -155,7 +155,9 @@ private[runtime] trait CollectionReprs extends FromDataReprs { self: ReprsOf.typ
         mean += delta / index
       }
 
-      override def summarize(): Quartiles = {
+      override def summarize(): Quartiles = if (index == 0) {
+        Quartiles(Double.NaN, Double.NaN, Double.NaN, Double.NaN, Double.NaN, Double.NaN)
+      } else {
         java.util.Arrays.sort(values, 0, index)
 
         val quarter = index >> 2
@@ -190,6 +192,37 @@ private[runtime] trait CollectionReprs extends FromDataReprs { self: ReprsOf.typ
       val resultName: String = s"count($name)"
     }
 
+    // like SQL's count, this only counts the values which aren't null (or None)
+    private class NonNullCountAggregator(name: String, getter: B => Any) extends Aggregator[Long] {
+      private var count = 0L
+      override def accumulate(value: B): Unit = if (!isNull(getter(value))) count += 1
+      override def summarize(): Long = count
+      val encoder: DataEncoder[Long] = DataEncoder.long
+      val resultName: String = s"non_null_count($name)"
+    }
+
+    private class NullCountAggregator(name: String, getter: B => Any) extends Aggregator[Long] {
+      private var count = 0L
+      override def accumulate(value: B): Unit = if (isNull(getter(value))) count += 1
+      override def summarize(): Long = count
+      val encoder: DataEncoder[Long] = DataEncoder.long
+      val resultName: String = s"null_count($name)"
+    }
+
+    // the data is already in memory, so the count doesn't need to be approximate
+    private class DistinctCountAggregator(name: String, getter: B => Any) extends Aggregator[Long] {
+      private val values = new java.util.HashSet[Any]()
+      override def accumulate(value: B): Unit = getter(value) match {
+        case v if isNull(v) =>
+        case v => values.add(v)
+      }
+      override def summarize(): Long = values.size().toLong
+      val encoder: DataEncoder[Long] = DataEncoder.long
+      val resultName: String = s"approx_count_distinct($name)"
+    }
+
+    private def isNull(value: Any): Boolean = value == null || value == None
+
     private class MeanAggregator(name: String, getter: B => Double) extends Aggregator[Double] {
       private var count = 0
       private var mean = 0.0
@@ -220,15 +253,114 @@ private[runtime] trait CollectionReprs extends FromDataReprs { self: ReprsOf.typ
         case "quartiles" => new QuartileAggregator(col, numericEncoder)
         case "sum"       => new SumAggregator(col, numericEncoder)
         case "count"     => new CountAggregator(col)
+        case "non_null_count" => new NonNullCountAggregator(col, requireField(col)._1)
+        case "null_count" => new NullCountAggregator(col, requireField(col)._1)
+        case "approx_count_distinct" => new DistinctCountAggregator(col, requireField(col)._1)
         case "mean"      => new MeanAggregator(col, numericEncoder)
         case _ => throw new IllegalArgumentException(s"No aggregation $aggName available")
       }
     }
 
+    private def requireField(col: String): (B => Any, DataEncoder[_]) =
+      enc.field(col).getOrElse(throw new IllegalArgumentException(s"No field $col in struct"))
+
+    // the values of a column, along with how to compare them with each other and with a literal value in a Predicate
+    private case class ColumnKey(get: B => Any, parse: String => Any, compare: (Any, Any) => Int)
+
+    private def columnKey(col: String): ColumnKey = requireField(col) match {
+      case (getter, colEnc) if colEnc.numeric.nonEmpty =>
+        val numeric = (colEnc.numeric.get.toDouble(_)).asInstanceOf[Any => Double]
+        ColumnKey(getter andThen numeric, _.toDouble, (a, b) => java.lang.Double.compare(a.asInstanceOf[Double], b.asInstanceOf[Double]))
+      case (getter, colEnc) if colEnc.dataType == StringType =>
+        ColumnKey(getter, str => str, (a, b) => a.asInstanceOf[String].compareTo(b.asInstanceOf[String]))
+      case (getter, colEnc) if colEnc.dataType == BoolType =>
+        ColumnKey(getter, _.toBoolean, (a, b) => java.lang.Boolean.compare(a.asInstanceOf[Boolean], b.asInstanceOf[Boolean]))
+      case _ => throw new IllegalArgumentException(s"Field $col can't be compared")
+    }
+
+    private def test(predicate: Predicate): B => Boolean = predicate match {
+      case Predicate.Compare(col, "contains", value) =>
+        val getter = requireField(col)._1
+        b => String.valueOf(getter(b)).contains(value)
+
+      case Predicate.Compare(col, op, value) =>
+        val key = columnKey(col)
+        val literal = key.parse(value)
+        val matches: Int => Boolean = op match {
+          case "==" => _ == 0
+          case "!=" => _ != 0
+          case "<"  => _ < 0
+          case "<=" => _ <= 0
+          case ">"  => _ > 0
+          case ">=" => _ >= 0
+          case _    => throw new IllegalArgumentException(s"No comparison $op available")
+        }
+        b => matches(key.compare(key.get(b), literal))
+
+      case Predicate.And(predicates) =>
+        val tests = predicates.map(test)
+        b => tests.forall(_.apply(b))
+
+      case Predicate.Or(predicates) =>
+        val tests = predicates.map(test)
+        b => tests.exists(_.apply(b))
+
+      case Predicate.Not(p) =>
+        val t = test(p)
+        b => !t(b)
+    }
+
+    private def ordering(cols: List[(String, Boolean)]): Ordering[B] = {
+      val keys = cols.map {
+        case (col, descending) => columnKey(col) -> descending
+      }
+
+      new Ordering[B] {
+        def compare(x: B, y: B): Int = keys.iterator.map {
+          case (key, descending) =>
+            val result = key.compare(key.get(x), key.get(y))
+            if (descending) -result else result
+        }.find(_ != 0).getOrElse(0)
+      }
+    }
+
+    private def withTransform(fn: Seq[B] => Seq[B]): StructSeqStreamHandle[A, B] = copy(transform = transform andThen fn)
+
+    // encodes rows which are arrays of the struct's field values
+    private def arrayEncoder(structType: StructType, encoders: List[DataEncoder[Any]]): DataEncoder.StructDataEncoder[Array[Any]] =
+      new runtime.DataEncoder.StructDataEncoder[Array[Any]](structType) {
+        def field(name: String): Option[(Array[Any] => Any, DataEncoder[_])] = {
+          structType.fields.indexWhere(_.name == name) match {
+            case -1 => None
+            case index => Some((arr => arr(index), encoders(index)))
+          }
+        }
+
+        def encode(dataOutput: DataOutput, value: Array[Any]): Unit = {
+          val encs = encoders.iterator
+          var i = 0
+          while (i < value.length) {
+            encs.next().encode(dataOutput, value(i))
+            i += 1
+          }
+        }
+
+        def sizeOf(t: Array[Any]): Int = {
+          val encs = encoders.iterator
+          var size = encs.next().sizeOf(t(0))
+          var i = 1
+          while (i < t.length) {
+            size = DataEncoder.combineSize(size, encs.next().sizeOf(t(i)))
+            i += 1
+          }
+          size
+        }
+      }
+
     def modify(ops: List[TableOp]): Either[Throwable, Int => StreamingDataRepr.Handle] = {
       ops match {
         case Nil => Right(StructSeqStreamHandle[A, B](_, data, transform, enc))
-        case GroupAgg(cols, aggs) :: rest if cols.nonEmpty =>
+        case GroupAgg(cols, aggs) :: rest =>
           try {
             val groupingFields = cols.map {
               col => enc.field(col).getOrElse(throw new IllegalArgumentException(s"No field $col in struct"))
@@ -242,7 +374,10 @@ private[runtime] trait CollectionReprs extends FromDataReprs { self: ReprsOf.typ
                 (a.resultName -> a.encoder.dataType, a.encoder.asInstanceOf[DataEncoder[Any]])
             }.unzip
 
-            val groupTransform = (bs: Seq[B]) => bs.groupBy(b => getters.map(_.apply(b))).toSeq.map {
+            // without any grouping columns, everything is aggregated into a single row (even if there's no data)
+            val groupTransform = (bs: Seq[B]) => {
+              if (cols.isEmpty) Seq(List.empty[Any] -> bs) else bs.groupBy(b => getters.map(_.apply(b))).toSeq
+            }.map {
               case (groupCols, group) =>
                 val aggregators = aggs.map {
                   case (col, aggName) => aggregate(col, aggName)
@@ -264,39 +399,69 @@ private[runtime] trait CollectionReprs extends FromDataReprs { self: ReprsOf.typ
 
             val groupedEncoders = groupingFields.map(_._2.asInstanceOf[DataEncoder[Any]]) ++ aggregateEncoders
 
-            val groupedEncoder = new runtime.DataEncoder.StructDataEncoder[Array[Any]](groupedType) {
-              def field(name: String): Option[(Array[Any] => Any, DataEncoder[_])] = {
-                groupedType.fields.indexWhere(_.name == name) match {
-                  case -1 => None
-                  case index => Some((arr => arr(index), groupedEncoders(index)))
-                }
+            val groupedEncoder = arrayEncoder(groupedType, groupedEncoders)
+
+            new StructSeqStreamHandle[A, Array[Any]](handle, data, transform andThen groupTransform, groupedEncoder).modify(rest)
+          } catch {
+            case err: Throwable => Left(err)
+          }
+
+        case QuantileBin(col, binCount, _) :: rest =>
+          try {
+            if (binCount < 1) {
+              throw new IllegalArgumentException(s"Can't bin $col into $binCount bins")
+            }
+
+            val (getter, colEnc) = requireField(col)
+            val numeric = colEnc.numeric.getOrElse(throw new IllegalArgumentException(s"Field $col is not numeric; cannot bin it"))
+              .asInstanceOf[Numeric[Any]]
+
+            val fields = enc.dataType.fields.map(field => requireField(field.name))
+            val binnedType = StructType(enc.dataType.fields :+ StructField(s"${col}_quantized", DoubleType))
+            val binnedEncoder = arrayEncoder(binnedType, fields.map(_._2.asInstanceOf[DataEncoder[Any]]) :+ DataEncoder.double.asInstanceOf[DataEncoder[Any]])
+
+            // As with Spark, each value is replaced by the quantile which starts its bin (and the maximum is in a bin of its own).
+            // The data is in memory, so the quantiles are exact.
+            val binTransform = (bs: Seq[B]) => {
+              val values = bs.map(b => numeric.toDouble(getter(b))).toArray
+              java.util.Arrays.sort(values)
+              val quantiles = (0 to binCount).map {
+                i => if (values.isEmpty) 0.0 else values(math.min(values.length - 1, (i.toLong * values.length / binCount).toInt))
               }
 
-              def encode(dataOutput: DataOutput, value: Array[Any]): Unit = {
-                val encs = groupedEncoders.iterator
-                var i = 0
-                while (i < value.length) {
-                  encs.next().encode(dataOutput, value(i))
-                  i += 1
-                }
+              def bin(x: Double): Double = if (x < quantiles(1)) quantiles.head else {
+                (1 until quantiles.length - 1).find(i => x >= quantiles(i) && x < quantiles(i + 1)).map(quantiles).getOrElse(quantiles.last)
               }
 
-              def sizeOf(t: Array[Any]): Int = {
-                val encs = groupedEncoders.iterator
-                var size = encs.next().sizeOf(t(0))
-                var i = 1
-                while (i < t.length) {
-                  size = DataEncoder.combineSize(size, encs.next().sizeOf(t(i)))
-                  i += 1
-                }
-                size
+              bs.map {
+                b => (fields.map(_._1.apply(b)) :+ bin(numeric.toDouble(getter(b)))).toArray
               }
             }
 
-            Right((newHandle: Int) => new StructSeqStreamHandle[A, Array[Any]](newHandle, data, transform andThen groupTransform, groupedEncoder))
+            new StructSeqStreamHandle[A, Array[Any]](handle, data, transform andThen binTransform, binnedEncoder).modify(rest)
           } catch {
             case err: Throwable => Left(err)
           }
+
+        case Filter(predicate) :: rest =>
+          try {
+            val p = test(predicate)
+            withTransform(_.filter(p)).modify(rest)
+          } catch {
+            case err: Throwable => Left(err)
+          }
+
+        case Sort(cols) :: rest =>
+          try {
+            val ord = ordering(cols)
+            withTransform(_.sorted(ord)).modify(rest)
+          } catch {
+            case err: Throwable => Left(err)
+          }
+
+        case Limit(count) :: rest => withTransform(_.take(count)).modify(rest)
+
+        case op :: _ => Left(new UnsupportedOperationException(s"$op is not supported for collections"))
       }
     }
   }
@@ -256,6 +256,24 @@ sealed trait TableOp
 final case class GroupAgg(columns: List[String], aggregations: List[(String, String)]) extends TableOp
 final case class QuantileBin(column: String, binCount: Int, err: Double) extends TableOp
 final case class Select(columns: List[String]) extends TableOp
+final case class Filter(predicate: Predicate) extends TableOp
+// each column is paired with whether it's sorted in descending order
+final case class Sort(columns: List[(String, Boolean)]) extends TableOp
+final case class Limit(count: Int) extends TableOp
+
+/**
+  * A predicate over the fields of a struct, for filtering a table with [[Filter]]. The value of a [[Predicate.Compare]]
+  * is given as a string, and is interpreted according to the type of the column it's compared with.
+  */
+sealed trait Predicate
+
+object Predicate {
+  // op is one of "==", "!=", "<", "<=", ">", ">=" or "contains"
+  final case class Compare(column: String, op: String, value: String) extends Predicate
+  final case class And(predicates: List[Predicate]) extends Predicate
+  final case class Or(predicates: List[Predicate]) extends Predicate
+  final case class Not(predicate: Predicate) extends Predicate
+}
 
 // the standard structure to hold quartile data
 final case class Quartiles(min: Double, q1: Double, median: Double, mean: Double, q3: Double, max: Double)
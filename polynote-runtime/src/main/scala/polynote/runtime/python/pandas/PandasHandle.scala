@@ -144,18 +144,57 @@ class PandasHandle(val handle: Int, df: PythonObject) extends StreamingDataRepr.
         namedLambda("lambda x: x.max()", s"quartiles($col).max"),
         namedLambda("lambda x: x.mean()", s"quartiles($col).mean")
       )
+      // count is every row, like the other handles' count; pandas' own count() is non_null_count.
+      case "count" => List(namedLambda("lambda x: x.size", s"count($col)"))
+      case "non_null_count" => List(namedLambda("lambda x: x.count()", s"non_null_count($col)"))
+      case "null_count" => List(namedLambda("lambda x: x.isna().sum()", s"null_count($col)"))
+      case "approx_count_distinct" => List(namedLambda("lambda x: x.nunique()", s"approx_count_distinct($col)"))
       case agg => List(namedLambda(s"lambda x: x.$agg()", s"$agg($col)"))
     }
   }
 
+  // a boolean series (or array) which selects the rows of the dataframe that match the predicate
+  private def mask(df: PythonObject, predicate: Predicate): PythonObject = predicate match {
+    case Predicate.Compare(col, "contains", value) =>
+      df.__getitem__(col).astype("str").str.contains(value, regex = false)
+
+    case Predicate.Compare(col, op, value) =>
+      val column = df.__getitem__(col)
+      val literal: AnyRef = typeFor(column.dtype.name.as[String]) match {
+        case Some(StringType) | None => value
+        case Some(BoolType)          => Boolean.box(value.toBoolean)
+        case Some(_)                 => Double.box(value.toDouble)
+      }
+
+      op match {
+        case "==" => column.__eq__(literal)
+        case "!=" => column.__ne__(literal)
+        case "<"  => column.__lt__(literal)
+        case "<=" => column.__le__(literal)
+        case ">"  => column.__gt__(literal)
+        case ">=" => column.__ge__(literal)
+        case _    => throw new UnsupportedOperationException(op)
+      }
+
+    case Predicate.And(predicates) => predicates.map(mask(df, _)).reduceOption((a, b) => a.__and__(b)).getOrElse(df.index.notna())
+    case Predicate.Or(predicates)  => predicates.map(mask(df, _)).reduceOption((a, b) => a.__or__(b)).getOrElse(df.index.isna())
+    case Predicate.Not(p)          => mask(df, p).__invert__()
+  }
+
   override def modify(ops: List[TableOp]): Either[Throwable, Int => StreamingDataRepr.Handle] = ops.foldLeft(tryEither(df)) {
     (dfOrErr, op) => dfOrErr.right.flatMap {
       df => op match {
         case GroupAgg(cols, aggs) =>
           tryEither {
             val pandasAggs = aggs.groupBy(_._1).mapValues(_.map(_._2)).map((mkAggs _).tupled).mapValues(aggs => df.runner.listOf(aggs: _*))
-            val next = df.groupby(df.runner.listOf(cols: _*), as_index = false)
-              .agg(df.runner.dictOf(pandasAggs.toSeq: _*))
+
+            // pandas can't group by no columns at all, so then every row is put in the same group – whose key is the
+            // index, rather than a column, so it doesn't end up in the result.
+            val grouped =
+              if (cols.nonEmpty) df.groupby(df.runner.listOf(cols: _*), as_index = false)
+              else df.groupby(df.runner.runJep(j => j.getValue("lambda _: 0", classOf[PyObject])))
+
+            val next = grouped.agg(df.runner.dictOf(pandasAggs.toSeq: _*))
 
             val aggCols = next.columns.asScalaList
             val (l1, l2) = aggCols.map {
@@ -174,10 +213,36 @@ class PandasHandle(val handle: Int, df: PythonObject) extends StreamingDataRepr.
             next.updateDynamic("columns")(index)
             next
           }
+        case QuantileBin(col, binCount, _) =>
+          tryEither {
+            if (binCount < 1) {
+              throw new IllegalArgumentException(s"Can't bin $col into $binCount bins")
+            }
+
+            // the data is in memory, so (as with collections) the quantiles are exact and the error is ignored.
+            val binned = df.runner.runJep {
+              j => j.getValue("__polynote_quantile_bin__", classOf[PyCallable]).callAs(classOf[PyObject], df.unwrap, col, Int.box(binCount))
+            }
+            new PythonObject(binned, df.runner)
+          }
         case Select(cols) =>
           tryEither {
             df.__getitem__(df.runner.listOf(cols: _*))
           }
+        case Filter(predicate) =>
+          tryEither {
+            df.__getitem__(mask(df, predicate))
+          }
+        case Sort(cols) =>
+          tryEither {
+            df.sort_values(
+              by = df.runner.listOf(cols.map(_._1): _*),
+              ascending = df.runner.listOf(cols.map(col => Boolean.box(!col._2)): _*))
+          }
+        case Limit(count) =>
+          tryEither {
+            df.head(count)
+          }
         case op => Left(new UnsupportedOperationException(s"$op not yet supported for pandas"))
       }
     }
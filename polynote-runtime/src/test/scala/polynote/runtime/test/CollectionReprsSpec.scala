@@ -4,12 +4,13 @@ import java.nio.ByteBuffer
 import java.nio.charset.StandardCharsets
 
 import org.scalatest.{FreeSpec, Matchers}
-import polynote.runtime.{DataEncoder, GroupAgg, ReprsOf, StreamingDataRepr}
+import polynote.runtime.{DataEncoder, Filter, GroupAgg, Limit, Predicate, QuantileBin, ReprsOf, Sort, StreamingDataRepr}
 
 class  CollectionReprsSpec extends FreeSpec with Matchers {
 
   "Streaming repr of structs" - {
     case class Example(label: String, i: Int, d: Double)
+    case class Sparse(label: Option[String], i: Int)
 
     "Aggregates correctly" - {
       "mean" in {
@@ -37,6 +38,67 @@ class  CollectionReprsSpec extends FreeSpec with Matchers {
         )
       }
 
+      "without grouping columns" in {
+        val l = List(Sparse(Some("a"), 1), Sparse(None, 2), Sparse(Some("a"), 3), Sparse(Some("b"), 4))
+        val de = implicitly[DataEncoder.StructDataEncoder[Sparse]]
+        val h = ReprsOf.StructSeqStreamHandle[Sparse, Sparse](0, l, l => l, de)
+        val aggs = List("label" -> "count", "label" -> "non_null_count", "label" -> "null_count", "label" -> "approx_count_distinct", "i" -> "quartiles")
+        val Right(h1) = h.modify(List(GroupAgg(Nil, aggs))).right.map(_.apply(1))
+
+        def decode(buf: ByteBuffer) = {
+          buf.rewind()
+          val counts = (buf.getLong(), buf.getLong(), buf.getLong(), buf.getLong())
+          val quartiles = List.fill(6)(buf.getDouble())
+          (counts, quartiles)
+        }
+
+        h1.iterator.map(decode).toList shouldEqual List(((4L, 3L, 1L, 2L), List(1.0, 2.0, 3.0, 2.5, 4.0, 4.0)))
+      }
+
+    }
+
+    "Filters, sorts and limits" in {
+      val l = List(Example("a", 10, 10.0), Example("b", 11, 11.0), Example("c", 12, 12.0), Example("a", 12, 13.0))
+      val de = implicitly[DataEncoder.StructDataEncoder[Example]]
+      val h = ReprsOf.StructSeqStreamHandle[Example, Example](0, l, l => l, de)
+
+      val ops = List(
+        Filter(Predicate.Or(List(Predicate.Compare("i", ">", "11"), Predicate.Compare("label", "==", "a")))),
+        Sort(List("i" -> true, "d" -> false)),
+        Limit(2))
+
+      val Right(h1) = h.modify(ops).right.map(_.apply(1))
+
+      def decode(buf: ByteBuffer) = {
+        buf.rewind()
+        val labelArr = new Array[Byte](buf.getInt())
+        buf.get(labelArr)
+        (new String(labelArr, StandardCharsets.UTF_8), buf.getInt(), buf.getDouble())
+      }
+
+      h1.iterator.map(decode).toList shouldEqual List(("c", 12, 12.0), ("a", 12, 13.0))
+    }
+
+    "Bins by quantile" in {
+      val l = (1 to 8).toList.map(i => Example("a", i, i.toDouble))
+      val de = implicitly[DataEncoder.StructDataEncoder[Example]]
+      val h = ReprsOf.StructSeqStreamHandle[Example, Example](0, l, l => l, de)
+      val Right(h1) = h.modify(List(QuantileBin("d", 4, 0.25), GroupAgg(List("d_quantized"), List("d" -> "count")))).right.map(_.apply(1))
+
+      def decode(buf: ByteBuffer) = {
+        buf.rewind()
+        (buf.getDouble(), buf.getLong())
+      }
+
+      h1.iterator.map(decode).toList should contain theSameElementsAs List(
+        (1.0, 2L), (3.0, 2L), (5.0, 2L), (7.0, 1L), (8.0, 1L)
+      )
+    }
+
+    "Fails to filter on a missing field" in {
+      val de = implicitly[DataEncoder.StructDataEncoder[Example]]
+      val h = ReprsOf.StructSeqStreamHandle[Example, Example](0, Nil, l => l, de)
+      h.modify(List(Filter(Predicate.Compare("nope", "==", "1")))).isLeft shouldBe true
     }
   }
 
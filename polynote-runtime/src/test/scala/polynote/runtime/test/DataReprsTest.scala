@@ -1,6 +1,8 @@
 package polynote.runtime
 package test
 
+import java.time.{Instant, LocalDate}
+
 import org.scalacheck.{Arbitrary, Gen}
 import Arbitrary.arbitrary
 import org.scalatest.{FreeSpec, Matchers}
@@ -41,6 +43,14 @@ class DataReprsTest extends FreeSpec with Matchers with ScalaCheckDrivenProperty
       test[(String, Int, Map[Int, String])]
       test[List[(Int, Boolean, String, String, Option[Int], Option[String], List[String], Map[String, Int])]]
     }
+
+    "Dates and timestamps" - {
+      implicit val arbLocalDate: Arbitrary[LocalDate] = Arbitrary(Gen.choose(-1000000L, 1000000L).map(LocalDate.ofEpochDay))
+      implicit val arbInstant: Arbitrary[Instant] = Arbitrary(Gen.choose(-100000000000000L, 100000000000000L).map(Instant.ofEpochMilli))
+      test[LocalDate]
+      test[Instant]
+      test[List[(LocalDate, Option[Instant])]]
+    }
   }
 
 }
@@ -1,6 +1,7 @@
 package polynote
 package server
 
+import java.util.UUID
 import java.util.concurrent.ConcurrentHashMap
 import java.util.concurrent.atomic.AtomicInteger
 
@@ -24,6 +25,7 @@ import scala.concurrent.duration.FiniteDuration
 
 class KernelPublisher private (
   val versionedNotebook: NotebookRef,
+  val epoch: String,
   val versionBuffer: VersionBuffer[NotebookUpdate],
   publishUpdate: Publish[Task, (SubscriberId, NotebookUpdate)],
   val broadcastUpdates: Topic[Task, Option[(SubscriberId, NotebookUpdate)]],
@@ -62,6 +64,24 @@ class KernelPublisher private (
 
   def latestVersion: Task[(GlobalVersion, Notebook)] = versionedNotebook.getVersioned
 
+  /**
+    * The updates which were applied after `fromVersion`, up to and including `toVersion`, or None if the version buffer
+    * doesn't contain that entire range (i.e. because the publisher was created after `fromVersion`) or the versions
+    * belong to another publisher's `epoch`.
+    */
+  def updatesBetween(epoch: String, fromVersion: GlobalVersion, toVersion: GlobalVersion): Option[List[NotebookUpdate]] =
+    if (epoch != this.epoch)
+      None
+    else if (fromVersion == toVersion)
+      Some(Nil)
+    else if (fromVersion > toVersion)
+      None
+    else versionBuffer.oldestVersion.filter(_ <= fromVersion + 1).map {
+      _ => versionBuffer.getRangeV(fromVersion, toVersion).collect {
+        case (version, update) if version > fromVersion => update
+      }
+    }
+
   def subscribersPresent: UIO[List[(Presence, Option[PresenceSelection])]] = subscribers.values.flatMap {
     subscribers => subscribers.map {
       subscriber => subscriber.getSelection.map {
@@ -223,6 +243,7 @@ object KernelPublisher {
     broadcastResults <- Topic[Task, Option[CellResult]](None)
     taskManager      <- TaskManager(broadcastStatus)
     versionBuffer     = new VersionBuffer[NotebookUpdate]  // TODO: should NotebookRef capture this instead?
+    epoch            <- ZIO.effectTotal(UUID.randomUUID().toString)
     kernelStarting   <- Semaphore.make(1)
     queueingCell     <- Semaphore.make(1)
     subscribing      <- Semaphore.make(1)
@@ -231,6 +252,7 @@ object KernelPublisher {
     subscriberVersions = new ConcurrentHashMap[SubscriberId, (GlobalVersion, Int)]()
     publisher = new KernelPublisher(
       versionedRef,
+      epoch,
       versionBuffer,
       Publish(updates).some,
       broadcastUpdates,
@@ -0,0 +1,167 @@
+package polynote.server
+
+import java.nio.ByteBuffer
+import java.util.UUID
+import java.util.concurrent.TimeUnit
+
+import uzhttp.{HTTPError, Request, Response}
+import uzhttp.HTTPError.{BadRequest, NotFound}
+import uzhttp.Request.Method
+import uzhttp.websocket.{Binary, Close, Frame}
+import zio.clock.Clock
+import zio.duration.Duration
+import zio.stream.{Stream, Take, ZStream}
+import zio.{Promise, Queue, Ref, UIO, URIO, ZIO, clock}
+
+import scala.collection.mutable.ListBuffer
+
+/**
+  * A session which is served over HTTP long-polling rather than a websocket, for clients which can't use websockets
+  * (e.g. because a proxy blocks them). It carries the same stream of frames that a websocket would: frames from the
+  * client are POSTed, and frames for the client are fetched by polling with GETs, which wait until there's something to
+  * return. In both directions, the body is a sequence of binary frames, each prefixed by its length as an int32.
+  */
+final class LongPollSession private (
+  input: Queue[Take[Nothing, Frame]],
+  output: Queue[Take[Nothing, Frame]],
+  lastActive: Ref[Long],
+  val ended: Promise[Nothing, Unit]
+) {
+  import LongPollSession.{decodeFrames, encodeFrames, idleTimeout, pollTimeout}
+
+  // the body comes from the client, so it could be anything – if it isn't a valid sequence of frames, the request fails.
+  def send(body: Array[Byte]): ZIO[Clock, HTTPError, Unit] = touch *> ZIO(decodeFrames(body)).orElseFail(BadRequest("Invalid frames")).flatMap {
+    frames => input.offerAll(frames.map(Take.Value(_))).unit
+  }
+
+  /**
+    * Wait for frames to send to the client, and return them all (or an empty body if there weren't any before the
+    * timeout). Returns None if the session has ended.
+    */
+  def poll: URIO[Clock, Option[Array[Byte]]] = touch *> output.take.timeout(pollTimeout).flatMap {
+    case None                => ZIO.some(Array.emptyByteArray)
+    case Some(Take.End)      => output.offer(Take.End).as(None)   // so that any other polls see the end too
+    case Some(first)         => output.takeAll.flatMap {
+      rest =>
+        val frames = ListBuffer.empty[Array[Byte]]
+        val end = (first :: rest).exists {
+          case Take.Value(Binary(data, _)) => frames += data; false
+          case Take.Value(Close)           => true
+          case Take.Value(_)               => false  // pings etc. don't mean anything here
+          case _                           => true
+        }
+        ZIO.when(end)(output.offer(Take.End)).as(Some(encodeFrames(frames.toList)))
+    }
+  }
+
+  def close: UIO[Unit] = input.offer(Take.End).unit
+
+  private def touch: URIO[Clock, Unit] = clock.currentTime(TimeUnit.MILLISECONDS).flatMap(lastActive.set)
+
+  // close the session if the client hasn't been heard from for a while (i.e. it went away without closing it.)
+  private def closeWhenIdle: URIO[Clock, Unit] = ZIO.sleep(idleTimeout) *> (clock.currentTime(TimeUnit.MILLISECONDS) <*> lastActive.get).flatMap {
+    case (now, last) if now - last >= idleTimeout.toMillis => close
+    case _ => closeWhenIdle
+  }
+}
+
+object LongPollSession {
+  val pollTimeout: Duration = Duration(25, TimeUnit.SECONDS)
+  val idleTimeout: Duration = Duration(60, TimeUnit.SECONDS)
+
+  /**
+    * Start a session, given a function which produces the output frames from the input frames (i.e. the same thing
+    * that would be served over a websocket).
+    */
+  def apply[R](
+    session: Stream[Throwable, Frame] => ZIO[R, HTTPError, Stream[Throwable, Frame]]
+  ): ZIO[R with Clock, HTTPError, LongPollSession] = for {
+    input      <- Queue.unbounded[Take[Nothing, Frame]]
+    output     <- Queue.unbounded[Take[Nothing, Frame]]
+    now        <- clock.currentTime(TimeUnit.MILLISECONDS)
+    lastActive <- Ref.make(now)
+    ended      <- Promise.make[Nothing, Unit]
+    frames     <- session(ZStream.fromQueue(input).unTake)
+    result      = new LongPollSession(input, output, lastActive, ended)
+    _          <- frames.foreach(frame => output.offer(Take.Value(frame)))
+                    .ensuring(output.offer(Take.End) *> ended.succeed(()))
+                    .forkDaemon
+    _          <- result.closeWhenIdle.race(ended.await).forkDaemon
+  } yield result
+
+  private[server] def encodeFrames(frames: List[Array[Byte]]): Array[Byte] = {
+    val buf = ByteBuffer.allocate(frames.map(_.length + 4).sum)
+    frames.foreach {
+      frame => buf.putInt(frame.length).put(frame)
+    }
+    buf.array()
+  }
+
+  // throws IllegalArgumentException if the body isn't a whole number of frames with valid lengths.
+  private[server] def decodeFrames(body: Array[Byte]): List[Frame] = {
+    val buf = ByteBuffer.wrap(body)
+    val frames = ListBuffer.empty[Frame]
+    while (buf.hasRemaining) {
+      if (buf.remaining() < 4) {
+        throw new IllegalArgumentException("Truncated frame length")
+      }
+      val length = buf.getInt()
+      if (length < 0 || length > buf.remaining()) {
+        throw new IllegalArgumentException(s"Invalid frame length $length")
+      }
+      val frame = new Array[Byte](length)
+      buf.get(frame)
+      frames += Binary(frame, true)
+    }
+    frames.toList
+  }
+}
+
+/**
+  * Keeps track of the long-polling sessions, which are identified by a random ID that the client includes in each
+  * request (see [[LongPollSession]]).
+  */
+final class LongPollSessions private (sessions: Ref[Map[String, LongPollSession]]) {
+
+  def handle[R](
+    req: Request,
+    sessionId: Option[String],
+    session: Stream[Throwable, Frame] => ZIO[R, HTTPError, Stream[Throwable, Frame]]
+  ): ZIO[R with Clock, HTTPError, Response] = (req.method, sessionId) match {
+    case (Method.POST, None)       => open(session).map(id => Response.plain(id))
+    case (Method.POST, Some(id))   => (get(id) <*> readBody(req)).flatMap {
+      case (s, body) => s.send(body).as(Response.const(Array.emptyByteArray))
+    }
+    case (Method.GET, Some(id))    => get(id).flatMap(_.poll).flatMap {
+      case Some(body) => ZIO.succeed(Response.const(body))
+      case None       => ZIO.fail(NotFound(s"Session $id"))
+    }
+    case (Method.DELETE, Some(id)) => get(id).flatMap(_.close).as(Response.const(Array.emptyByteArray))
+    case _                         => ZIO.fail(BadRequest("Invalid long-polling request"))
+  }
+
+  private def open[R](
+    session: Stream[Throwable, Frame] => ZIO[R, HTTPError, Stream[Throwable, Frame]]
+  ): ZIO[R with Clock, HTTPError, String] = for {
+    s  <- LongPollSession(session)
+    id  = UUID.randomUUID().toString
+    _  <- sessions.update(_ + (id -> s))
+    _  <- (s.ended.await *> sessions.update(_ - id)).forkDaemon
+  } yield id
+
+  private def get(id: String): ZIO[Any, HTTPError, LongPollSession] = sessions.get.flatMap {
+    sessions => ZIO.fromOption(sessions.get(id)).orElseFail(NotFound(s"Session $id"))
+  }
+
+  private def readBody(req: Request): ZIO[Any, HTTPError, Array[Byte]] = req.body match {
+    case Some(body) => body.runCollect.map(_.toArray)
+    case None       => ZIO.succeed(Array.emptyByteArray)
+  }
+}
+
+object LongPollSessions {
+  def make: UIO[LongPollSessions] = Ref.make(Map.empty[String, LongPollSession]).map(new LongPollSessions(_))
+
+  // whether the request path is for long-polling: "/poll" for the global session, or "/poll/<notebook path>"
+  def isPollPath(path: String): Boolean = path == "/poll" || (path startsWith "/poll/")
+}
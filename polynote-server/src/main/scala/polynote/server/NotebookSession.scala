@@ -41,12 +41,12 @@ class NotebookSession(subscriber: KernelSubscriber, streamingHandles: StreamingH
           ids.map(id => subscriber.publisher.queueCell(id)).sequence.flatMap(_.sequence).unit
       }
 
-    case req@CompletionsAt(id, pos, _) => for {
+    case req@CompletionsAt(_, id, pos, _) => for {
       completions <- subscriber.publisher.completionsAt(id, pos)
       _           <- PublishMessage(req.copy(completions = ShortList(completions)))
     } yield ()
 
-    case req@ParametersAt(id, pos, _) => for {
+    case req@ParametersAt(_, id, pos, _) => for {
       signatures <- subscriber.publisher.parametersAt(id, pos)
       _          <- PublishMessage(req.copy(signatures = signatures))
     } yield ()
@@ -61,13 +61,13 @@ class NotebookSession(subscriber: KernelSubscriber, streamingHandles: StreamingH
     case StartKernel(StartKernel.ColdRestart) => subscriber.publisher.restartKernel(true)
     case StartKernel(StartKernel.Kill)        => subscriber.publisher.killKernel()
 
-    case req@HandleData(handleType, handle, count, _) => for {
+    case req@HandleData(_, handleType, handle, count, _) => for {
       kernel <- subscriber.publisher.kernel
       data   <- kernel.getHandleData(handleType, handle, count).provideSomeLayer[BaseEnv](streamingHandlesLayer).mapError(err => Error(0, err)).either
       _      <- PublishMessage(req.copy(data = data))
     } yield ()
 
-    case req @ ModifyStream(fromHandle, ops, _) => for {
+    case req @ ModifyStream(_, fromHandle, ops, _) => for {
       kernel  <- subscriber.publisher.kernel
       newRepr <- kernel.modifyStream(fromHandle, ops).provideSomeLayer[BaseEnv](streamingHandlesLayer)
       _       <- PublishMessage(req.copy(newRepr = newRepr))
@@ -86,13 +86,20 @@ class NotebookSession(subscriber: KernelSubscriber, streamingHandles: StreamingH
       _     <- ZIO.foreach_(cells)(id => PublishMessage(CellResult(id, ClearResults())))
     } yield ()
 
-    case nv @ NotebookVersion(path, _) => for {
+    case nv @ NotebookVersion(_, path, _, _) => for {
       versioned  <- subscriber.publisher.latestVersion
-      _          <- PublishMessage(nv.copy(globalVersion = versioned._1))
+      _          <- PublishMessage(nv.copy(globalVersion = versioned._1, epoch = subscriber.publisher.epoch))
     } yield ()
 
     case CurrentSelection(cellID, range) => subscriber.setSelection(cellID, range)
 
+    case req @ NotebookUpdateRange(_, _, epoch, fromVersion, toVersion, _) => for {
+      _ <- subscriber.checkPermission(Permission.ReadNotebook)
+      _ <- PublishMessage(req.copy(updates = subscriber.publisher.updatesBetween(epoch, fromVersion, toVersion)))
+    } yield ()
+
+    case LoadNotebook(_) => sendNotebookInfo
+
     // TODO: remove once Global and Notebook messages are separated, to give back exhaustivity checking
     case _ => ZIO.unit
   }
@@ -136,13 +143,16 @@ class NotebookSession(subscriber: KernelSubscriber, streamingHandles: StreamingH
 
   // First send the notebook without any results (because they're large) and then send the individual results
   // to make notebook loading more incremental.
+  // The notebook is followed by its version and epoch (with no request ID), so the client knows which version it has.
   private def sendNotebook: RIO[BaseEnv with GlobalEnv with PublishMessage, Unit] = for {
-    nb      <- subscriber.notebook
-    taskInfo = TaskInfo(nb.path, s"Loading notebook", s"Loading ${nb.path}", Running)
-    _       <- PublishMessage(KernelStatus(UpdatedTasks(List(taskInfo))))
-    _       <- PublishMessage(nb.withoutResults)
-    _       <- PublishMessage(KernelStatus(UpdatedTasks(List(taskInfo.progress(0.5)))))
-    _       <- sendCellResults(nb.results, taskInfo)
+    versioned <- subscriber.publisher.latestVersion
+    (ver, nb)  = versioned
+    taskInfo   = TaskInfo(nb.path, s"Loading notebook", s"Loading ${nb.path}", Running)
+    _         <- PublishMessage(KernelStatus(UpdatedTasks(List(taskInfo))))
+    _         <- PublishMessage(nb.withoutResults)
+    _         <- PublishMessage(NotebookVersion(0, nb.path, ver, subscriber.publisher.epoch))
+    _         <- PublishMessage(KernelStatus(UpdatedTasks(List(taskInfo.progress(0.5)))))
+    _         <- sendCellResults(nb.results, taskInfo)
   } yield ()
 
   def sendNotebookInfo: RIO[SessionEnv with PublishMessage, Unit] =
@@ -17,12 +17,14 @@ import polynote.kernel.{BaseEnv, GlobalEnv, Kernel}
 import polynote.messages.Message
 import polynote.server.auth.IdentityProvider
 import uzhttp.server.ServerLogger
+import uzhttp.websocket.Frame
 import uzhttp.{HTTPError, Request, Response}
 import HTTPError.{Forbidden, InternalServerError, NotFound}
 import polynote.kernel.interpreter.Interpreter
 import polynote.server.repository.NotebookRepository
 import zio.{Has, IO, Task, URIO, ZIO, ZLayer, ZManaged}
 import zio.blocking.{Blocking, effectBlocking}
+import zio.stream.Stream
 import sun.net.www.MimeTable
 
 class Server {
@@ -178,6 +180,7 @@ class Server {
         staticHandler <- staticFiles
         address       <- ZIO(config.listen.toSocketAddress).toManaged_
         getIndex      <- indexFileContent(wsKey).toManaged_
+        longPolling   <- LongPollSessions.make.toManaged_
         server        <- uzhttp.server.Server.builder(address).handleSome {
           case req@Request.WebsocketRequest(_, uri, _, _, inputFrames) =>
             val path = uri.getPath
@@ -188,6 +191,21 @@ class Server {
                 case rest => authorize(req, NotebookSession.stream(rest, inputFrames).flatMap(output => Response.websocket(req, output)))
               }
             } else ZIO.fail(Forbidden("Missing or incorrect key"))
+        }.handleSome {
+          // a fallback for clients which can't use websockets; it serves the same sessions.
+          case req if LongPollSessions.isPollPath(req.uri.getPath) =>
+            val params = Option(req.uri.getQuery).toList.flatMap(_.split('&')).map(_.split("=", 2)).collect {
+              case Array(k, v) => k -> v
+            }.toMap
+
+            if (params.get("key").contains(wsKey)) {
+              val session: Stream[Throwable, Frame] => ZIO[SessionEnv with NotebookManager, HTTPError, Stream[Throwable, Frame]] =
+                req.uri.getPath.stripPrefix("/poll").stripPrefix("/") match {
+                  case ""   => inputFrames => SocketSession(inputFrames, broadcastAll)
+                  case rest => inputFrames => NotebookSession.stream(rest, inputFrames)
+                }
+              authorize(req, longPolling.handle(req, params.get("session"), session))
+            } else ZIO.fail(Forbidden("Missing or incorrect key"))
         }.handleSome {
           case req if req.uri.getPath == "/" || req.uri.getPath == "" => getIndex.map(Response.html(_))
           case req if req.uri.getPath startsWith "/notebook/" =>
@@ -83,7 +83,8 @@ object SocketSession {
       identity  <- UserIdentity.access
       config    <- Config.access
     } yield ServerHandshake(
-      (SortedMap.empty[String, String] ++ factories.mapValues(_.head.languageName)).asInstanceOf[TinyMap[TinyString, TinyString]],
+      protocolFingerprint = Message.protocolFingerprint,
+      interpreters = (SortedMap.empty[String, String] ++ factories.mapValues(_.head.languageName)).asInstanceOf[TinyMap[TinyString, TinyString]],
       serverVersion = BuildInfo.version,
       serverCommit = BuildInfo.commit,
       identity = identity.map(i => Identity(i.name, i.avatar.map(ShortString))),
@@ -21,8 +21,8 @@ class VersionBuffer[T] {
     }
   }
 
-  def oldestVersion: Option[Int] = Option(buffer.getFirst).map(_._1)
-  def newestVersion: Option[Int] = Option(buffer.getLast).map(_._1)
+  def oldestVersion: Option[Int] = Option(buffer.peekFirst()).map(_._1)
+  def newestVersion: Option[Int] = Option(buffer.peekLast()).map(_._1)
 
   def discardUntil(version: Int): Unit = synchronized {
     buffer.removeIf {
@@ -16,7 +16,7 @@ import polynote.kernel.remote.SocketTransport.DeploySubprocess
 import polynote.kernel.remote.{RemoteKernel, SocketTransport, SocketTransportServer}
 import polynote.kernel.remote.SocketTransport.DeploySubprocess.DeployJava
 import polynote.kernel.{BaseEnv, CellEnv, GlobalEnv, Kernel, KernelBusyState, KernelError, KernelInfo, KernelStatusUpdate, LocalKernel, LocalKernelFactory, Output}
-import polynote.messages.{CellID, Message, Notebook, NotebookCell, ShortList}
+import polynote.messages.{CellID, InsertCell, Message, Notebook, NotebookCell, NotebookUpdate, ShortList}
 import polynote.testing.ExtConfiguredZIOSpec
 import polynote.testing.kernel.MockNotebookRef
 import zio.duration.Duration
@@ -38,8 +38,56 @@ class KernelPublisherIntegrationTest extends FreeSpec with Matchers with ExtConf
 
   private val bq = mock[Topic[Task, Option[Message]]]
 
+  private def insertCell(version: Int): NotebookUpdate =
+    InsertCell(version, 0, NotebookCell(CellID(version), "scala", ""), CellID(version - 1))
+
+  // a publisher whose version buffer holds an update for each of the given versions
+  private def publisherWithUpdates(versions: Int*): KernelPublisher = {
+    val ref       = MockNotebookRef(Notebook("/i/am/fake.ipynb", ShortList(Nil), None), version = versions.lastOption.getOrElse(0)).runIO()
+    val publisher = KernelPublisher(ref, bq).runWith(Kernel.Factory.const(mkStubKernel))
+    versions.foreach(version => publisher.versionBuffer.add(version, insertCell(version)))
+    publisher
+  }
+
   "KernelPublisher" - {
 
+    "updatesBetween" - {
+
+      "gives the updates after the first version, up to and including the last" in {
+        val publisher = publisherWithUpdates(1, 2, 3, 4, 5)
+        publisher.updatesBetween(publisher.epoch, 2, 4) shouldEqual Some(List(insertCell(3), insertCell(4)))
+        publisher.updatesBetween(publisher.epoch, 0, 5) shouldEqual Some((1 to 5).toList.map(insertCell))
+        publisher.updatesBetween(publisher.epoch, 3, 3) shouldEqual Some(Nil)
+      }
+
+      "gives nothing if the buffer doesn't go back far enough" in {
+        val publisher = publisherWithUpdates(3, 4, 5)
+        publisher.updatesBetween(publisher.epoch, 1, 5) shouldEqual None
+        publisher.updatesBetween(publisher.epoch, 2, 5) shouldEqual Some(List(insertCell(3), insertCell(4), insertCell(5)))
+      }
+
+      "gives nothing if the buffer is empty" in {
+        val empty = publisherWithUpdates()
+        empty.updatesBetween(empty.epoch, 0, 2) shouldEqual None
+
+        val discarded = publisherWithUpdates(1, 2)
+        discarded.versionBuffer.discardUntil(3)
+        discarded.updatesBetween(discarded.epoch, 1, 2) shouldEqual None
+      }
+
+      "gives nothing for versions from another epoch" in {
+        val publisher = publisherWithUpdates(1, 2, 3)
+        val other     = publisherWithUpdates(1, 2, 3)
+        publisher.epoch should not equal other.epoch
+        publisher.updatesBetween(other.epoch, 1, 3) shouldEqual None
+      }
+
+      "gives nothing if the versions are backwards" in {
+        val publisher = publisherWithUpdates(1, 2, 3)
+        publisher.updatesBetween(publisher.epoch, 3, 1) shouldEqual None
+      }
+    }
+
     "collapses carriage returns in saved notebook" in {
       val kernel          = mkStubKernel
       val kernelFactory   = Kernel.Factory.const(kernel)
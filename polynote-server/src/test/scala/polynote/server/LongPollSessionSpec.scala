@@ -0,0 +1,80 @@
+package polynote.server
+
+import org.scalatest.{FreeSpec, Matchers}
+import polynote.testing.ZIOSpec
+import uzhttp.HTTPError.BadRequest
+import uzhttp.websocket.{Binary, Frame}
+import zio.ZIO
+
+class LongPollSessionSpec extends FreeSpec with Matchers with ZIOSpec {
+  import LongPollSession.{decodeFrames, encodeFrames}
+
+  private def frameData(frames: List[Frame]): List[List[Byte]] = frames.map {
+    case Binary(data, _) => data.toList
+    case frame           => fail(s"Unexpected frame $frame")
+  }
+
+  // a session which sends back whatever it receives
+  private def echoSession() = LongPollSession[Any](input => ZIO.succeed(input)).runIO()
+
+  private val frames = List(Array[Byte](1, 2, 3), Array.emptyByteArray, Array[Byte](4))
+
+  "LongPollSession" - {
+
+    "frames" - {
+
+      "are decoded as they're encoded" in {
+        frameData(decodeFrames(encodeFrames(frames))) shouldEqual frames.map(_.toList)
+        decodeFrames(Array.emptyByteArray) shouldEqual Nil
+      }
+
+      "are rejected if their length is negative" in {
+        an [IllegalArgumentException] should be thrownBy decodeFrames(Array[Byte](-1, -1, -1, -1))
+      }
+
+      "are rejected if their length is longer than the rest of the body" in {
+        an [IllegalArgumentException] should be thrownBy decodeFrames(Array[Byte](0, 0, 0, 4, 1, 2, 3))
+      }
+
+      "are rejected if their length is truncated" in {
+        an [IllegalArgumentException] should be thrownBy decodeFrames(encodeFrames(frames) ++ Array[Byte](0, 0))
+      }
+    }
+
+    "polls the frames which the session sends" in {
+      val session = echoSession()
+      session.send(encodeFrames(frames)).runIO()
+      val Some(body) = session.poll.runIO()
+      frameData(decodeFrames(body)) shouldEqual frames.map(_.toList)
+    }
+
+    "fails to send an invalid body, without ending the session" in {
+      val session = echoSession()
+      session.send(Array[Byte](0, 0, 0, 10, 1)).either.runIO() should matchPattern {
+        case Left(BadRequest(_)) =>
+      }
+
+      session.send(encodeFrames(frames)).runIO()
+      val Some(body) = session.poll.runIO()
+      frameData(decodeFrames(body)) shouldEqual frames.map(_.toList)
+    }
+
+    "ends when it's closed" in {
+      val session = echoSession()
+      session.close.runIO()
+      session.poll.runIO() shouldEqual None
+      session.ended.await.runIO()
+    }
+  }
+
+  "LongPollSessions" - {
+
+    "only handles long-polling paths" in {
+      LongPollSessions.isPollPath("/poll") shouldBe true
+      LongPollSessions.isPollPath("/poll/some/notebook.ipynb") shouldBe true
+      LongPollSessions.isPollPath("/pollfoo") shouldBe false
+      LongPollSessions.isPollPath("/notebook/poll") shouldBe false
+    }
+  }
+
+}
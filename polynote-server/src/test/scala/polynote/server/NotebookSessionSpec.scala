@@ -0,0 +1,109 @@
+package polynote.server
+
+import fs2.concurrent.Topic
+import org.scalamock.scalatest.MockFactory
+import org.scalatest.{FreeSpec, Matchers}
+import polynote.kernel.{BaseEnv, GlobalEnv, Kernel, KernelInfo, StreamingHandles}
+import polynote.kernel.environment.Config
+import polynote.kernel.interpreter.Interpreter
+import polynote.kernel.util.Publish
+import polynote.messages.{CellID, InsertCell, LoadNotebook, Message, Notebook, NotebookCell, NotebookUpdate, NotebookUpdateRange, NotebookVersion, ShortList}
+import polynote.server.auth.{Identity, IdentityProvider}
+import polynote.testing.ExtConfiguredZIOSpec
+import polynote.testing.kernel.MockNotebookRef
+import zio.{Ref, Tagged, Task, ZIO, ZLayer}
+
+class NotebookSessionSpec extends FreeSpec with Matchers with ExtConfiguredZIOSpec[Interpreter.Factories] with MockFactory {
+  val tagged: Tagged[Interpreter.Factories] = implicitly
+
+  override lazy val configuredEnvLayer: ZLayer[zio.ZEnv with Config, Nothing, Interpreter.Factories] = ZLayer.succeed(Map.empty)
+
+  private val path = "/i/am/fake.ipynb"
+  private val notebook = Notebook(path, ShortList(List(NotebookCell(CellID(0), "scala", "val x = 1"))), None)
+
+  private val kernelFactory = {
+    val stubKernel = stub[Kernel]
+    stubKernel.shutdown _ when () returns ZIO.unit
+    stubKernel.awaitClosed _ when () returns ZIO.unit
+    stubKernel.init _ when () returns ZIO.unit
+    stubKernel.info _ when () returns ZIO.succeed(KernelInfo())
+    Kernel.Factory.const(stubKernel)
+  }
+
+  private val bq = mock[Topic[Task, Option[Message]]]
+
+  private def insertCell(version: Int): NotebookUpdate =
+    InsertCell(version, 0, NotebookCell(CellID(version), "scala", ""), CellID(version - 1))
+
+  // a publisher of the notebook, at version 3, whose version buffer has the updates which led to it
+  private def mkPublisher(): KernelPublisher = {
+    val ref       = MockNotebookRef(notebook, version = 3).runIO()
+    val publisher = KernelPublisher(ref, bq).runWith(kernelFactory)
+    (1 to 3).foreach(version => publisher.versionBuffer.add(version, insertCell(version)))
+    publisher
+  }
+
+  // the messages which a session with the given publisher sends in response to the given message
+  private def handle(publisher: KernelPublisher, message: Message): List[Message] = {
+    val run = for {
+      published <- Ref.make(List.empty[Message])
+      layer      = ZLayer.succeed(Publish.fn[Task, Message](msg => published.update(_ :+ msg))) ++
+                   ZLayer.succeed(Option.empty[Identity]) ++
+                   ZLayer.succeed(IdentityProvider.noneService)
+      handles   <- StreamingHandles.make(0)
+      _         <- (for {
+                     subscriber <- publisher.subscribe()
+                     _          <- new NotebookSession(subscriber, handles).handleMessage(message)
+                     _          <- subscriber.close()
+                   } yield ()).provideSomeLayer[BaseEnv with GlobalEnv](layer)
+      messages  <- published.get
+    } yield messages
+
+    run.runWith(kernelFactory)
+  }
+
+  "NotebookSession" - {
+
+    "responds to NotebookVersion with the current version and the publisher's epoch" in {
+      val publisher = mkPublisher()
+      handle(publisher, NotebookVersion(1, path, 0, "")) should contain (NotebookVersion(1, path, 3, publisher.epoch))
+    }
+
+    "responds to NotebookUpdateRange" - {
+
+      "with the updates in the range" in {
+        val publisher = mkPublisher()
+        handle(publisher, NotebookUpdateRange(1, path, publisher.epoch, 1, 3, None)) should contain (
+          NotebookUpdateRange(1, path, publisher.epoch, 1, 3, Some(List(insertCell(2), insertCell(3))))
+        )
+      }
+
+      "with no updates if they're from another epoch" in {
+        val publisher = mkPublisher()
+        val other     = mkPublisher()
+        handle(publisher, NotebookUpdateRange(1, path, other.epoch, 1, 3, None)) should contain (
+          NotebookUpdateRange(1, path, other.epoch, 1, 3, None)
+        )
+      }
+
+      "with no updates if the publisher doesn't have all of them" in {
+        val publisher = mkPublisher()
+        publisher.versionBuffer.discardUntil(3)
+        handle(publisher, NotebookUpdateRange(1, path, publisher.epoch, 1, 3, None)) should contain (
+          NotebookUpdateRange(1, path, publisher.epoch, 1, 3, None)
+        )
+      }
+    }
+
+    "responds to LoadNotebook with the notebook, followed by its version and epoch" in {
+      val publisher = mkPublisher()
+      val messages  = handle(publisher, LoadNotebook(path))
+      val version   = NotebookVersion(0, path, 3, publisher.epoch)
+      messages should contain (notebook.withoutResults)
+      messages should contain (version)
+      messages.indexOf(notebook.withoutResults) should be < messages.indexOf(version)
+    }
+
+  }
+
+}
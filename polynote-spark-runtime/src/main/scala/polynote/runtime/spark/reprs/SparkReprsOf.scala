@@ -45,6 +45,9 @@ object SparkReprsOf extends LowPrioritySparkReprsOf {
       case sparkTypes.DoubleType  => DoubleType -> (out => row => index => DataEncoder.double.encode(out, row.getDouble(index)))
       case sparkTypes.BinaryType  => BinaryType -> (out => row => index => DataEncoder.byteArray.encode(out, row.getBinary(index)))
       case sparkTypes.StringType  => StringType -> (out => row => index => DataEncoder.string.encode(out, row.getUTF8String(index).toString))
+      // spark's internal representations of dates and timestamps are the same as ours
+      case sparkTypes.DateType      => DateType -> (out => row => index => DataEncoder.int.encode(out, row.getInt(index)))
+      case sparkTypes.TimestampType => TimestampType -> (out => row => index => DataEncoder.long.encode(out, row.getLong(index)))
       case sparkTypes.ArrayType(sparkElementType, nullable) if dataTypeAndEncoder(sparkElementType, nullable).nonEmpty =>
         val (elementType, encode) = dataTypeAndEncoder(sparkElementType, nullable).get
         ArrayType(elementType) -> {
@@ -186,7 +189,10 @@ object SparkReprsOf extends LowPrioritySparkReprsOf {
           List(quartilesAgg, meanAgg) -> Some(post)
 
         case (name, "sum") => List(sum(col(name)) as s"sum($name)") -> None
-        case (name, "count") => List(count(col(name).cast("double")) as s"count($name)") -> None
+        // count is every row, like the other handles' count; SQL's count(column) is non_null_count.
+        case (name, "count") => List(count(lit(1)) as s"count($name)") -> None
+        case (name, "non_null_count") => List(count(col(name)) as s"non_null_count($name)") -> None
+        case (name, "null_count") => List(count(when(col(name).isNull, 1)) as s"null_count($name)") -> None
         case (name, "approx_count_distinct") => List(approx_count_distinct(col(name)) as s"approx_count_distinct($name)") -> None
         case (name, "mean") => List(avg(col(name)) as s"mean($name)") -> None
 
@@ -195,6 +201,23 @@ object SparkReprsOf extends LowPrioritySparkReprsOf {
         case (_, op) => throw new UnsupportedOperationException(op)
       }
 
+      // the literal is cast to the column's type by Spark, so it doesn't need to be parsed here.
+      def toCondition(predicate: Predicate): Column = predicate match {
+        case Predicate.Compare(name, op, value) => op match {
+          case "=="       => col(name) === lit(value)
+          case "!="       => col(name) =!= lit(value)
+          case "<"        => col(name) < lit(value)
+          case "<="       => col(name) <= lit(value)
+          case ">"        => col(name) > lit(value)
+          case ">="       => col(name) >= lit(value)
+          case "contains" => col(name).cast("string").contains(value)
+          case _          => throw new UnsupportedOperationException(op)
+        }
+        case Predicate.And(predicates) => predicates.map(toCondition).reduceOption(_ && _).getOrElse(lit(true))
+        case Predicate.Or(predicates)  => predicates.map(toCondition).reduceOption(_ || _).getOrElse(lit(false))
+        case Predicate.Not(p)          => !toCondition(p)
+      }
+
       ops.foldLeft(tryEither(dataFrame)) {
         (dfOrErr, op) => dfOrErr.right.flatMap {
           df => op match {
@@ -203,7 +226,8 @@ object SparkReprsOf extends LowPrioritySparkReprsOf {
                 case (aggColss, postFns) => aggColss.flatten -> postFns.flatten
               }
               val post = postFns.foldLeft(identity[DataFrame] _)(_ andThen _)
-              post(df.groupBy(cols.head, cols.tail: _*).agg(aggCols.head, aggCols.tail: _*))
+              // without any grouping columns, this aggregates the whole DataFrame
+              post(df.groupBy(cols.map(col): _*).agg(aggCols.head, aggCols.tail: _*))
             }
 
             case QuantileBin(column, binCount, err) => tryEither {
@@ -217,6 +241,16 @@ object SparkReprsOf extends LowPrioritySparkReprsOf {
             }
 
             case Select(columns) => tryEither(df.select(columns.head, columns.tail: _*))
+
+            case Filter(predicate) => tryEither(df.filter(toCondition(predicate)))
+
+            case Sort(columns) => tryEither {
+              df.orderBy(columns.map {
+                case (name, descending) => if (descending) col(name).desc else col(name).asc
+              }: _*)
+            }
+
+            case Limit(count) => tryEither(df.limit(count))
           }
         }
       }.right.map {